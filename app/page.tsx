@@ -1,5 +1,10 @@
 import FinanceApp from "../finance-app.tsx"
+import { CategoryProvider } from "@/components/category-provider"
 
 export default function Page() {
-  return <FinanceApp />
+  return (
+    <CategoryProvider>
+      <FinanceApp />
+    </CategoryProvider>
+  )
 }
@@ -0,0 +1,418 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Skeleton } from "@/components/ui/skeleton"
+import { toast } from "sonner"
+import { ArrowLeftRight, Banknote, CreditCard, Edit, PiggyBank, PlusCircle, Smartphone, Trash2, Wallet } from "lucide-react"
+import { addExpense, deleteAccount, getAccounts, saveAccount } from "@/utils/db"
+import { calculateAccountBalances } from "@/utils/cash-flow"
+import { formatCurrency } from "@/utils/format-utils"
+import { logUserActivity } from "@/utils/vercel-analytics"
+import type { Account, AccountKind, Expense } from "@/utils/models"
+import ExpenseDatePicker from "./expense-date-picker"
+
+// Account kinds with their labels and icons
+const ACCOUNT_KINDS: Record<AccountKind, { name: string; icon: typeof Wallet }> = {
+  cash: { name: "Cash", icon: Banknote },
+  debit: { name: "Debit Card", icon: Wallet },
+  credit: { name: "Credit Card", icon: CreditCard },
+  "mobile-money": { name: "Mobile Money", icon: Smartphone },
+  savings: { name: "Savings", icon: PiggyBank },
+}
+
+interface AccountsViewProps {
+  currentTheme: any
+  currentCurrency: string
+  expenses: Expense[]
+  onTransactionsChanged: () => void
+}
+
+export default function AccountsView({
+  currentTheme,
+  currentCurrency,
+  expenses,
+  onTransactionsChanged,
+}: AccountsViewProps) {
+  const [accounts, setAccounts] = useState<Account[]>([])
+  const [loading, setLoading] = useState<boolean>(true)
+
+  // Account form state
+  const [isAccountDialogOpen, setIsAccountDialogOpen] = useState(false)
+  const [editingAccount, setEditingAccount] = useState<Account | null>(null)
+  const [accountName, setAccountName] = useState("")
+  const [accountKind, setAccountKind] = useState<AccountKind>("cash")
+  const [openingBalance, setOpeningBalance] = useState("")
+  const [accountError, setAccountError] = useState("")
+
+  // Transfer form state
+  const [isTransferDialogOpen, setIsTransferDialogOpen] = useState(false)
+  const [fromAccount, setFromAccount] = useState("")
+  const [toAccount, setToAccount] = useState("")
+  const [transferAmount, setTransferAmount] = useState("")
+  const [transferNote, setTransferNote] = useState("")
+  const [transferTimestamp, setTransferTimestamp] = useState<number | null>(null)
+  const [transferError, setTransferError] = useState("")
+
+  useEffect(() => {
+    loadAccounts()
+  }, [])
+
+  const loadAccounts = async () => {
+    try {
+      setLoading(true)
+      setAccounts(await getAccounts())
+    } catch (error) {
+      console.error("Error loading accounts:", error)
+      toast.error("Failed to load accounts")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const balances = calculateAccountBalances(accounts, expenses)
+  const totalBalance = accounts.reduce((sum, account) => sum + (balances.get(account.id) ?? 0), 0)
+
+  const resetAccountForm = () => {
+    setEditingAccount(null)
+    setAccountName("")
+    setAccountKind("cash")
+    setOpeningBalance("")
+    setAccountError("")
+  }
+
+  const handleEditAccount = (account: Account) => {
+    setEditingAccount(account)
+    setAccountName(account.name)
+    setAccountKind(account.kind)
+    setOpeningBalance(account.openingBalance.toString())
+    setAccountError("")
+    setIsAccountDialogOpen(true)
+  }
+
+  const handleSaveAccount = async () => {
+    if (!accountName.trim()) {
+      setAccountError("Please enter an account name")
+      return
+    }
+
+    // Opening balance may be negative (e.g. a credit card that already has a balance owed)
+    const balanceValue = openingBalance.trim() ? Number.parseFloat(openingBalance) : 0
+    if (isNaN(balanceValue)) {
+      setAccountError("Please enter a valid opening balance")
+      return
+    }
+
+    setAccountError("")
+
+    try {
+      const account: Account = {
+        id: editingAccount?.id ?? crypto.randomUUID(),
+        name: accountName.trim(),
+        kind: accountKind,
+        openingBalance: balanceValue,
+        createdAt: editingAccount?.createdAt ?? Date.now(),
+      }
+
+      await saveAccount(account)
+      logUserActivity(editingAccount ? "account_updated" : "account_created")
+
+      resetAccountForm()
+      setIsAccountDialogOpen(false)
+      await loadAccounts()
+
+      toast.success(editingAccount ? "Account updated" : "Account created")
+    } catch (error) {
+      console.error("Error saving account:", error)
+      toast.error("Failed to save account")
+    }
+  }
+
+  const handleDeleteAccount = async (account: Account) => {
+    if (confirm(`Are you sure you want to delete ${account.name}?`)) {
+      try {
+        await deleteAccount(account.id)
+        await loadAccounts()
+        toast.success("Account deleted")
+      } catch (error) {
+        console.error("Error deleting account:", error)
+        toast.error("Failed to delete account", {
+          description: "Accounts with transactions can't be deleted",
+        })
+      }
+    }
+  }
+
+  const openTransferDialog = () => {
+    setFromAccount(accounts[0]?.id ?? "")
+    setToAccount(accounts[1]?.id ?? "")
+    setTransferAmount("")
+    setTransferNote("")
+    setTransferTimestamp(null)
+    setTransferError("")
+    setIsTransferDialogOpen(true)
+  }
+
+  const handleTransfer = async () => {
+    const amountValue = Number.parseFloat(transferAmount)
+
+    if (!fromAccount || !toAccount) {
+      setTransferError("Please select both accounts")
+      return
+    }
+
+    if (fromAccount === toAccount) {
+      setTransferError("Choose two different accounts")
+      return
+    }
+
+    if (isNaN(amountValue) || amountValue <= 0) {
+      setTransferError("Please enter a valid amount")
+      return
+    }
+
+    setTransferError("")
+
+    try {
+      await addExpense({
+        id: crypto.randomUUID(),
+        type: "transfer",
+        amount: amountValue,
+        timestamp: transferTimestamp ?? Date.now(),
+        category: "transfer",
+        note: transferNote.trim() || undefined,
+        accountId: fromAccount,
+        toAccountId: toAccount,
+      })
+
+      logUserActivity("transfer_added")
+      setIsTransferDialogOpen(false)
+      onTransactionsChanged()
+
+      toast.success("Transfer recorded")
+    } catch (error) {
+      console.error("Error adding transfer:", error)
+      toast.error("Failed to record transfer")
+    }
+  }
+
+  if (loading) {
+    return (
+      <Card className="p-6 space-y-4">
+        <Skeleton className="h-8 w-48" />
+        <Skeleton className="h-6 w-full" />
+        <Skeleton className="h-6 w-full" />
+        <Skeleton className="h-6 w-full" />
+      </Card>
+    )
+  }
+
+  const { value: totalValue, suffix: totalSuffix } = formatCurrency(totalBalance, 2, currentCurrency)
+
+  return (
+    <Card className={`${currentTheme.card} rounded-[24px]`}>
+      <CardHeader className="flex flex-row items-center justify-between pb-2">
+        <CardTitle className={`text-lg font-semibold ${currentTheme.text.primary}`}>Accounts</CardTitle>
+        <div className="flex gap-2">
+          {accounts.length > 1 && (
+            <Button variant="outline" size="sm" className="rounded-full" onClick={openTransferDialog}>
+              <ArrowLeftRight className="w-4 h-4 mr-1" />
+              Transfer
+            </Button>
+          )}
+          <Button
+            onClick={() => {
+              resetAccountForm()
+              setIsAccountDialogOpen(true)
+            }}
+            className={`rounded-full ${currentTheme.button} text-white`}
+            size="sm"
+          >
+            <PlusCircle className="w-4 h-4 mr-1" />
+            Add Account
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {accounts.length === 0 ? (
+          <div className="text-center py-12 text-gray-500">
+            <p>No accounts yet</p>
+            <p className="text-sm mt-2">Add your cash, cards and wallets to track their balances</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="bg-gray-50 p-3 rounded-lg flex justify-between items-baseline">
+              <p className="text-sm text-gray-500">Total balance</p>
+              <p className={`text-xl font-bold ${totalBalance < 0 ? "text-red-500" : currentTheme.text.primary}`}>
+                {totalValue}
+                {totalSuffix && <span className="text-xs ml-1">{totalSuffix}</span>}
+              </p>
+            </div>
+
+            <div className="space-y-3 max-h-[400px] overflow-y-auto pr-2">
+              {accounts.map((account) => {
+                const balance = balances.get(account.id) ?? 0
+                const { value, suffix } = formatCurrency(balance, 2, currentCurrency)
+                const { name: kindName, icon: KindIcon } = ACCOUNT_KINDS[account.kind]
+
+                return (
+                  <div key={account.id} className="flex items-center justify-between p-2 hover:bg-gray-50 rounded-lg">
+                    <div className="flex items-center">
+                      <div className="w-10 h-10 flex items-center justify-center rounded-full mr-3 bg-gray-100">
+                        <KindIcon className="w-5 h-5 text-gray-600" />
+                      </div>
+                      <div>
+                        <p className={`font-medium ${currentTheme.text.secondary}`}>{account.name}</p>
+                        <p className="text-xs text-gray-400">{kindName}</p>
+                      </div>
+                    </div>
+                    <div className="flex items-center">
+                      <p className={`font-semibold mr-3 ${balance < 0 ? "text-red-500" : currentTheme.text.primary}`}>
+                        {value}
+                        {suffix && <span className="text-xs ml-1">{suffix}</span>}
+                      </p>
+                      <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => handleEditAccount(account)}>
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-8 w-8 p-0 text-red-500 hover:text-red-700"
+                        onClick={() => handleDeleteAccount(account)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                )
+              })}
+            </div>
+          </div>
+        )}
+      </CardContent>
+
+      {/* Add / edit account dialog */}
+      <Dialog open={isAccountDialogOpen} onOpenChange={setIsAccountDialogOpen}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>{editingAccount ? "Edit Account" : "Add Account"}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Name</label>
+              <Input
+                type="text"
+                placeholder="e.g. Wallet, Visa, M-Pesa"
+                value={accountName}
+                onChange={(e) => setAccountName(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Type</label>
+              <Select value={accountKind} onValueChange={(value) => setAccountKind(value as AccountKind)}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select type" />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(ACCOUNT_KINDS).map(([kind, { name }]) => (
+                    <SelectItem key={kind} value={kind}>
+                      {name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Opening balance</label>
+              <Input
+                type="number"
+                placeholder="0.00"
+                value={openingBalance}
+                onChange={(e) => setOpeningBalance(e.target.value)}
+              />
+            </div>
+            {accountError && <p className="text-red-500 text-sm">{accountError}</p>}
+            <div className="flex justify-end space-x-2 pt-4">
+              <Button variant="outline" onClick={() => setIsAccountDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button onClick={handleSaveAccount}>Save</Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* Transfer dialog */}
+      <Dialog open={isTransferDialogOpen} onOpenChange={setIsTransferDialogOpen}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>Transfer Between Accounts</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-2">
+                <label className="text-sm font-medium">From</label>
+                <Select value={fromAccount} onValueChange={setFromAccount}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="From" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {accounts.map((account) => (
+                      <SelectItem key={account.id} value={account.id}>
+                        {account.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium">To</label>
+                <Select value={toAccount} onValueChange={setToAccount}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="To" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {accounts.map((account) => (
+                      <SelectItem key={account.id} value={account.id}>
+                        {account.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Amount</label>
+              <Input
+                type="number"
+                placeholder="Enter amount"
+                value={transferAmount}
+                onChange={(e) => setTransferAmount(e.target.value)}
+              />
+            </div>
+            <div className="flex gap-2">
+              <Input
+                type="text"
+                placeholder="Note (optional)"
+                value={transferNote}
+                onChange={(e) => setTransferNote(e.target.value)}
+              />
+              <ExpenseDatePicker value={transferTimestamp} onChange={setTransferTimestamp} currentTheme={currentTheme} />
+            </div>
+            {transferError && <p className="text-red-500 text-sm">{transferError}</p>}
+            <div className="flex justify-end space-x-2 pt-4">
+              <Button variant="outline" onClick={() => setIsTransferDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button onClick={handleTransfer}>Transfer</Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
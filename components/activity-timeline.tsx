@@ -0,0 +1,71 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { toast } from "sonner"
+import { getAccounts, getRecentChanges } from "@/utils/db"
+import type { Account, ChangeLogEntry } from "@/utils/models"
+import ChangeList from "./change-list"
+
+interface ActivityTimelineProps {
+  currentTheme: any
+  currentCurrency: string
+}
+
+const PAGE_SIZE = 50
+
+// Every recorded change to transactions, categories and budget goals, newest first
+export default function ActivityTimeline({ currentTheme, currentCurrency }: ActivityTimelineProps) {
+  const [changes, setChanges] = useState<ChangeLogEntry[]>([])
+  const [accounts, setAccounts] = useState<Account[]>([])
+  const [hasMore, setHasMore] = useState(false)
+  const [isLoading, setIsLoading] = useState(true)
+
+  useEffect(() => {
+    loadChanges(null)
+    getAccounts().then(setAccounts)
+  }, [])
+
+  const loadChanges = async (after: ChangeLogEntry | null) => {
+    try {
+      setIsLoading(true)
+      const page = await getRecentChanges(PAGE_SIZE, after)
+      setChanges((previous) => (after ? [...previous, ...page] : page))
+      setHasMore(page.length === PAGE_SIZE)
+    } catch (error) {
+      console.error("Error loading activity:", error)
+      toast.error("Failed to load activity")
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <Card className={`${currentTheme.card} rounded-[24px]`}>
+      <CardHeader className="pb-2">
+        <CardTitle className={`text-lg font-semibold ${currentTheme.text.primary}`}>Activity</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {changes.length === 0 ? (
+          <p className="text-sm text-gray-400 text-center py-6">
+            {isLoading ? "Loading..." : "No changes recorded yet"}
+          </p>
+        ) : (
+          <ChangeList changes={changes} accounts={accounts} currentCurrency={currentCurrency} showRecord />
+        )}
+
+        {hasMore && (
+          <Button
+            variant="outline"
+            onClick={() => loadChanges(changes[changes.length - 1])}
+            disabled={isLoading}
+            className="w-full rounded-xl"
+          >
+            Load more
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
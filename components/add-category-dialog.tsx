@@ -6,34 +6,37 @@ import { useState } from "react"
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { PlusCircle } from "lucide-react"
 import { toast } from "sonner"
-import { addCustomCategory } from "@/utils/db"
-
-// Color options for categories
-const COLOR_OPTIONS = [
-  { name: "Green", value: "#4ade80" },
-  { name: "Blue", value: "#60a5fa" },
-  { name: "Pink", value: "#f472b6" },
-  { name: "Purple", value: "#a78bfa" },
-  { name: "Yellow", value: "#fbbf24" },
-  { name: "Teal", value: "#34d399" },
-  { name: "Orange", value: "#fb923c" },
-  { name: "Red", value: "#f87171" },
-  { name: "Indigo", value: "#818cf8" },
-]
+import { COLOR_OPTIONS, addCategory, validateCategoryName } from "@/utils/categories"
+import type { Category, CategoryKind } from "@/utils/models"
+import { useCategories } from "./category-provider"
+
+const NO_PARENT = "none"
 
 interface AddCategoryDialogProps {
-  onCategoryAdded: (category: { id: string; name: string; color: string }) => void
+  onCategoryAdded?: (category: Category) => void
   currentTheme: any
   trigger?: React.ReactNode
+  kind?: CategoryKind
 }
 
-export default function AddCategoryDialog({ onCategoryAdded, currentTheme, trigger }: AddCategoryDialogProps) {
+export default function AddCategoryDialog({
+  onCategoryAdded,
+  currentTheme,
+  trigger,
+  kind = "expense",
+}: AddCategoryDialogProps) {
   const [isOpen, setIsOpen] = useState(false)
   const [categoryName, setCategoryName] = useState("")
   const [selectedColor, setSelectedColor] = useState(COLOR_OPTIONS[0].value)
+  const [parentId, setParentId] = useState(NO_PARENT)
   const [error, setError] = useState("")
+  const { getCategoriesByKind, reloadCategories } = useCategories()
+
+  // Sub-categories are one level deep, so only top-level categories can be parents
+  const parentOptions = getCategoriesByKind(kind).filter((category) => !category.parentId)
 
   const handleAddCategory = async () => {
     // Validate input
@@ -45,25 +48,29 @@ export default function AddCategoryDialog({ onCategoryAdded, currentTheme, trigg
     setError("")
 
     try {
-      // Create category ID from name (lowercase, no spaces)
-      const categoryId = categoryName.trim().toLowerCase().replace(/\s+/g, "-")
+      // Names are unique, including those of deleted categories still in the store
+      const nameError = await validateCategoryName(categoryName)
+      if (nameError) {
+        setError(nameError)
+        return
+      }
 
-      // Create new category object
-      const newCategory = {
-        id: categoryId,
+      // Add to database (the ID is made from the name, or reused from a deleted category with that name)
+      const newCategory = await addCategory({
         name: categoryName.trim(),
         color: selectedColor,
-      }
-
-      // Add to database
-      await addCustomCategory(newCategory)
+        kind,
+        parentId: parentId === NO_PARENT ? undefined : parentId,
+      })
 
-      // Notify parent component
-      onCategoryAdded(newCategory)
+      // Refresh the shared category list and notify parent component
+      await reloadCategories()
+      onCategoryAdded?.(newCategory)
 
       // Reset form and close dialog
       setCategoryName("")
       setSelectedColor(COLOR_OPTIONS[0].value)
+      setParentId(NO_PARENT)
       setIsOpen(false)
 
       // Show success toast
@@ -88,7 +95,7 @@ export default function AddCategoryDialog({ onCategoryAdded, currentTheme, trigg
       </DialogTrigger>
       <DialogContent className="sm:max-w-[425px]">
         <DialogHeader>
-          <DialogTitle>Add New Category</DialogTitle>
+          <DialogTitle>{kind === "income" ? "Add New Income Category" : "Add New Category"}</DialogTitle>
         </DialogHeader>
         <div className="space-y-4 py-4">
           <div className="space-y-2">
@@ -103,6 +110,23 @@ export default function AddCategoryDialog({ onCategoryAdded, currentTheme, trigg
             {error && <p className="text-red-500 text-xs">{error}</p>}
           </div>
 
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Part of</label>
+            <Select value={parentId} onValueChange={setParentId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="max-h-[200px] overflow-y-auto">
+                <SelectItem value={NO_PARENT}>Nothing (top-level category)</SelectItem>
+                {parentOptions.map((category) => (
+                  <SelectItem key={category.id} value={category.id}>
+                    {category.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
           <div className="space-y-2">
             <label className="text-sm font-medium">Category Color</label>
             <div className="grid grid-cols-3 gap-2">
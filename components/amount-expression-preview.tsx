@@ -0,0 +1,20 @@
+"use client"
+
+import { evaluateAmountExpression, isAmountExpression } from "@/utils/amount-expression"
+
+interface AmountExpressionPreviewProps {
+  input: string
+}
+
+// Result of arithmetic typed into an amount field, e.g. "= 28.00" for "84/3"
+export default function AmountExpressionPreview({ input }: AmountExpressionPreviewProps) {
+  if (!isAmountExpression(input)) return null
+
+  const { value, error } = evaluateAmountExpression(input)
+
+  return error ? (
+    <p className="text-xs text-red-500">{error}</p>
+  ) : (
+    <p className="text-xs text-gray-500">= {value?.toFixed(2)}</p>
+  )
+}
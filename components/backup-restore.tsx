@@ -0,0 +1,238 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { toast } from "sonner"
+import { AlertTriangle, ArchiveRestore, DatabaseBackup, Download } from "lucide-react"
+import {
+  type MalformedRecord,
+  type StoreContents,
+  type StoreName,
+  exportAllStores,
+  getMalformedRecords,
+  restoreStores,
+} from "@/utils/db"
+import {
+  type Backup,
+  type RestoreMode,
+  createBackup,
+  downloadBackup,
+  downloadMalformedRecords,
+  parseBackup,
+  planRestore,
+} from "@/utils/backup-utils"
+import { formatDate } from "@/utils/date-utils"
+import { logUserActivity } from "@/utils/vercel-analytics"
+
+const STORE_LABELS: Record<StoreName, string> = {
+  expenses: "Transactions",
+  settings: "Settings",
+  categories: "Categories",
+  budgetGoals: "Budget goals",
+  accounts: "Accounts",
+  recurringRules: "Recurring bills",
+  categoryRules: "Categorization rules",
+  trash: "Trash",
+  changeLog: "Change history",
+}
+
+interface BackupRestoreProps {
+  currentTheme: any
+}
+
+export default function BackupRestore({ currentTheme }: BackupRestoreProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [isWorking, setIsWorking] = useState(false)
+  const [backup, setBackup] = useState<Backup | null>(null)
+  const [currentData, setCurrentData] = useState<StoreContents | null>(null)
+  const [mode, setMode] = useState<RestoreMode>("merge")
+  const [malformed, setMalformed] = useState<MalformedRecord[]>([]) // Stored rows that can't be read
+
+  useEffect(() => {
+    getMalformedRecords().then(setMalformed)
+  }, [])
+
+  const handleBackup = async () => {
+    try {
+      setIsWorking(true)
+      downloadBackup(createBackup(await exportAllStores()))
+      logUserActivity("backup_created")
+      toast.success("Backup downloaded")
+    } catch (error) {
+      console.error("Error creating backup:", error)
+      toast.error("Failed to create backup")
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  const handleFileSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = "" // Allow picking the same file again
+    if (!file) return
+
+    try {
+      const parsedBackup = parseBackup(await file.text())
+      setCurrentData(await exportAllStores())
+      setMode("merge")
+      setBackup(parsedBackup)
+    } catch (error) {
+      console.error("Error reading backup:", error)
+      toast.error("Can't restore this backup", {
+        description: error instanceof Error ? error.message : undefined,
+      })
+    }
+  }
+
+  // Dry run: what the restore would change, recalculated when the mode changes
+  const plan = backup && currentData ? planRestore(backup, currentData, mode) : null
+
+  const handleRestore = async () => {
+    if (!plan) return
+
+    if (mode === "replace" && !confirm("Replace your current data with this backup? This cannot be undone.")) {
+      return
+    }
+
+    try {
+      setIsWorking(true)
+      await restoreStores(plan.snapshot, mode)
+      logUserActivity(`backup_restored_${mode}`)
+      toast.success("Backup restored")
+
+      // Settings, categories and transactions are loaded all over the app, so start fresh
+      window.location.reload()
+    } catch (error) {
+      console.error("Error restoring backup:", error)
+      toast.error("Failed to restore backup", {
+        description: "Your data was not changed",
+      })
+      setIsWorking(false)
+    }
+  }
+
+  return (
+    <div className="p-4 border rounded-lg flex flex-col items-center text-center">
+      <DatabaseBackup className="h-12 w-12 mb-2 text-purple-600" />
+      <h3 className="font-medium mb-1">Backup & Restore</h3>
+      <p className="text-sm text-gray-500 mb-4">
+        Save everything (transactions, categories, budgets and settings) to a file, or restore it later.
+      </p>
+      <div className="flex gap-2 w-full">
+        <Button onClick={handleBackup} disabled={isWorking} className={`${currentTheme.button} text-white flex-1`}>
+          <Download className="h-4 w-4 mr-2" />
+          Backup
+        </Button>
+        <Button
+          variant="outline"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isWorking}
+          className="flex-1"
+        >
+          <ArchiveRestore className="h-4 w-4 mr-2" />
+          Restore
+        </Button>
+      </div>
+      {malformed.length > 0 && (
+        <div className="mt-3 w-full text-sm text-amber-600 flex items-center justify-between gap-2">
+          <span className="flex items-center text-left">
+            <AlertTriangle className="h-4 w-4 mr-1 shrink-0" />
+            {malformed.length} {malformed.length === 1 ? "record" : "records"} can't be read and are left out of the
+            app and backups
+          </span>
+          <Button variant="ghost" size="sm" onClick={() => downloadMalformedRecords(malformed)} className="shrink-0">
+            Save
+          </Button>
+        </div>
+      )}
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".json,application/json"
+        className="hidden"
+        onChange={handleFileSelected}
+      />
+
+      <Dialog open={backup !== null} onOpenChange={(open) => !open && setBackup(null)}>
+        <DialogContent className="sm:max-w-[520px]">
+          <DialogHeader>
+            <DialogTitle>Restore Backup</DialogTitle>
+          </DialogHeader>
+
+          {backup && plan && (
+            <div className="space-y-4 text-left">
+              <p className="text-sm text-gray-500">Backup from {formatDate(backup.createdAt)}</p>
+
+              <div className="flex gap-1 p-1 bg-gray-100 rounded-xl">
+                {(["merge", "replace"] as RestoreMode[]).map((value) => (
+                  <button
+                    key={value}
+                    type="button"
+                    onClick={() => setMode(value)}
+                    className={`flex-1 rounded-lg py-1.5 text-sm font-medium transition-colors ${
+                      mode === value ? "bg-white shadow-sm text-gray-900" : "text-gray-500 hover:text-gray-700"
+                    }`}
+                  >
+                    {value === "merge" ? "Merge" : "Replace"}
+                  </button>
+                ))}
+              </div>
+              <p className="text-xs text-gray-500">
+                {mode === "merge"
+                  ? "Records from the backup are added to your data. Records that exist in both are taken from the backup."
+                  : "Your current data is removed and replaced with the backup. The activity history is kept."}
+              </p>
+
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Data</TableHead>
+                    <TableHead className="text-right">New</TableHead>
+                    <TableHead className="text-right">Updated</TableHead>
+                    <TableHead className="text-right">Same</TableHead>
+                    <TableHead className="text-right">Removed</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {plan.summaries.map((summary) => (
+                    <TableRow key={summary.storeName}>
+                      <TableCell>{STORE_LABELS[summary.storeName]}</TableCell>
+                      <TableCell className="text-right">{summary.added}</TableCell>
+                      <TableCell className="text-right">{summary.updated}</TableCell>
+                      <TableCell className="text-right text-gray-400">{summary.unchanged}</TableCell>
+                      <TableCell className={`text-right ${summary.removed > 0 ? "text-red-500" : ""}`}>
+                        {summary.removed}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+
+              {plan.warnings.map((warning) => (
+                <p key={warning} className="text-sm text-amber-600 flex items-center">
+                  <AlertTriangle className="h-4 w-4 mr-1 shrink-0" />
+                  {warning}
+                </p>
+              ))}
+
+              <div className="flex justify-end space-x-2 pt-2">
+                <Button variant="outline" onClick={() => setBackup(null)}>
+                  Cancel
+                </Button>
+                <Button
+                  onClick={handleRestore}
+                  disabled={isWorking}
+                  className={mode === "replace" ? "bg-red-500 hover:bg-red-600 text-white" : ""}
+                >
+                  {mode === "merge" ? "Merge Backup" : "Replace Data"}
+                </Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
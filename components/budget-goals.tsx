@@ -9,7 +9,8 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from
 import { Skeleton } from "@/components/ui/skeleton"
 import { toast } from "sonner"
 import { PlusCircle, Edit, Trash2, AlertTriangle } from "lucide-react"
-import { getBudgetGoals, saveBudgetGoal, deleteBudgetGoal, getCustomCategories } from "@/utils/db"
+import { getBudgetGoals, saveBudgetGoal, deleteBudgetGoal, restoreTrashEntry } from "@/utils/db"
+import { toastWithUndo } from "@/utils/undo"
 import { getExpensesByPeriod } from "@/utils/db"
 import { formatCurrency } from "@/utils/format-utils"
 import {
@@ -28,17 +29,14 @@ import {
   getBudgetStatusColor,
   getBudgetStatusTextColor,
 } from "@/utils/budget-model"
+import { isSpending } from "@/utils/cash-flow"
+import { getCategoryWithChildren } from "@/utils/categories"
+import { getAmountInCategories } from "@/utils/splits"
+import { evaluateAmountExpression } from "@/utils/amount-expression"
+import type { Category } from "@/utils/models"
 import AddCategoryDialog from "./add-category-dialog"
-
-// Default categories
-const DEFAULT_CATEGORIES = [
-  { id: "food", name: "Food & Dining", color: "#4ade80" },
-  { id: "transport", name: "Transportation", color: "#60a5fa" },
-  { id: "shopping", name: "Shopping", color: "#f472b6" },
-  { id: "entertainment", name: "Entertainment", color: "#a78bfa" },
-  { id: "utilities", name: "Bills & Utilities", color: "#fbbf24" },
-  { id: "health", name: "Health", color: "#34d399" },
-]
+import { useCategories } from "./category-provider"
+import AmountExpressionPreview from "./amount-expression-preview"
 
 interface BudgetGoalsProps {
   currentTheme: any
@@ -51,7 +49,11 @@ export default function BudgetGoals({ currentTheme, currentCurrency }: BudgetGoa
   const [loading, setLoading] = useState<boolean>(true)
   const [isDialogOpen, setIsDialogOpen] = useState<boolean>(false)
   const [editingGoal, setEditingGoal] = useState<BudgetGoal | null>(null)
-  const [categories, setCategories] = useState([...DEFAULT_CATEGORIES])
+
+  const { categories: allCategories, getCategory, getCategoryLabel, getCategoriesByKind } = useCategories()
+
+  // Budgets only track spending, so income categories are left out; either level can have a budget
+  const categories = getCategoriesByKind("expense")
 
   // Form state
   const [category, setCategory] = useState<string>("food")
@@ -59,30 +61,10 @@ export default function BudgetGoals({ currentTheme, currentCurrency }: BudgetGoa
   const [period, setPeriod] = useState<BudgetPeriod>("monthly")
   const [formError, setFormError] = useState<string>("")
 
+  // Recalculate when categories change, since a parent's budget includes its sub-categories
   useEffect(() => {
     loadBudgetGoals()
-    loadCategories()
-  }, [])
-
-  const loadCategories = async () => {
-    try {
-      const customCategories = await getCustomCategories()
-      if (customCategories && customCategories.length > 0) {
-        // Combine default and custom categories, avoiding duplicates
-        const allCategories = [...DEFAULT_CATEGORIES]
-
-        customCategories.forEach((customCat) => {
-          if (!allCategories.some((cat) => cat.id === customCat.id)) {
-            allCategories.push(customCat)
-          }
-        })
-
-        setCategories(allCategories)
-      }
-    } catch (error) {
-      console.error("Error loading custom categories:", error)
-    }
-  }
+  }, [allCategories])
 
   const loadBudgetGoals = async () => {
     try {
@@ -142,12 +124,14 @@ export default function BudgetGoals({ currentTheme, currentCurrency }: BudgetGoa
     }
 
     try {
-      // Get expenses for the specified category and time period
+      // Get expenses for the specified category (and its sub-categories) and time period
       const expenses = await getExpensesByPeriod(startTime, endTime)
-      const categoryExpenses = expenses.filter((expense) => expense.category === category)
+      const categoryIds = getCategoryWithChildren(allCategories, category)
 
-      // Calculate total amount
-      return categoryExpenses.reduce((sum, expense) => sum + expense.amount, 0)
+      // Calculate total amount, counting only the splits that fall in the category
+      return expenses
+        .filter(isSpending)
+        .reduce((sum, expense) => sum + getAmountInCategories(expense, categoryIds), 0)
     } catch (error) {
       console.error("Error calculating current spending:", error)
       return 0
@@ -161,8 +145,14 @@ export default function BudgetGoals({ currentTheme, currentCurrency }: BudgetGoa
       return
     }
 
-    const amountValue = Number.parseFloat(amount)
-    if (isNaN(amountValue) || amountValue <= 0) {
+    // The amount may be arithmetic, e.g. "5400/52" for a weekly share of a yearly budget
+    const { value: amountValue, error: amountError } = evaluateAmountExpression(amount)
+    if (amountValue === null) {
+      setFormError(amountError ?? "Please enter a valid amount")
+      return
+    }
+
+    if (amountValue <= 0) {
       setFormError("Please enter a valid amount")
       return
     }
@@ -202,7 +192,15 @@ export default function BudgetGoals({ currentTheme, currentCurrency }: BudgetGoa
       // Reload budget goals
       await loadBudgetGoals()
 
-      toast.success(editingGoal ? "Budget goal updated" : "Budget goal created")
+      if (editingGoal) {
+        const previousGoal = editingGoal
+        toastWithUndo("Budget goal updated", async () => {
+          await saveBudgetGoal(previousGoal)
+          await loadBudgetGoals()
+        })
+      } else {
+        toast.success("Budget goal created")
+      }
     } catch (error) {
       console.error("Error saving budget goal:", error)
       toast.error("Failed to save budget goal")
@@ -217,16 +215,18 @@ export default function BudgetGoals({ currentTheme, currentCurrency }: BudgetGoa
     setIsDialogOpen(true)
   }
 
+  // Deleted goals go to the trash, so the toast can offer to put them back
   const handleDelete = async (id: string) => {
-    if (confirm("Are you sure you want to delete this budget goal?")) {
-      try {
-        await deleteBudgetGoal(id)
+    try {
+      const trashId = await deleteBudgetGoal(id)
+      await loadBudgetGoals()
+      toastWithUndo("Budget goal deleted", async () => {
+        if (trashId) await restoreTrashEntry(trashId)
         await loadBudgetGoals()
-        toast.success("Budget goal deleted")
-      } catch (error) {
-        console.error("Error deleting budget goal:", error)
-        toast.error("Failed to delete budget goal")
-      }
+      })
+    } catch (error) {
+      console.error("Error deleting budget goal:", error)
+      toast.error("Failed to delete budget goal")
     }
   }
 
@@ -238,16 +238,6 @@ export default function BudgetGoals({ currentTheme, currentCurrency }: BudgetGoa
     setFormError("")
   }
 
-  const getCategoryName = (categoryId: string) => {
-    const category = categories.find((c) => c.id === categoryId)
-    return category ? category.name : categoryId.charAt(0).toUpperCase() + categoryId.slice(1)
-  }
-
-  const getCategoryColor = (categoryId: string) => {
-    const category = categories.find((c) => c.id === categoryId)
-    return category?.color || "#94a3b8" // Default to slate gray if not found
-  }
-
   const getPeriodName = (period: BudgetPeriod) => {
     switch (period) {
       case "daily":
@@ -262,15 +252,7 @@ export default function BudgetGoals({ currentTheme, currentCurrency }: BudgetGoa
   }
 
   // Handle new category added
-  const handleCategoryAdded = (newCategory: { id: string; name: string; color: string }) => {
-    setCategories((prev) => {
-      // Check if category already exists
-      if (prev.some((cat) => cat.id === newCategory.id)) {
-        return prev
-      }
-      return [...prev, newCategory]
-    })
-
+  const handleCategoryAdded = (newCategory: Category) => {
     // Select the newly added category
     setCategory(newCategory.id)
   }
@@ -319,7 +301,7 @@ export default function BudgetGoals({ currentTheme, currentCurrency }: BudgetGoa
                         <SelectItem key={cat.id} value={cat.id}>
                           <div className="flex items-center">
                             <div className="w-3 h-3 rounded-full mr-2" style={{ backgroundColor: cat.color }}></div>
-                            {cat.name}
+                            {getCategoryLabel(cat.id)}
                           </div>
                         </SelectItem>
                       ))}
@@ -330,11 +312,12 @@ export default function BudgetGoals({ currentTheme, currentCurrency }: BudgetGoa
                 <div className="space-y-2">
                   <label className="text-sm font-medium">Amount</label>
                   <Input
-                    type="number"
-                    placeholder="Enter amount"
+                    type="text"
+                    placeholder="Enter amount, e.g. 1200/12"
                     value={amount}
                     onChange={(e) => setAmount(e.target.value)}
                   />
+                  <AmountExpressionPreview input={amount} />
                 </div>
                 <div className="space-y-2">
                   <label className="text-sm font-medium">Period</label>
@@ -375,10 +358,10 @@ export default function BudgetGoals({ currentTheme, currentCurrency }: BudgetGoa
                   <div className="flex items-center">
                     <div
                       className="w-3 h-3 rounded-full mr-2"
-                      style={{ backgroundColor: getCategoryColor(status.category) }}
+                      style={{ backgroundColor: getCategory(status.category).color }}
                     ></div>
                     <div>
-                      <h3 className="font-medium">{getCategoryName(status.category)}</h3>
+                      <h3 className="font-medium">{getCategoryLabel(status.category)}</h3>
                       <p className="text-sm text-gray-500">{getPeriodName(status.period)} Budget</p>
                     </div>
                   </div>
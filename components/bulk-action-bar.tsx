@@ -0,0 +1,113 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Download, Tag, Trash2, X } from "lucide-react"
+import { getCategoryKind, sortCategoriesByParent } from "@/utils/categories"
+import { parseTags } from "@/utils/tags"
+import TagInput from "./tag-input"
+import { useCategories } from "./category-provider"
+
+interface BulkActionBarProps {
+  selectedCount: number
+  totalCount?: number // Transactions "Select all" would select, when known
+  tags: string[] // Tags in use, suggested when tagging
+  busy: boolean
+  onSelectAll: () => void
+  onClear: () => void
+  onDelete: () => void
+  onRecategorize: (categoryId: string) => void
+  onTag: (tags: string[]) => void
+  onExport: () => void
+  currentTheme: any
+}
+
+// Actions on the transactions selected in the list
+export default function BulkActionBar({
+  selectedCount,
+  totalCount,
+  tags,
+  busy,
+  onSelectAll,
+  onClear,
+  onDelete,
+  onRecategorize,
+  onTag,
+  onExport,
+  currentTheme,
+}: BulkActionBarProps) {
+  const [showTagInput, setShowTagInput] = useState(false)
+  const [tagInput, setTagInput] = useState("")
+  const { categories, getCategoryLabel } = useCategories()
+  const disabled = busy || selectedCount === 0
+
+  const handleTag = () => {
+    const newTags = parseTags(tagInput)
+    if (newTags.length === 0) return
+
+    onTag(newTags)
+    setTagInput("")
+    setShowTagInput(false)
+  }
+
+  return (
+    <div className="space-y-2 p-3 mb-3 rounded-xl bg-gray-50">
+      <div className="flex items-center justify-between text-sm">
+        <span className="font-medium">{selectedCount} selected</span>
+        <div className="flex gap-1">
+          {(totalCount === undefined || selectedCount < totalCount) && (
+            <Button variant="ghost" size="sm" onClick={onSelectAll} disabled={busy}>
+              Select all{totalCount !== undefined && ` ${totalCount}`}
+            </Button>
+          )}
+          <Button variant="ghost" size="sm" onClick={onClear} aria-label="Stop selecting">
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <Select value="" onValueChange={onRecategorize} disabled={disabled}>
+          <SelectTrigger className={`w-[160px] h-9 rounded-xl ${currentTheme.input.background}`}>
+            <SelectValue placeholder="Set category" />
+          </SelectTrigger>
+          <SelectContent className="max-h-[200px] overflow-y-auto">
+            {sortCategoriesByParent(categories.filter((category) => !category.archived)).map((category) => (
+              <SelectItem key={category.id} value={category.id}>
+                <div className="flex items-center">
+                  <div className="w-3 h-3 rounded-full mr-2" style={{ backgroundColor: category.color }}></div>
+                  {getCategoryLabel(category.id)}
+                  {getCategoryKind(category) === "income" && <span className="ml-1 text-xs text-gray-400">income</span>}
+                </div>
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button variant="outline" size="sm" onClick={() => setShowTagInput(!showTagInput)} disabled={disabled}>
+          <Tag className="h-4 w-4 mr-1" />
+          Tag
+        </Button>
+        <Button variant="outline" size="sm" onClick={onExport} disabled={disabled}>
+          <Download className="h-4 w-4 mr-1" />
+          Export
+        </Button>
+        <Button variant="outline" size="sm" onClick={onDelete} disabled={disabled} className="text-red-600">
+          <Trash2 className="h-4 w-4 mr-1" />
+          Delete
+        </Button>
+      </div>
+
+      {showTagInput && (
+        <div className="flex gap-2 items-start">
+          <div className="flex-1">
+            <TagInput value={tagInput} onChange={setTagInput} suggestions={tags} currentTheme={currentTheme} />
+          </div>
+          <Button size="sm" onClick={handleTag} disabled={disabled || parseTags(tagInput).length === 0}>
+            Add tags
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
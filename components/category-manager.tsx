@@ -0,0 +1,421 @@
+"use client"
+
+import { useState } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { toast } from "sonner"
+import { Archive, ArchiveRestore, Edit, Merge, PlusCircle, Trash2 } from "lucide-react"
+import { type CategoryUsage, getCategoryUsage } from "@/utils/db"
+import {
+  COLOR_OPTIONS,
+  FALLBACK_ICON,
+  deleteCategory,
+  getCategoryKind,
+  mergeCategory,
+  sortCategoriesByParent,
+  updateCategory,
+  validateCategoryName,
+} from "@/utils/categories"
+import { logUserActivity } from "@/utils/vercel-analytics"
+import type { Category, CategoryKind } from "@/utils/models"
+import AddCategoryDialog from "./add-category-dialog"
+import { useCategories } from "./category-provider"
+
+type ReassignMode = "merge" | "delete"
+
+const NO_PARENT = "none"
+
+interface CategoryManagerProps {
+  currentTheme: any
+  onTransactionsChanged: () => void
+}
+
+export default function CategoryManager({ currentTheme, onTransactionsChanged }: CategoryManagerProps) {
+  const { categories, getCategoryLabel, getCategoriesByKind, reloadCategories } = useCategories()
+  const [kind, setKind] = useState<CategoryKind>("expense")
+
+  // Edit form state
+  const [editingCategory, setEditingCategory] = useState<Category | null>(null)
+  const [name, setName] = useState("")
+  const [color, setColor] = useState(COLOR_OPTIONS[0].value)
+  const [parentId, setParentId] = useState(NO_PARENT)
+  const [error, setError] = useState("")
+
+  // Merge / delete form state
+  const [reassigning, setReassigning] = useState<{ category: Category; mode: ReassignMode } | null>(null)
+  const [usage, setUsage] = useState<CategoryUsage | null>(null)
+  const [targetId, setTargetId] = useState("")
+  const [isWorking, setIsWorking] = useState(false)
+
+  // Archived categories are listed last, sub-categories under their parent
+  const visibleCategories = sortCategoriesByParent(
+    categories
+      .filter((category) => getCategoryKind(category) === kind)
+      .sort((a, b) => Number(a.archived ?? false) - Number(b.archived ?? false)),
+  )
+
+  const hasChildren = (id: string) => categories.some((category) => category.parentId === id)
+
+  // Sub-categories are one level deep, so only other top-level categories can be parents
+  const parentOptions = editingCategory
+    ? getCategoriesByKind(getCategoryKind(editingCategory)).filter(
+        (category) => !category.parentId && category.id !== editingCategory.id,
+      )
+    : []
+
+  const handleEdit = (category: Category) => {
+    setEditingCategory(category)
+    setName(category.name)
+    setColor(category.color)
+    setParentId(category.parentId ?? NO_PARENT)
+    setError("")
+  }
+
+  const handleSave = async () => {
+    if (!editingCategory) return
+
+    const trimmedName = name.trim()
+    if (!trimmedName) {
+      setError("Please enter a category name")
+      return
+    }
+
+    try {
+      // Checked against the stored records, as deleted categories keep their name
+      const nameError = await validateCategoryName(trimmedName, editingCategory.id)
+      if (nameError) {
+        setError(nameError)
+        return
+      }
+
+      await updateCategory({
+        ...editingCategory,
+        name: trimmedName,
+        color,
+        parentId: parentId === NO_PARENT ? undefined : parentId,
+      })
+      await reloadCategories()
+      setEditingCategory(null)
+      toast.success("Category updated")
+    } catch (error) {
+      console.error("Error updating category:", error)
+      toast.error("Failed to update category")
+    }
+  }
+
+  const handleToggleArchive = async (category: Category) => {
+    try {
+      await updateCategory({ ...category, archived: !category.archived })
+      await reloadCategories()
+      logUserActivity(category.archived ? "category_unarchived" : "category_archived")
+      toast.success(category.archived ? "Category restored" : "Category archived", {
+        description: category.archived
+          ? `${category.name} is available again`
+          : `${category.name} is hidden from new transactions, existing ones keep it`,
+      })
+    } catch (error) {
+      console.error("Error archiving category:", error)
+      toast.error("Failed to update category")
+    }
+  }
+
+  const handleReassign = async (category: Category, mode: ReassignMode) => {
+    setReassigning({ category, mode })
+    setTargetId("")
+    setUsage(null)
+
+    try {
+      setUsage(await getCategoryUsage(category.id))
+    } catch (error) {
+      console.error("Error loading category usage:", error)
+      toast.error("Failed to load category usage")
+      setReassigning(null)
+    }
+  }
+
+  // Categories the transactions can move to
+  const targetCategories = reassigning
+    ? getCategoriesByKind(getCategoryKind(reassigning.category)).filter((c) => c.id !== reassigning.category.id)
+    : []
+
+  // Deleting an unused category needs no target
+  const needsTarget =
+    reassigning?.mode === "merge" || (usage !== null && usage.transactions + usage.recurringRules > 0)
+
+  const handleConfirmReassign = async () => {
+    if (!reassigning || !usage) return
+
+    if (needsTarget && !targetId) {
+      toast.error("Please choose a category")
+      return
+    }
+
+    const { category, mode } = reassigning
+
+    try {
+      setIsWorking(true)
+
+      if (mode === "merge") {
+        await mergeCategory(category, targetId)
+      } else {
+        await deleteCategory(category, targetId || null)
+      }
+
+      await reloadCategories()
+      logUserActivity(mode === "merge" ? "category_merged" : "category_deleted")
+      if (usage.transactions > 0) onTransactionsChanged()
+      setReassigning(null)
+
+      toast.success(mode === "merge" ? "Categories merged" : "Category deleted")
+    } catch (error) {
+      console.error(`Error ${mode === "merge" ? "merging" : "deleting"} category:`, error)
+      toast.error(mode === "merge" ? "Failed to merge categories" : "Failed to delete category", {
+        description: "Nothing was changed",
+      })
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card className={`${currentTheme.card} rounded-[24px]`}>
+        <CardHeader className="flex flex-row items-center justify-between pb-2">
+          <CardTitle className={`text-lg font-semibold ${currentTheme.text.primary}`}>Categories</CardTitle>
+          <AddCategoryDialog
+            currentTheme={currentTheme}
+            kind={kind}
+            trigger={
+              <Button className={`rounded-full ${currentTheme.button} text-white`} size="sm">
+                <PlusCircle className="w-4 h-4 mr-1" />
+                Add Category
+              </Button>
+            }
+          />
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex gap-1 p-1 bg-gray-100 rounded-xl">
+            {(["expense", "income"] as CategoryKind[]).map((value) => (
+              <button
+                key={value}
+                type="button"
+                onClick={() => setKind(value)}
+                className={`flex-1 rounded-lg py-1.5 text-sm font-medium transition-colors ${
+                  kind === value ? "bg-white shadow-sm text-gray-900" : "text-gray-500 hover:text-gray-700"
+                }`}
+              >
+                {value === "expense" ? "Expenses" : "Income"}
+              </button>
+            ))}
+          </div>
+
+          <div className="space-y-2 max-h-[480px] overflow-y-auto pr-2">
+            {visibleCategories.map((category) => (
+              <div
+                key={category.id}
+                className={`flex items-center justify-between p-2 hover:bg-gray-50 rounded-lg ${
+                  category.archived ? "opacity-60" : ""
+                } ${category.parentId ? "ml-8" : ""}`}
+              >
+                <div className="flex items-center min-w-0">
+                  <div
+                    className="w-10 h-10 flex items-center justify-center rounded-full mr-3 shrink-0"
+                    style={{ backgroundColor: `${category.color}20` }}
+                  >
+                    <span className="text-lg">{category.icon || FALLBACK_ICON}</span>
+                  </div>
+                  <div className="min-w-0">
+                    <p className={`font-medium truncate ${currentTheme.text.secondary}`}>{category.name}</p>
+                    {category.archived && <p className="text-xs text-gray-400">Archived</p>}
+                  </div>
+                </div>
+                <div className="flex items-center shrink-0">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 w-8 p-0"
+                    onClick={() => handleEdit(category)}
+                    aria-label="Edit category"
+                  >
+                    <Edit className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 w-8 p-0"
+                    onClick={() => handleToggleArchive(category)}
+                    aria-label={category.archived ? "Restore category" : "Archive category"}
+                  >
+                    {category.archived ? <ArchiveRestore className="h-4 w-4" /> : <Archive className="h-4 w-4" />}
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 w-8 p-0"
+                    onClick={() => handleReassign(category, "merge")}
+                    aria-label="Merge into another category"
+                  >
+                    <Merge className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 w-8 p-0 text-red-500 hover:text-red-700"
+                    onClick={() => handleReassign(category, "delete")}
+                    aria-label="Delete category"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Rename / recolor dialog */}
+      <Dialog open={editingCategory !== null} onOpenChange={(open) => !open && setEditingCategory(null)}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>Edit Category</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Category Name</label>
+              <Input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                className={`${currentTheme.input.background} ${currentTheme.input.border}`}
+              />
+              {error && <p className="text-red-500 text-xs">{error}</p>}
+            </div>
+
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Part of</label>
+              <Select
+                value={parentId}
+                onValueChange={setParentId}
+                disabled={editingCategory !== null && hasChildren(editingCategory.id)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="max-h-[200px] overflow-y-auto">
+                  <SelectItem value={NO_PARENT}>Nothing (top-level category)</SelectItem>
+                  {parentOptions.map((category) => (
+                    <SelectItem key={category.id} value={category.id}>
+                      {category.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {editingCategory && hasChildren(editingCategory.id) && (
+                <p className="text-xs text-gray-500">Categories with sub-categories stay top-level</p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Category Color</label>
+              <div className="grid grid-cols-3 gap-2">
+                {COLOR_OPTIONS.map((option) => (
+                  <div
+                    key={option.value}
+                    className={`h-10 rounded-md cursor-pointer ${color === option.value ? "ring-2 ring-offset-2" : ""}`}
+                    style={{ backgroundColor: option.value }}
+                    onClick={() => setColor(option.value)}
+                    title={option.name}
+                  />
+                ))}
+              </div>
+            </div>
+
+            <div className="flex justify-end space-x-2 pt-4">
+              <Button variant="outline" onClick={() => setEditingCategory(null)}>
+                Cancel
+              </Button>
+              <Button onClick={handleSave} className={`${currentTheme.button} text-white`}>
+                Save
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* Merge / delete dialog */}
+      <Dialog open={reassigning !== null} onOpenChange={(open) => !open && setReassigning(null)}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>
+              {reassigning?.mode === "merge"
+                ? `Merge ${reassigning.category.name}`
+                : `Delete ${reassigning?.category.name ?? ""}`}
+            </DialogTitle>
+          </DialogHeader>
+          {reassigning && (
+            <div className="space-y-4 py-4">
+              {usage === null ? (
+                <p className="text-sm text-gray-500">Checking where this category is used…</p>
+              ) : (
+                <p className="text-sm text-gray-500">
+                  Used by {usage.transactions} transaction{usage.transactions === 1 ? "" : "s"},{" "}
+                  {usage.budgetGoals} budget goal{usage.budgetGoals === 1 ? "" : "s"}, {usage.recurringRules}{" "}
+                  recurring bill{usage.recurringRules === 1 ? "" : "s"} and {usage.categoryRules} rule
+                  {usage.categoryRules === 1 ? "" : "s"}.
+                </p>
+              )}
+
+              {needsTarget && (
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">
+                    {reassigning.mode === "merge" ? "Merge into" : "Move transactions to"}
+                  </label>
+                  <Select value={targetId} onValueChange={setTargetId}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Choose a category" />
+                    </SelectTrigger>
+                    <SelectContent className="max-h-[200px] overflow-y-auto">
+                      {targetCategories.map((category) => (
+                        <SelectItem key={category.id} value={category.id}>
+                          <div className="flex items-center">
+                            <div
+                              className="w-3 h-3 rounded-full mr-2"
+                              style={{ backgroundColor: category.color }}
+                            ></div>
+                            {getCategoryLabel(category.id)}
+                          </div>
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              <p className="text-xs text-gray-500">
+                {reassigning.mode === "merge"
+                  ? "Budget goals are added to the target's goal for the same period. This cannot be undone."
+                  : "Budget goals for this category are removed. This cannot be undone."}
+              </p>
+
+              <div className="flex justify-end space-x-2 pt-2">
+                <Button variant="outline" onClick={() => setReassigning(null)}>
+                  Cancel
+                </Button>
+                <Button
+                  onClick={handleConfirmReassign}
+                  disabled={isWorking || usage === null || (needsTarget && !targetId)}
+                  className={reassigning.mode === "delete" ? "bg-red-500 hover:bg-red-600 text-white" : ""}
+                >
+                  {reassigning.mode === "merge" ? "Merge" : "Delete"}
+                </Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
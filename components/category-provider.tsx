@@ -0,0 +1,71 @@
+"use client"
+
+import { createContext, useCallback, useContext, useEffect, useMemo, useState } from "react"
+import {
+  BUILT_IN_CATEGORIES,
+  getCategoryKind,
+  loadCategories,
+  resolveCategory,
+  sortCategoriesByParent,
+} from "@/utils/categories"
+import type { Category, CategoryKind } from "@/utils/models"
+
+interface CategoryContextValue {
+  categories: Category[]
+  // Name, color and icon for any category ID, including deleted and unknown ones
+  getCategory: (id: string) => Category
+  // Display name including the parent, e.g. "Food & Dining › Groceries"
+  getCategoryLabel: (id: string) => string
+  // Categories offered in pickers, sub-categories after their parent; archived ones are left out
+  getCategoriesByKind: (kind: CategoryKind) => Category[]
+  reloadCategories: () => Promise<void>
+}
+
+const CategoryContext = createContext<CategoryContextValue | null>(null)
+
+export function CategoryProvider({ children }: { children: React.ReactNode }) {
+  // Built-in categories are available straight away, custom ones are added once loaded
+  const [categories, setCategories] = useState<Category[]>(BUILT_IN_CATEGORIES)
+
+  const reloadCategories = useCallback(async () => {
+    try {
+      setCategories(await loadCategories())
+    } catch (error) {
+      console.error("Error loading categories:", error)
+    }
+  }, [])
+
+  useEffect(() => {
+    reloadCategories()
+  }, [reloadCategories])
+
+  const value = useMemo<CategoryContextValue>(
+    () => ({
+      categories,
+      getCategory: (id) => resolveCategory(categories, id),
+      getCategoryLabel: (id) => {
+        const category = resolveCategory(categories, id)
+        return category.parentId
+          ? `${resolveCategory(categories, category.parentId).name} › ${category.name}`
+          : category.name
+      },
+      getCategoriesByKind: (kind) =>
+        sortCategoriesByParent(
+          categories.filter((category) => !category.archived && getCategoryKind(category) === kind),
+        ),
+      reloadCategories,
+    }),
+    [categories, reloadCategories],
+  )
+
+  return <CategoryContext.Provider value={value}>{children}</CategoryContext.Provider>
+}
+
+// Access the shared category registry
+export function useCategories(): CategoryContextValue {
+  const context = useContext(CategoryContext)
+  if (!context) {
+    throw new Error("useCategories must be used within a CategoryProvider")
+  }
+  return context
+}
@@ -0,0 +1,544 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Switch } from "@/components/ui/switch"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Skeleton } from "@/components/ui/skeleton"
+import { toast } from "sonner"
+import { Edit, PlusCircle, Trash2, Wand2, X } from "lucide-react"
+import {
+  deleteCategoryRule,
+  getAllTags,
+  getCategoryRules,
+  getExpenses,
+  saveCategoryRule,
+  updateExpenses,
+} from "@/utils/db"
+import { type RuleChange, describeCondition, isValidPattern, previewRuleChanges } from "@/utils/rules-engine"
+import { formatDate } from "@/utils/date-utils"
+import { formatTag, formatTags, parseTags } from "@/utils/tags"
+import { logUserActivity } from "@/utils/vercel-analytics"
+import type { CategoryKind, CategoryRule, RuleCondition } from "@/utils/models"
+import { useCategories } from "./category-provider"
+import TagInput from "./tag-input"
+
+const NO_CATEGORY = "none"
+
+// Number of changes listed in the apply preview
+const PREVIEW_ROWS = 50
+
+const CONDITION_TYPES: Record<RuleCondition["type"], string> = {
+  contains: "Note contains",
+  regex: "Note matches pattern",
+  amount: "Amount between",
+}
+
+// A condition as edited in the form, with every value kept as typed
+interface ConditionDraft {
+  type: RuleCondition["type"]
+  text: string
+  min: string
+  max: string
+}
+
+const EMPTY_CONDITION: ConditionDraft = { type: "contains", text: "", min: "", max: "" }
+
+const toConditionDraft = (condition: RuleCondition): ConditionDraft => {
+  switch (condition.type) {
+    case "contains":
+      return { ...EMPTY_CONDITION, text: condition.text }
+    case "regex":
+      return { ...EMPTY_CONDITION, type: "regex", text: condition.pattern }
+    case "amount":
+      return {
+        ...EMPTY_CONDITION,
+        type: "amount",
+        min: condition.min?.toString() ?? "",
+        max: condition.max?.toString() ?? "",
+      }
+  }
+}
+
+// Turn a drafted condition into a stored one, or an error message if it is incomplete
+const toCondition = (draft: ConditionDraft): RuleCondition | string => {
+  switch (draft.type) {
+    case "contains":
+      return draft.text.trim() ? { type: "contains", text: draft.text.trim() } : "Enter the text a note should contain"
+    case "regex":
+      if (!draft.text.trim()) return "Enter a pattern"
+      return isValidPattern(draft.text.trim()) ? { type: "regex", pattern: draft.text.trim() } : "Invalid pattern"
+    case "amount": {
+      const min = draft.min ? Number.parseFloat(draft.min) : undefined
+      const max = draft.max ? Number.parseFloat(draft.max) : undefined
+
+      if ((min === undefined && max === undefined) || Number.isNaN(min) || Number.isNaN(max)) {
+        return "Enter a minimum or maximum amount"
+      }
+      if (min !== undefined && max !== undefined && min > max) {
+        return "Minimum amount must not be above the maximum"
+      }
+      return { type: "amount", min, max }
+    }
+  }
+}
+
+interface CategoryRulesProps {
+  currentTheme: any
+  onTransactionsChanged: () => void
+}
+
+export default function CategoryRules({ currentTheme, onTransactionsChanged }: CategoryRulesProps) {
+  const [rules, setRules] = useState<CategoryRule[]>([])
+  const [loading, setLoading] = useState<boolean>(true)
+  const [knownTags, setKnownTags] = useState<string[]>([])
+  const { getCategory, getCategoryLabel, getCategoriesByKind } = useCategories()
+
+  // Rule form state
+  const [isRuleDialogOpen, setIsRuleDialogOpen] = useState(false)
+  const [editingRule, setEditingRule] = useState<CategoryRule | null>(null)
+  const [name, setName] = useState("")
+  const [type, setType] = useState<CategoryKind>("expense")
+  const [conditions, setConditions] = useState<ConditionDraft[]>([EMPTY_CONDITION])
+  const [category, setCategory] = useState(NO_CATEGORY)
+  const [tags, setTags] = useState("")
+  const [ruleError, setRuleError] = useState("")
+
+  // Apply to past transactions
+  const [changes, setChanges] = useState<RuleChange[] | null>(null)
+  const [isApplying, setIsApplying] = useState(false)
+
+  useEffect(() => {
+    loadRules()
+    getAllTags().then(setKnownTags)
+  }, [])
+
+  const loadRules = async () => {
+    try {
+      setLoading(true)
+      setRules(await getCategoryRules())
+    } catch (error) {
+      console.error("Error loading categorization rules:", error)
+      toast.error("Failed to load rules")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const resetRuleForm = () => {
+    setEditingRule(null)
+    setName("")
+    setType("expense")
+    setConditions([EMPTY_CONDITION])
+    setCategory(NO_CATEGORY)
+    setTags("")
+    setRuleError("")
+  }
+
+  const handleEditRule = (rule: CategoryRule) => {
+    setEditingRule(rule)
+    setName(rule.name)
+    setType(rule.type)
+    setConditions(rule.conditions.map(toConditionDraft))
+    setCategory(rule.category ?? NO_CATEGORY)
+    setTags(formatTags(rule.tags))
+    setRuleError("")
+    setIsRuleDialogOpen(true)
+  }
+
+  const handleTypeChange = (value: CategoryKind) => {
+    setType(value)
+    setCategory(NO_CATEGORY)
+  }
+
+  const updateCondition = (index: number, changes: Partial<ConditionDraft>) => {
+    setConditions((prev) => prev.map((condition, i) => (i === index ? { ...condition, ...changes } : condition)))
+  }
+
+  const handleSaveRule = async () => {
+    const parsedConditions = conditions.map(toCondition)
+    const conditionError = parsedConditions.find((condition): condition is string => typeof condition === "string")
+    const ruleTags = parseTags(tags)
+
+    if (!name.trim()) {
+      setRuleError("Please enter a name")
+      return
+    }
+
+    if (conditionError) {
+      setRuleError(conditionError)
+      return
+    }
+
+    if (category === NO_CATEGORY && ruleTags.length === 0) {
+      setRuleError("Choose a category or tags to apply")
+      return
+    }
+
+    setRuleError("")
+
+    try {
+      const rule: CategoryRule = {
+        id: editingRule?.id ?? crypto.randomUUID(),
+        name: name.trim(),
+        type,
+        conditions: parsedConditions as RuleCondition[],
+        category: category === NO_CATEGORY ? undefined : category,
+        tags: ruleTags.length > 0 ? ruleTags : undefined,
+        enabled: editingRule?.enabled ?? true,
+        createdAt: editingRule?.createdAt ?? Date.now(),
+        updatedAt: Date.now(),
+      }
+
+      await saveCategoryRule(rule)
+      logUserActivity(editingRule ? "category_rule_updated" : "category_rule_created")
+
+      resetRuleForm()
+      setIsRuleDialogOpen(false)
+      await loadRules()
+
+      toast.success(editingRule ? "Rule updated" : "Rule created", {
+        description: "It applies to new and imported transactions",
+      })
+    } catch (error) {
+      console.error("Error saving categorization rule:", error)
+      toast.error("Failed to save rule")
+    }
+  }
+
+  const handleToggleRule = async (rule: CategoryRule, enabled: boolean) => {
+    try {
+      await saveCategoryRule({ ...rule, enabled })
+      setRules((prev) => prev.map((other) => (other.id === rule.id ? { ...rule, enabled } : other)))
+    } catch (error) {
+      console.error("Error updating categorization rule:", error)
+      toast.error("Failed to update rule")
+    }
+  }
+
+  const handleDeleteRule = async (rule: CategoryRule) => {
+    if (confirm(`Delete the rule ${rule.name}? Transactions it already categorized are kept as they are.`)) {
+      try {
+        await deleteCategoryRule(rule.id)
+        await loadRules()
+        toast.success("Rule deleted")
+      } catch (error) {
+        console.error("Error deleting categorization rule:", error)
+        toast.error("Failed to delete rule")
+      }
+    }
+  }
+
+  // Work out what the rules would change before anything is written
+  const handlePreviewApply = async () => {
+    try {
+      setChanges(previewRuleChanges(await getExpenses(), rules))
+    } catch (error) {
+      console.error("Error previewing rule changes:", error)
+      toast.error("Failed to check past transactions")
+    }
+  }
+
+  const handleConfirmApply = async () => {
+    if (!changes || changes.length === 0) return
+
+    try {
+      setIsApplying(true)
+      await updateExpenses(changes.map((change) => change.after))
+
+      logUserActivity("category_rules_applied")
+      onTransactionsChanged()
+      setChanges(null)
+
+      toast.success(`Updated ${changes.length} transaction${changes.length === 1 ? "" : "s"}`)
+    } catch (error) {
+      console.error("Error applying categorization rules:", error)
+      toast.error("Failed to apply rules", {
+        description: "No transactions were changed",
+      })
+    } finally {
+      setIsApplying(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <Card className="p-6 space-y-4">
+        <Skeleton className="h-8 w-48" />
+        <Skeleton className="h-6 w-full" />
+        <Skeleton className="h-6 w-full" />
+      </Card>
+    )
+  }
+
+  const visibleCategories = getCategoriesByKind(type)
+
+  return (
+    <div className="space-y-4">
+      <Card className={`${currentTheme.card} rounded-[24px]`}>
+        <CardHeader className="flex flex-row items-center justify-between pb-2">
+          <CardTitle className={`text-lg font-semibold ${currentTheme.text.primary}`}>Rules</CardTitle>
+          <div className="flex gap-2">
+            {rules.length > 0 && (
+              <Button variant="outline" size="sm" className="rounded-full" onClick={handlePreviewApply}>
+                <Wand2 className="w-4 h-4 mr-1" />
+                Apply to past
+              </Button>
+            )}
+            <Button
+              onClick={() => {
+                resetRuleForm()
+                setIsRuleDialogOpen(true)
+              }}
+              className={`rounded-full ${currentTheme.button} text-white`}
+              size="sm"
+            >
+              <PlusCircle className="w-4 h-4 mr-1" />
+              Add Rule
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {rules.length === 0 ? (
+            <div className="text-center py-12 text-gray-500">
+              <p>No rules yet</p>
+              <p className="text-sm mt-2">
+                File notes like &quot;Uber&quot; or &quot;Netflix&quot; under the right category automatically
+              </p>
+            </div>
+          ) : (
+            <div className="space-y-3 max-h-[400px] overflow-y-auto pr-2">
+              {rules.map((rule) => (
+                <div key={rule.id} className="flex items-center justify-between p-2 hover:bg-gray-50 rounded-lg">
+                  <div className={`min-w-0 ${rule.enabled ? "" : "opacity-50"}`}>
+                    <p className={`font-medium truncate ${currentTheme.text.secondary}`}>{rule.name}</p>
+                    <p className="text-xs text-gray-400">
+                      If {rule.conditions.map(describeCondition).join(" and ")}
+                    </p>
+                    <p className="text-xs text-gray-400">
+                      → {[rule.category && getCategoryLabel(rule.category), formatTags(rule.tags)]
+                        .filter(Boolean)
+                        .join(" ")}
+                    </p>
+                  </div>
+                  <div className="flex items-center shrink-0">
+                    <Switch
+                      checked={rule.enabled}
+                      onCheckedChange={(checked) => handleToggleRule(rule, checked)}
+                      aria-label={rule.enabled ? "Disable rule" : "Enable rule"}
+                      className="mr-2"
+                    />
+                    <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => handleEditRule(rule)}>
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-8 w-8 p-0 text-red-500 hover:text-red-700"
+                      onClick={() => handleDeleteRule(rule)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Add / edit rule dialog */}
+      <Dialog open={isRuleDialogOpen} onOpenChange={setIsRuleDialogOpen}>
+        <DialogContent className="sm:max-w-[480px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingRule ? "Edit Rule" : "Add Rule"}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="flex gap-1 p-1 bg-gray-100 rounded-xl">
+              {(["expense", "income"] as CategoryKind[]).map((value) => (
+                <button
+                  key={value}
+                  type="button"
+                  onClick={() => handleTypeChange(value)}
+                  className={`flex-1 rounded-lg py-1.5 text-sm font-medium transition-colors ${
+                    type === value ? "bg-white shadow-sm text-gray-900" : "text-gray-500 hover:text-gray-700"
+                  }`}
+                >
+                  {value === "expense" ? "Expenses" : "Income"}
+                </button>
+              ))}
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Name</label>
+              <Input type="text" placeholder="e.g. Rides" value={name} onChange={(e) => setName(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">When all of these match</label>
+              {conditions.map((condition, index) => (
+                <div key={index} className="flex gap-2 items-center">
+                  <Select
+                    value={condition.type}
+                    onValueChange={(value) => updateCondition(index, { type: value as RuleCondition["type"] })}
+                  >
+                    <SelectTrigger className="w-[170px] shrink-0">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(CONDITION_TYPES).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>
+                          {label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {condition.type === "amount" ? (
+                    <>
+                      <Input
+                        type="number"
+                        placeholder="Min"
+                        value={condition.min}
+                        onChange={(e) => updateCondition(index, { min: e.target.value })}
+                      />
+                      <Input
+                        type="number"
+                        placeholder="Max"
+                        value={condition.max}
+                        onChange={(e) => updateCondition(index, { max: e.target.value })}
+                      />
+                    </>
+                  ) : (
+                    <Input
+                      type="text"
+                      placeholder={condition.type === "regex" ? "e.g. ^(uber|bolt)" : "e.g. uber"}
+                      value={condition.text}
+                      onChange={(e) => updateCondition(index, { text: e.target.value })}
+                    />
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 w-8 p-0 shrink-0"
+                    onClick={() => setConditions((prev) => prev.filter((_, i) => i !== index))}
+                    disabled={conditions.length === 1}
+                    aria-label="Remove condition"
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setConditions((prev) => [...prev, EMPTY_CONDITION])}
+                className="rounded-xl"
+              >
+                <PlusCircle className="h-4 w-4 mr-1" />
+                Add condition
+              </Button>
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Set category</label>
+              <Select value={category} onValueChange={setCategory}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Category" />
+                </SelectTrigger>
+                <SelectContent className="max-h-[200px] overflow-y-auto">
+                  <SelectItem value={NO_CATEGORY}>Keep the category</SelectItem>
+                  {visibleCategories.map((cat) => (
+                    <SelectItem key={cat.id} value={cat.id}>
+                      <div className="flex items-center">
+                        <div className="w-3 h-3 rounded-full mr-2" style={{ backgroundColor: cat.color }}></div>
+                        {getCategoryLabel(cat.id)}
+                      </div>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Add tags</label>
+              <TagInput value={tags} onChange={setTags} suggestions={knownTags} currentTheme={currentTheme} />
+            </div>
+            {ruleError && <p className="text-red-500 text-sm">{ruleError}</p>}
+            <div className="flex justify-end space-x-2 pt-4">
+              <Button variant="outline" onClick={() => setIsRuleDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button onClick={handleSaveRule}>Save</Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* Preview of applying the rules to past transactions */}
+      <Dialog open={changes !== null} onOpenChange={(open) => !open && setChanges(null)}>
+        <DialogContent className="sm:max-w-[640px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Apply rules to past transactions</DialogTitle>
+          </DialogHeader>
+          {changes && (
+            <div className="space-y-4 py-4">
+              {changes.length === 0 ? (
+                <p className="text-sm text-gray-500">Every transaction already matches the rules.</p>
+              ) : (
+                <>
+                  <p className="text-sm text-gray-500">
+                    {changes.length} transaction{changes.length === 1 ? "" : "s"} will be updated
+                    {changes.length > PREVIEW_ROWS && `, the first ${PREVIEW_ROWS} are shown`}.
+                  </p>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Date</TableHead>
+                        <TableHead>Note</TableHead>
+                        <TableHead>Category</TableHead>
+                        <TableHead>Tags</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {changes.slice(0, PREVIEW_ROWS).map(({ before, after }) => {
+                        const addedTags = (after.tags ?? []).filter((tag) => !before.tags?.includes(tag))
+
+                        return (
+                          <TableRow key={before.id}>
+                            <TableCell className="whitespace-nowrap">{formatDate(before.timestamp)}</TableCell>
+                            <TableCell className="max-w-[160px] truncate">{before.note}</TableCell>
+                            <TableCell>
+                              {before.category === after.category ? (
+                                <span className="text-gray-400">{getCategory(before.category).name}</span>
+                              ) : (
+                                <>
+                                  <span className="text-gray-400 line-through mr-1">
+                                    {getCategory(before.category).name}
+                                  </span>
+                                  {getCategory(after.category).name}
+                                </>
+                              )}
+                            </TableCell>
+                            <TableCell>{addedTags.map(formatTag).join(" ")}</TableCell>
+                          </TableRow>
+                        )
+                      })}
+                    </TableBody>
+                  </Table>
+                </>
+              )}
+              <div className="flex justify-end space-x-2 pt-4">
+                <Button variant="outline" onClick={() => setChanges(null)}>
+                  Cancel
+                </Button>
+                <Button onClick={handleConfirmApply} disabled={isApplying || changes.length === 0}>
+                  Apply
+                </Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -5,37 +5,26 @@ import { Card } from "@/components/ui/card"
 import { getExpenses } from "@/utils/db"
 import { formatCurrency } from "@/utils/format-utils"
 import { getStartOfMonth, getEndOfMonth } from "@/utils/date-utils"
+import { isSpending } from "@/utils/cash-flow"
+import { type CategoryAmount, rollUpCategoryTotals } from "@/utils/categories"
+import { sumByCategory } from "@/utils/splits"
 import { Skeleton } from "@/components/ui/skeleton"
 import { toast } from "react-hot-toast"
+import { ChevronDown, ChevronRight } from "lucide-react"
+import { useCategories } from "./category-provider"
 
 interface CategorySummaryProps {
   currentTheme: any
   currentCurrency: string
 }
 
-interface CategoryData {
-  id: string
-  name: string
-  amount: number
-  percentage: number
-  color: string
-}
-
 export default function CategorySummary({ currentTheme, currentCurrency }: CategorySummaryProps) {
-  const [categories, setCategories] = useState<CategoryData[]>([])
+  const [categoryAmounts, setCategoryAmounts] = useState<CategoryAmount[]>([])
+  const [expandedId, setExpandedId] = useState<string | null>(null)
   const [loading, setLoading] = useState<boolean>(true)
   const [totalSpent, setTotalSpent] = useState<number>(0)
 
-  // Category definitions
-  const categoryDefinitions = [
-    { id: "food", name: "Food & Dining", color: "#4ade80" },
-    { id: "transport", name: "Transportation", color: "#60a5fa" },
-    { id: "shopping", name: "Shopping", color: "#f472b6" },
-    { id: "entertainment", name: "Entertainment", color: "#a78bfa" },
-    { id: "utilities", name: "Bills & Utilities", color: "#fbbf24" },
-    { id: "health", name: "Health", color: "#34d399" },
-    { id: "other", name: "Other", color: "#94a3b8" },
-  ]
+  const { categories, getCategory } = useCategories()
 
   useEffect(() => {
     async function fetchData() {
@@ -47,59 +36,20 @@ export default function CategorySummary({ currentTheme, currentCurrency }: Categ
         const monthStart = getStartOfMonth()
         const monthEnd = getEndOfMonth()
 
-        // Filter expenses for current month
+        // Filter spending for current month (income isn't part of the breakdown)
         const currentMonthExpenses = expenses.filter(
-          (expense) => expense.timestamp >= monthStart && expense.timestamp <= monthEnd,
+          (expense) => isSpending(expense) && expense.timestamp >= monthStart && expense.timestamp <= monthEnd,
         )
 
         // Calculate total spent
         const total = currentMonthExpenses.reduce((sum, expense) => sum + expense.amount, 0)
         setTotalSpent(total)
 
-        // Group by category
-        const categoryMap = new Map()
-
-        // Initialize with all categories
-        categoryDefinitions.forEach((category) => {
-          categoryMap.set(category.id, { ...category, amount: 0, percentage: 0 })
-        })
-
-        // Add expense amounts to corresponding categories
-        currentMonthExpenses.forEach((expense) => {
-          if (categoryMap.has(expense.category)) {
-            const existing = categoryMap.get(expense.category)
-            categoryMap.set(expense.category, {
-              ...existing,
-              amount: existing.amount + expense.amount,
-            })
-          } else {
-            // Handle any categories not in our predefined list
-            categoryMap.set(expense.category, {
-              id: expense.category,
-              name: expense.category,
-              amount: expense.amount,
-              percentage: 0,
-              color: "#94a3b8", // Default to gray
-            })
-          }
-        })
-
-        // Calculate percentages
-        if (total > 0) {
-          categoryMap.forEach((category, id) => {
-            categoryMap.set(id, {
-              ...category,
-              percentage: (category.amount / total) * 100,
-            })
-          })
-        }
-
-        // Convert map to array and sort by amount
-        const sortedCategories = Array.from(categoryMap.values())
-          .filter((category) => category.amount > 0)
-          .sort((a, b) => b.amount - a.amount)
-
-        setCategories(sortedCategories)
+        // Group by category, counting each split under its own category
+        // (names and colors come from the category registry when rendering)
+        const categoryMap = sumByCategory(currentMonthExpenses)
+
+        setCategoryAmounts(Array.from(categoryMap.entries()).map(([id, amount]) => ({ id, amount })))
       } catch (error) {
         console.error("Error fetching category data:", error)
       } finally {
@@ -117,6 +67,21 @@ export default function CategorySummary({ currentTheme, currentCurrency }: Categ
     return "bg-red-500"
   }
 
+  // Attach names, colors and percentages to an amount
+  const toRow = ({ id, amount }: CategoryAmount) => {
+    const { name, color } = getCategory(id)
+    return { id, amount, name, color, percentage: totalSpent > 0 ? (amount / totalSpent) * 100 : 0 }
+  }
+
+  // Sub-category amounts roll up into their parent, which can be expanded to see them
+  const categoryRows = rollUpCategoryTotals(
+    categories,
+    categoryAmounts.filter((category) => category.amount > 0),
+  ).map((rollUp) => ({
+    ...toRow(rollUp),
+    children: rollUp.children.some((child) => child.id !== rollUp.id) ? rollUp.children.map(toRow) : [],
+  }))
+
   if (loading) {
     return (
       <Card className="p-6 space-y-4">
@@ -142,39 +107,69 @@ export default function CategorySummary({ currentTheme, currentCurrency }: Categ
         </div>
       </div>
 
-      {categories.length > 0 ? (
+      {categoryRows.length > 0 ? (
         <div className="space-y-4">
-          {categories.map((category) => (
-            <div
-              key={category.id}
-              className="space-y-1 cursor-pointer hover:bg-gray-50 p-2 rounded-md transition-colors"
-              onClick={() => {
-                toast(`${category.name}: ${formatCurrency(category.amount, 2, currentCurrency).value}`, {
-                  description: `${category.percentage.toFixed(1)}% of your total spending`,
-                  position: "bottom-center",
-                  icon: <span className="text-xl">🫰🏾</span>,
-                })
-              }}
-            >
-              <div className="flex justify-between items-center">
-                <div className="flex items-center">
-                  <div className="w-3 h-3 rounded-full mr-2" style={{ backgroundColor: category.color }}></div>
-                  <span className="text-sm font-medium">{category.name}</span>
+          {categoryRows.map((category) => (
+            <div key={category.id}>
+              <div
+                className="space-y-1 cursor-pointer hover:bg-gray-50 p-2 rounded-md transition-colors"
+                onClick={() => {
+                  // Categories with sub-categories expand instead
+                  if (category.children.length > 0) {
+                    setExpandedId(expandedId === category.id ? null : category.id)
+                    return
+                  }
+
+                  toast(`${category.name}: ${formatCurrency(category.amount, 2, currentCurrency).value}`, {
+                    description: `${category.percentage.toFixed(1)}% of your total spending`,
+                    position: "bottom-center",
+                    icon: <span className="text-xl">🫰🏾</span>,
+                  })
+                }}
+              >
+                <div className="flex justify-between items-center">
+                  <div className="flex items-center">
+                    <div className="w-3 h-3 rounded-full mr-2" style={{ backgroundColor: category.color }}></div>
+                    <span className="text-sm font-medium">{category.name}</span>
+                    {category.children.length > 0 &&
+                      (expandedId === category.id ? (
+                        <ChevronDown className="h-4 w-4 ml-1 text-gray-400" />
+                      ) : (
+                        <ChevronRight className="h-4 w-4 ml-1 text-gray-400" />
+                      ))}
+                  </div>
+                  <div className="text-sm">
+                    {formatCurrency(category.amount, 2, currentCurrency).value}
+                    {formatCurrency(category.amount, 2, currentCurrency).suffix && (
+                      <span className="text-xs ml-1">{formatCurrency(category.amount, 2, currentCurrency).suffix}</span>
+                    )}
+                  </div>
                 </div>
-                <div className="text-sm">
-                  {formatCurrency(category.amount, 2, currentCurrency).value}
-                  {formatCurrency(category.amount, 2, currentCurrency).suffix && (
-                    <span className="text-xs ml-1">{formatCurrency(category.amount, 2, currentCurrency).suffix}</span>
-                  )}
+                <div className="w-full bg-gray-200 rounded-full h-2">
+                  <div
+                    className={`${getProgressColor(category.percentage)} h-2 rounded-full`}
+                    style={{ width: `${category.percentage}%` }}
+                  ></div>
                 </div>
+                <div className="text-xs text-gray-500 text-right">{category.percentage.toFixed(1)}%</div>
               </div>
-              <div className="w-full bg-gray-200 rounded-full h-2">
-                <div
-                  className={`${getProgressColor(category.percentage)} h-2 rounded-full`}
-                  style={{ width: `${category.percentage}%` }}
-                ></div>
-              </div>
-              <div className="text-xs text-gray-500 text-right">{category.percentage.toFixed(1)}%</div>
+
+              {expandedId === category.id && (
+                <div className="ml-5 pl-3 border-l space-y-2 py-1">
+                  {category.children.map((child) => (
+                    <div key={child.id} className="flex justify-between items-center text-sm px-2">
+                      <div className="flex items-center">
+                        <div className="w-2 h-2 rounded-full mr-2" style={{ backgroundColor: child.color }}></div>
+                        <span>{child.name}</span>
+                      </div>
+                      <span className="text-gray-600">
+                        {formatCurrency(child.amount, 2, currentCurrency).value}
+                        <span className="text-xs text-gray-400 ml-2">{child.percentage.toFixed(1)}%</span>
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
             </div>
           ))}
         </div>
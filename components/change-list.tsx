@@ -0,0 +1,107 @@
+"use client"
+
+import { formatDate, formatTime } from "@/utils/date-utils"
+import { formatCurrency } from "@/utils/format-utils"
+import { formatTags } from "@/utils/tags"
+import type { Account, ChangeLogEntry, ExpenseSplit } from "@/utils/models"
+import { ACTION_LABELS, FIELD_LABELS, STORE_LABELS, getFieldChanges, getSnapshot } from "@/utils/change-log"
+import { useCategories } from "./category-provider"
+
+interface ChangeListProps {
+  changes: ChangeLogEntry[]
+  accounts: Account[]
+  currentCurrency: string
+  showRecord?: boolean // Say which record each change was made to, for changes across many records
+}
+
+const ACTION_COLORS: Record<ChangeLogEntry["action"], string> = {
+  create: "bg-green-500",
+  update: "bg-blue-500",
+  delete: "bg-red-500",
+  restore: "bg-amber-500",
+}
+
+// Changes from the change log, with the fields each edit touched
+export default function ChangeList({ changes, accounts, currentCurrency, showRecord = false }: ChangeListProps) {
+  const { getCategoryLabel } = useCategories()
+
+  const formatAmount = (amount: number) => formatCurrency(amount, 2, currentCurrency).value
+
+  // Show a stored value the way the rest of the app does
+  const formatValue = (field: string, value: unknown): string => {
+    if (value === undefined || value === null || value === "") return "none"
+
+    switch (field) {
+      case "amount":
+        return formatAmount(Number(value))
+      case "category":
+      case "parentId":
+        return getCategoryLabel(String(value))
+      case "timestamp":
+        return `${formatDate(Number(value))} ${formatTime(Number(value))}`
+      case "tags":
+        return Array.isArray(value) && value.length > 0 ? formatTags(value) : "none"
+      case "splits":
+        return Array.isArray(value)
+          ? (value as ExpenseSplit[]).map((split) => `${getCategoryLabel(split.category)} ${formatAmount(split.amount)}`).join(", ")
+          : "none"
+      case "accountId":
+      case "toAccountId":
+        return accounts.find((account) => account.id === value)?.name ?? "deleted account"
+      case "archived":
+      case "deleted":
+        return value ? "yes" : "no"
+      default:
+        return String(value)
+    }
+  }
+
+  // Which record a change was made to, from its latest snapshot
+  const describeRecord = (change: ChangeLogEntry): string => {
+    const record = getSnapshot(change)
+
+    if (change.store === "categories") {
+      return `${STORE_LABELS.categories} ${String(record.name ?? change.recordId)}`
+    }
+
+    if (change.store === "budgetGoals") {
+      return `${STORE_LABELS.budgetGoals} · ${getCategoryLabel(String(record.category))} (${String(record.period)})`
+    }
+
+    return [getCategoryLabel(String(record.category)), formatAmount(Number(record.amount)), record.note]
+      .filter(Boolean)
+      .join(" · ")
+  }
+
+  return (
+    <ol className="space-y-3">
+      {changes.map((change) => {
+        const fieldChanges = getFieldChanges(change)
+
+        return (
+          <li key={change.id} className="flex gap-3">
+            <div className={`w-2 h-2 rounded-full mt-1.5 shrink-0 ${ACTION_COLORS[change.action]}`} />
+            <div className="min-w-0 text-sm">
+              <p>
+                <span className="font-medium">{ACTION_LABELS[change.action]}</span>
+                {showRecord && <span className="text-gray-600"> {describeRecord(change)}</span>}
+              </p>
+              {fieldChanges.length > 0 && (
+                <ul className="text-xs text-gray-500">
+                  {fieldChanges.map(({ field, before, after }) => (
+                    <li key={field}>
+                      {FIELD_LABELS[field] ?? field}: {formatValue(field, before)} → {formatValue(field, after)}
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <p className="text-xs text-gray-400">
+                {formatDate(change.timestamp)} {formatTime(change.timestamp)}
+              </p>
+            </div>
+          </li>
+        )
+      })}
+    </ol>
+  )
+}
@@ -0,0 +1,101 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Card } from "@/components/ui/card"
+import { Skeleton } from "@/components/ui/skeleton"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { getExpenses } from "@/utils/db"
+import { type ClassifierStats as Stats, evaluateClassifier } from "@/utils/category-classifier"
+import { useCategories } from "./category-provider"
+
+interface ClassifierStatsProps {
+  currentTheme: any
+}
+
+const percentage = (count: number, total: number): string => (total > 0 ? `${Math.round((count / total) * 100)}%` : "–")
+
+// How well category suggestions would have predicted past transactions
+export default function ClassifierStats({ currentTheme }: ClassifierStatsProps) {
+  const [stats, setStats] = useState<Stats | null>(null)
+  const [loading, setLoading] = useState<boolean>(true)
+  const { getCategoryLabel } = useCategories()
+
+  useEffect(() => {
+    async function fetchData() {
+      try {
+        setLoading(true)
+        setStats(evaluateClassifier(await getExpenses()))
+      } catch (error) {
+        console.error("Error evaluating category suggestions:", error)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchData()
+  }, [])
+
+  if (loading) {
+    return (
+      <Card className="p-6 space-y-4">
+        <Skeleton className="h-8 w-48" />
+        <Skeleton className="h-6 w-full" />
+        <Skeleton className="h-6 w-full" />
+      </Card>
+    )
+  }
+
+  return (
+    <Card className="p-4 md:p-6 lg:p-8 w-full">
+      <h2 className={`text-xl font-bold mb-2 ${currentTheme.text.primary}`}>Category Suggestions</h2>
+      <p className="text-sm text-gray-500 mb-6">
+        Each transaction is predicted from the ones recorded before it, on this device only.
+      </p>
+
+      {stats && stats.evaluated > 0 ? (
+        <div className="space-y-6">
+          <div className="grid grid-cols-3 gap-4 text-center">
+            <div>
+              <p className="text-2xl font-bold">{percentage(stats.correct, stats.evaluated)}</p>
+              <p className="text-xs text-gray-500">First suggestion right</p>
+            </div>
+            <div>
+              <p className="text-2xl font-bold">{percentage(stats.topThreeCorrect, stats.evaluated)}</p>
+              <p className="text-xs text-gray-500">In the top three</p>
+            </div>
+            <div>
+              <p className="text-2xl font-bold text-gray-400">{percentage(stats.baselineCorrect, stats.evaluated)}</p>
+              <p className="text-xs text-gray-500">Most used category</p>
+            </div>
+          </div>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Category</TableHead>
+                <TableHead className="text-right">Transactions</TableHead>
+                <TableHead className="text-right">Accuracy</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {stats.byCategory.map(({ category, count, correct }) => (
+                <TableRow key={category}>
+                  <TableCell>{getCategoryLabel(category)}</TableCell>
+                  <TableCell className="text-right">{count}</TableCell>
+                  <TableCell className="text-right">{percentage(correct, count)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+
+          <p className="text-xs text-gray-400">Based on {stats.evaluated} transactions.</p>
+        </div>
+      ) : (
+        <div className="text-center py-12 text-gray-500">
+          <p>Not enough history yet</p>
+          <p className="text-sm mt-2">Suggestions improve as you add transactions with notes</p>
+        </div>
+      )}
+    </Card>
+  )
+}
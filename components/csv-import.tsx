@@ -0,0 +1,271 @@
+"use client"
+
+import { useMemo, useRef, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Switch } from "@/components/ui/switch"
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { toast } from "sonner"
+import { FileUp, Upload } from "lucide-react"
+import { getCategoryRules, getExpenses, importExpenses } from "@/utils/db"
+import {
+  type ColumnMapping,
+  type DateFormat,
+  type ImportField,
+  type ImportRow,
+  type ParsedCSV,
+  buildImportRows,
+  guessColumnMapping,
+  parseCSV,
+} from "@/utils/import-utils"
+import { formatDate } from "@/utils/date-utils"
+import { logUserActivity } from "@/utils/vercel-analytics"
+import type { CategoryRule, Expense } from "@/utils/models"
+import { useCategories } from "./category-provider"
+
+const NO_COLUMN = "none"
+
+// Number of rows shown in the preview table
+const PREVIEW_ROWS = 50
+
+const FIELDS: { field: ImportField; label: string }[] = [
+  { field: "date", label: "Date" },
+  { field: "time", label: "Time" },
+  { field: "amount", label: "Amount" },
+  { field: "type", label: "Type" },
+  { field: "category", label: "Category" },
+  { field: "note", label: "Note" },
+  { field: "tags", label: "Tags" },
+]
+
+interface CSVImportProps {
+  currentTheme: any
+  onDataImported: () => void
+}
+
+export default function CSVImport({ currentTheme, onDataImported }: CSVImportProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const { categories, getCategory } = useCategories()
+  const [fileName, setFileName] = useState("")
+  const [parsed, setParsed] = useState<ParsedCSV | null>(null)
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null)
+  const [dateFormat, setDateFormat] = useState<DateFormat>("dmy")
+  const [positiveIsIncome, setPositiveIsIncome] = useState(false)
+  const [skipDuplicates, setSkipDuplicates] = useState(true)
+  const [existingExpenses, setExistingExpenses] = useState<Expense[]>([])
+  const [rules, setRules] = useState<CategoryRule[]>([])
+  const [isImporting, setIsImporting] = useState(false)
+
+  const handleFileSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = "" // Allow picking the same file again
+    if (!file) return
+
+    try {
+      // The file is read and parsed locally, nothing is uploaded
+      const text = await file.text()
+      const result = parseCSV(text)
+
+      if (result.rows.length === 0) {
+        toast.error("No rows found in this file")
+        return
+      }
+
+      const [savedExpenses, savedRules] = await Promise.all([getExpenses(), getCategoryRules()])
+      setExistingExpenses(savedExpenses)
+      setRules(savedRules)
+      setFileName(file.name)
+      setParsed(result)
+      setMapping(guessColumnMapping(result.headers))
+    } catch (error) {
+      console.error("Error reading CSV file:", error)
+      toast.error("Failed to read CSV file")
+    }
+  }
+
+  const closeDialog = () => {
+    setParsed(null)
+    setMapping(null)
+  }
+
+  // Re-validate every row whenever the mapping or options change
+  const rows: ImportRow[] = useMemo(
+    () =>
+      parsed && mapping
+        ? buildImportRows(parsed, mapping, { dateFormat, positiveIsIncome }, categories, existingExpenses, rules)
+        : [],
+    [parsed, mapping, dateFormat, positiveIsIncome, categories, existingExpenses, rules],
+  )
+  const validRows = rows.filter((row) => row.expense !== null)
+  const errorCount = rows.length - validRows.length
+  const duplicateCount = validRows.filter((row) => row.duplicate).length
+  const rowsToImport = validRows.filter((row) => !(skipDuplicates && row.duplicate))
+
+  const handleImport = async () => {
+    if (rowsToImport.length === 0) return
+
+    try {
+      setIsImporting(true)
+      await importExpenses(rowsToImport.map((row) => row.expense as Expense))
+
+      logUserActivity("csv_imported")
+      onDataImported()
+      closeDialog()
+
+      toast.success(`Imported ${rowsToImport.length} transaction${rowsToImport.length === 1 ? "" : "s"}`)
+    } catch (error) {
+      console.error("Error importing CSV:", error)
+      toast.error("Failed to import CSV", {
+        description: "Nothing was imported",
+      })
+    } finally {
+      setIsImporting(false)
+    }
+  }
+
+  return (
+    <div className="p-4 border rounded-lg flex flex-col items-center text-center">
+      <FileUp className="h-12 w-12 mb-2 text-amber-600" />
+      <h3 className="font-medium mb-1">CSV Import</h3>
+      <p className="text-sm text-gray-500 mb-4">
+        Import transactions from a bank export or another app. Files are read on this device only.
+      </p>
+      <input ref={fileInputRef} type="file" accept=".csv,text/csv" className="hidden" onChange={handleFileSelected} />
+      <Button onClick={() => fileInputRef.current?.click()} className={`${currentTheme.button} text-white w-full`}>
+        <Upload className="h-4 w-4 mr-2" />
+        Import CSV
+      </Button>
+
+      <Dialog open={parsed !== null} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent className="sm:max-w-[720px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Import {fileName}</DialogTitle>
+          </DialogHeader>
+
+          {parsed && mapping && (
+            <div className="space-y-4 text-left">
+              <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+                {FIELDS.map(({ field, label }) => (
+                  <div key={field} className="space-y-1">
+                    <label className="text-sm font-medium">{label}</label>
+                    <Select
+                      value={mapping[field] === null ? NO_COLUMN : String(mapping[field])}
+                      onValueChange={(value) =>
+                        setMapping({ ...mapping, [field]: value === NO_COLUMN ? null : Number(value) })
+                      }
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NO_COLUMN}>Not in file</SelectItem>
+                        {parsed.headers.map((header, index) => (
+                          <SelectItem key={index} value={String(index)}>
+                            {header || `Column ${index + 1}`}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 items-center">
+                <div className="space-y-1">
+                  <label className="text-sm font-medium">Date format</label>
+                  <Select value={dateFormat} onValueChange={(value) => setDateFormat(value as DateFormat)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="dmy">Day/Month/Year</SelectItem>
+                      <SelectItem value="mdy">Month/Day/Year</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <label className="flex items-center gap-2 text-sm">
+                  <Switch checked={positiveIsIncome} onCheckedChange={setPositiveIsIncome} />
+                  Positive amounts are income
+                </label>
+                <label className="flex items-center gap-2 text-sm">
+                  <Switch checked={skipDuplicates} onCheckedChange={setSkipDuplicates} />
+                  Skip duplicates
+                </label>
+              </div>
+
+              <div className="flex flex-wrap gap-3 text-sm">
+                <span className="text-green-600">{validRows.length} valid</span>
+                {errorCount > 0 && <span className="text-red-500">{errorCount} with errors (skipped)</span>}
+                {duplicateCount > 0 && (
+                  <span className="text-amber-600">{duplicateCount} already recorded</span>
+                )}
+              </div>
+
+              <div className="border rounded-lg max-h-[320px] overflow-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Line</TableHead>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Category</TableHead>
+                      <TableHead className="text-right">Amount</TableHead>
+                      <TableHead>Note</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {rows.slice(0, PREVIEW_ROWS).map((row) => (
+                      <TableRow
+                        key={row.line}
+                        className={row.expense ? (row.duplicate ? "bg-amber-50" : "") : "bg-red-50"}
+                      >
+                        <TableCell className="text-gray-400">{row.line}</TableCell>
+                        {row.expense ? (
+                          <>
+                            <TableCell>{formatDate(row.expense.timestamp)}</TableCell>
+                            <TableCell>{getCategory(row.expense.category).name}</TableCell>
+                            <TableCell
+                              className={`text-right ${row.expense.type === "income" ? "text-green-600" : ""}`}
+                            >
+                              {row.expense.type === "income" ? "+" : ""}
+                              {row.expense.amount.toFixed(2)}
+                            </TableCell>
+                            <TableCell className="max-w-[180px]">
+                              <p className="truncate">{row.expense.note}</p>
+                              {row.duplicate && <p className="text-xs text-amber-600">Possible duplicate</p>}
+                              {row.warnings.map((warning) => (
+                                <p key={warning} className="text-xs text-amber-600">
+                                  {warning}
+                                </p>
+                              ))}
+                            </TableCell>
+                          </>
+                        ) : (
+                          <TableCell colSpan={4} className="text-red-500 text-sm">
+                            {row.errors.join(", ")}
+                          </TableCell>
+                        )}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+              {rows.length > PREVIEW_ROWS && (
+                <p className="text-xs text-gray-500">Showing the first {PREVIEW_ROWS} of {rows.length} rows</p>
+              )}
+
+              <div className="flex justify-end space-x-2 pt-2">
+                <Button variant="outline" onClick={closeDialog}>
+                  Cancel
+                </Button>
+                <Button onClick={handleImport} disabled={isImporting || rowsToImport.length === 0}>
+                  Import {rowsToImport.length}
+                </Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -4,9 +4,11 @@ import { useState } from "react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { toast } from "sonner"
-import { FileText, FileSpreadsheet, Download } from "lucide-react"
+import { FileText, FileSpreadsheet, Download, Tags } from "lucide-react"
 import { getExpenses } from "@/utils/db"
-import { formatExpensesAsCSV, downloadCSV, generateExpensesPDF } from "@/utils/export-utils"
+import { formatExpensesAsCSV, formatTagReportAsCSV, downloadCSV, generateExpensesPDF } from "@/utils/export-utils"
+import CSVImport from "./csv-import"
+import BackupRestore from "./backup-restore"
 
 interface DataExportProps {
   currentTheme: any
@@ -14,7 +16,9 @@ interface DataExportProps {
   dailyTotal: number
   weeklyTotal: number
   monthlyTotal: number
+  incomeTotals: { daily: number; weekly: number; monthly: number }
   categoryData: any[]
+  onDataImported: () => void
 }
 
 export default function DataExport({
@@ -23,7 +27,9 @@ export default function DataExport({
   dailyTotal,
   weeklyTotal,
   monthlyTotal,
+  incomeTotals,
   categoryData,
+  onDataImported,
 }: DataExportProps) {
   const [isExporting, setIsExporting] = useState<boolean>(false)
 
@@ -42,11 +48,35 @@ export default function DataExport({
     }
   }
 
+  const handleExportTagReport = async () => {
+    try {
+      setIsExporting(true)
+      const expenses = await getExpenses()
+      const csv = formatTagReportAsCSV(expenses, currentCurrency)
+      downloadCSV(csv, "spenders-tags.csv")
+      toast.success("Tag report exported successfully")
+    } catch (error) {
+      console.error("Error exporting tag report:", error)
+      toast.error("Failed to export tag report")
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
   const handleExportPDF = async () => {
     try {
       setIsExporting(true)
       const expenses = await getExpenses()
-      generateExpensesPDF(expenses, currentCurrency, dailyTotal, weeklyTotal, monthlyTotal, categoryData, currentTheme)
+      generateExpensesPDF(
+        expenses,
+        currentCurrency,
+        dailyTotal,
+        weeklyTotal,
+        monthlyTotal,
+        incomeTotals,
+        categoryData,
+        currentTheme,
+      )
       toast.success("PDF exported successfully")
     } catch (error) {
       console.error("Error exporting PDF:", error)
@@ -59,7 +89,7 @@ export default function DataExport({
   return (
     <Card className={`${currentTheme.card} rounded-[24px]`}>
       <CardHeader className="pb-2">
-        <CardTitle className={`text-lg font-semibold ${currentTheme.text.primary}`}>Export Data</CardTitle>
+        <CardTitle className={`text-lg font-semibold ${currentTheme.text.primary}`}>Import & Export</CardTitle>
       </CardHeader>
       <CardContent>
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -77,6 +107,10 @@ export default function DataExport({
               <Download className="h-4 w-4 mr-2" />
               Export CSV
             </Button>
+            <Button variant="outline" onClick={handleExportTagReport} disabled={isExporting} className="w-full mt-2">
+              <Tags className="h-4 w-4 mr-2" />
+              Tag Report CSV
+            </Button>
           </div>
           <div className="p-4 border rounded-lg flex flex-col items-center text-center">
             <FileText className="h-12 w-12 mb-2 text-blue-600" />
@@ -93,6 +127,8 @@ export default function DataExport({
               Export PDF
             </Button>
           </div>
+          <CSVImport currentTheme={currentTheme} onDataImported={onDataImported} />
+          <BackupRestore currentTheme={currentTheme} />
         </div>
       </CardContent>
     </Card>
@@ -0,0 +1,155 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { toast } from "sonner"
+import { getAccounts, getSetting, mergeExpenses, restoreTrashEntry, saveSetting, updateExpense } from "@/utils/db"
+import { formatDate, formatTime } from "@/utils/date-utils"
+import { formatCurrency } from "@/utils/format-utils"
+import { formatTags } from "@/utils/tags"
+import { toastWithUndo } from "@/utils/undo"
+import {
+  DISMISSED_DUPLICATES_SETTING,
+  type DuplicateGroup,
+  findDuplicateGroups,
+  getGroupPairKeys,
+  mergeDuplicates,
+  parseDismissedPairs,
+} from "@/utils/duplicate-detector"
+import type { Account, Expense } from "@/utils/models"
+import { useCategories } from "./category-provider"
+
+interface DuplicateReviewProps {
+  currentTheme: any
+  currentCurrency: string
+  expenses: Expense[]
+  onTransactionsChanged: () => void
+}
+
+// Suspected duplicate transactions, grouped, to merge into one or mark as separate
+export default function DuplicateReview({
+  currentTheme,
+  currentCurrency,
+  expenses,
+  onTransactionsChanged,
+}: DuplicateReviewProps) {
+  const [dismissed, setDismissed] = useState<Set<string>>(new Set())
+  const [accounts, setAccounts] = useState<Account[]>([])
+  const [keptIds, setKeptIds] = useState<Record<string, string>>({}) // Transaction to keep per group, by group id
+  const [isWorking, setIsWorking] = useState(false)
+  const { getCategoryLabel } = useCategories()
+
+  useEffect(() => {
+    getSetting<unknown>(DISMISSED_DUPLICATES_SETTING, []).then((value) => setDismissed(parseDismissedPairs(value)))
+    getAccounts().then(setAccounts)
+  }, [])
+
+  const groups = useMemo(() => findDuplicateGroups(expenses, dismissed), [expenses, dismissed])
+
+  // The first transaction recorded is kept unless another is picked
+  const getKeptId = (group: DuplicateGroup): string => keptIds[group.id] ?? group.expenses[0].id
+
+  const handleMerge = async (group: DuplicateGroup) => {
+    const kept = group.expenses.find((expense) => expense.id === getKeptId(group))!
+    const removed = group.expenses.filter((expense) => expense.id !== kept.id)
+
+    try {
+      setIsWorking(true)
+      const trashId = await mergeExpenses(mergeDuplicates(kept, removed), removed.map((expense) => expense.id))
+
+      toastWithUndo(`Merged ${group.expenses.length} transactions`, async () => {
+        await updateExpense(kept)
+        if (trashId) await restoreTrashEntry(trashId)
+        onTransactionsChanged()
+      })
+      onTransactionsChanged()
+    } catch (error) {
+      console.error("Error merging duplicates:", error)
+      toast.error("Failed to merge transactions")
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  // Remember that these transactions are separate, so they aren't flagged again
+  const handleKeepAll = async (group: DuplicateGroup) => {
+    const next = new Set([...Array.from(dismissed), ...getGroupPairKeys(group)])
+
+    try {
+      await saveSetting(DISMISSED_DUPLICATES_SETTING, Array.from(next))
+      setDismissed(next)
+    } catch (error) {
+      console.error("Error dismissing duplicates:", error)
+      toast.error("Failed to save")
+    }
+  }
+
+  return (
+    <Card className={`${currentTheme.card} rounded-[24px]`}>
+      <CardHeader className="pb-2">
+        <CardTitle className={`text-lg font-semibold ${currentTheme.text.primary}`}>Duplicates</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {groups.length === 0 ? (
+          <p className="text-sm text-gray-400 text-center py-6">No suspected duplicates</p>
+        ) : (
+          <div className="space-y-3 max-h-[480px] overflow-y-auto">
+            <p className="text-sm text-gray-500">
+              Pick the transaction to keep. Merging moves the others to the trash and keeps their notes and tags.
+            </p>
+            {groups.map((group) => (
+              <div key={group.id} className="rounded-xl border border-gray-100 p-2 space-y-1">
+                {group.expenses.map((expense) => {
+                  const account = accounts.find((a) => a.id === expense.accountId)
+                  const details = [account?.name, expense.tags?.length ? formatTags(expense.tags) : null]
+                    .filter(Boolean)
+                    .join(" · ")
+
+                  return (
+                    <label
+                      key={expense.id}
+                      className="flex items-center gap-3 p-2 rounded-lg hover:bg-gray-50 cursor-pointer"
+                    >
+                      <input
+                        type="radio"
+                        name={group.id}
+                        checked={getKeptId(group) === expense.id}
+                        onChange={() => setKeptIds((prev) => ({ ...prev, [group.id]: expense.id }))}
+                      />
+                      <div className="min-w-0 flex-1">
+                        <p className={`text-sm font-medium truncate ${currentTheme.text.secondary}`}>
+                          {[getCategoryLabel(expense.category), expense.note].filter(Boolean).join(" · ")}
+                        </p>
+                        <p className="text-xs text-gray-400 truncate">
+                          {formatDate(expense.timestamp)} {formatTime(expense.timestamp)}
+                          {details && ` · ${details}`}
+                        </p>
+                      </div>
+                      <span className="text-sm font-medium shrink-0">
+                        {formatCurrency(expense.amount, 2, currentCurrency).value}
+                      </span>
+                    </label>
+                  )
+                })}
+                <div className="flex justify-end gap-2 pt-1">
+                  <Button variant="ghost" size="sm" onClick={() => handleKeepAll(group)} disabled={isWorking}>
+                    Keep all
+                  </Button>
+                  <Button
+                    size="sm"
+                    onClick={() => handleMerge(group)}
+                    disabled={isWorking}
+                    className={`rounded-xl ${currentTheme.button} text-white`}
+                  >
+                    Merge
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,335 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Drawer, DrawerContent, DrawerFooter, DrawerHeader, DrawerTitle } from "@/components/ui/drawer"
+import { Input } from "@/components/ui/input"
+import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { toast } from "sonner"
+import { getAllTags, getRecordHistory, updateExpense } from "@/utils/db"
+import { toastWithUndo } from "@/utils/undo"
+import { logUserActivity } from "@/utils/vercel-analytics"
+import { formatTags, parseTags } from "@/utils/tags"
+import { getMainCategory, validateSplits } from "@/utils/splits"
+import type { Account, ChangeLogEntry, Expense } from "@/utils/models"
+import ExpenseDatePicker from "./expense-date-picker"
+import TagInput from "./tag-input"
+import SplitEditor, { type SplitDraft } from "./split-editor"
+import ChangeList from "./change-list"
+import { useCategories } from "./category-provider"
+
+const NO_ACCOUNT = "none"
+
+interface EditExpenseDrawerProps {
+  expense: Expense | null
+  accounts: Account[]
+  currentTheme: any
+  currentCurrency?: string
+  onOpenChange: (open: boolean) => void
+  onExpenseUpdated: (expense: Expense) => void
+}
+
+export default function EditExpenseDrawer({
+  expense,
+  accounts,
+  currentTheme,
+  currentCurrency = "$",
+  onOpenChange,
+  onExpenseUpdated,
+}: EditExpenseDrawerProps) {
+  const [amount, setAmount] = useState("")
+  const [category, setCategory] = useState("")
+  const [splits, setSplits] = useState<SplitDraft[]>([])
+  const [note, setNote] = useState("")
+  const [tags, setTags] = useState("")
+  const [knownTags, setKnownTags] = useState<string[]>([])
+  const [timestamp, setTimestamp] = useState(0)
+  const [accountId, setAccountId] = useState(NO_ACCOUNT)
+  const [toAccountId, setToAccountId] = useState(NO_ACCOUNT)
+  const [error, setError] = useState("")
+  const [isSaving, setIsSaving] = useState(false)
+  const [history, setHistory] = useState<ChangeLogEntry[] | null>(null) // Loaded when asked for
+  const { getCategory, getCategoryLabel, getCategoriesByKind } = useCategories()
+
+  // Load the selected expense into the form
+  useEffect(() => {
+    if (expense) {
+      setAmount(expense.amount.toString())
+      setCategory(expense.category)
+      setSplits((expense.splits ?? []).map((split) => ({ category: split.category, amount: split.amount.toString() })))
+      setNote(expense.note || "")
+      setTags(formatTags(expense.tags))
+      setTimestamp(expense.timestamp)
+      setAccountId(expense.accountId ?? NO_ACCOUNT)
+      setToAccountId(expense.toAccountId ?? NO_ACCOUNT)
+      setError("")
+      setHistory(null)
+      getAllTags().then(setKnownTags)
+    }
+  }, [expense])
+
+  const handleSave = async () => {
+    if (!expense) return
+
+    const amountValue = Number.parseFloat(amount)
+
+    // Validate input
+    if (isNaN(amountValue)) {
+      setError("Please enter a valid number")
+      return
+    }
+
+    if (amountValue <= 0) {
+      setError("Amount must be greater than zero")
+      return
+    }
+
+    // A single remaining split is just the transaction's category
+    const isSplitting = !isTransfer && splits.length > 1
+    const expenseSplits = splits.map((split) => ({ category: split.category, amount: Number.parseFloat(split.amount) }))
+
+    if (isSplitting) {
+      const splitError = validateSplits(amountValue, expenseSplits)
+      if (splitError) {
+        setError(splitError)
+        return
+      }
+    } else if (!(splits.length === 1 ? splits[0].category : category)) {
+      setError("Please select a category")
+      return
+    }
+
+    if (isTransfer && (accountId === NO_ACCOUNT || toAccountId === NO_ACCOUNT || accountId === toAccountId)) {
+      setError("Choose two different accounts")
+      return
+    }
+
+    setError("")
+    setIsSaving(true)
+
+    const expenseTags = parseTags(tags)
+    const expenseCategory = isSplitting
+      ? getMainCategory(expenseSplits)
+      : splits.length === 1 && !isTransfer
+        ? splits[0].category
+        : category
+    const updatedExpense: Expense = {
+      ...expense,
+      amount: amountValue,
+      category: expenseCategory,
+      splits: isSplitting ? expenseSplits : undefined,
+      note: note.trim() || undefined,
+      tags: expenseTags.length > 0 ? expenseTags : undefined,
+      timestamp,
+      accountId: accountId === NO_ACCOUNT ? undefined : accountId,
+      toAccountId: isTransfer ? toAccountId : undefined,
+    }
+
+    try {
+      await updateExpense(updatedExpense)
+
+      // Log expense edited event
+      logUserActivity(`expense_edited_${expenseCategory}`)
+
+      const previousExpense = expense
+      onExpenseUpdated(updatedExpense)
+      onOpenChange(false)
+      toastWithUndo("Transaction updated", async () => {
+        await updateExpense(previousExpense)
+        onExpenseUpdated(previousExpense)
+      })
+    } catch (error) {
+      console.error("Error updating expense:", error)
+      toast.error("Failed to update transaction")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const isTransfer = expense?.type === "transfer"
+
+  // Start splitting with the whole amount in the current category
+  const startSplitting = () => {
+    setSplits([
+      { category, amount },
+      { category: "", amount: "" },
+    ])
+  }
+
+  // Offer categories of the same kind (expense or income), making sure the transaction's
+  // own category is selectable even if it was removed from the list
+  const sameKindCategories = getCategoriesByKind(expense?.type === "income" ? "income" : "expense")
+  // Keep the current categories, including those of its splits, selectable even if archived
+  const currentCategoryIds = expense
+    ? Array.from(new Set([expense.category, ...(expense.splits ?? []).map((split) => split.category)]))
+    : []
+  const categoryOptions = [
+    ...sameKindCategories,
+    ...currentCategoryIds.filter((id) => !sameKindCategories.some((c) => c.id === id)).map(getCategory),
+  ]
+
+  return (
+    <Drawer open={expense !== null} onOpenChange={onOpenChange}>
+      <DrawerContent>
+        <div className="mx-auto w-full max-w-lg">
+          <DrawerHeader>
+            <DrawerTitle className={currentTheme.text.primary}>
+              {expense?.type === "income" ? "Edit Income" : isTransfer ? "Edit Transfer" : "Edit Transaction"}
+            </DrawerTitle>
+          </DrawerHeader>
+          <div className="space-y-4 px-4 max-h-[65vh] overflow-y-auto">
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Amount</label>
+              <Input
+                type="number"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                className={`rounded-xl ${currentTheme.input.background} ${currentTheme.input.border}`}
+              />
+            </div>
+
+            {isTransfer ? (
+              <div className="grid grid-cols-2 gap-2">
+                {[
+                  { label: "From", value: accountId, onChange: setAccountId },
+                  { label: "To", value: toAccountId, onChange: setToAccountId },
+                ].map(({ label, value, onChange }) => (
+                  <div key={label} className="space-y-2">
+                    <label className="text-sm font-medium">{label}</label>
+                    <Select value={value} onValueChange={onChange}>
+                      <SelectTrigger className={`rounded-xl ${currentTheme.input.background} ${currentTheme.input.border}`}>
+                        <SelectValue placeholder={label} />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {accounts.map((account) => (
+                          <SelectItem key={account.id} value={account.id}>
+                            {account.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div className="space-y-2">
+                <div className="flex justify-between items-center">
+                  <label className="text-sm font-medium">Category</label>
+                  {splits.length === 0 && (
+                    <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={startSplitting}>
+                      Split
+                    </Button>
+                  )}
+                </div>
+                {splits.length > 0 ? (
+                  <SplitEditor
+                    splits={splits}
+                    onChange={setSplits}
+                    total={Number.parseFloat(amount) || 0}
+                    categories={categoryOptions}
+                    currentTheme={currentTheme}
+                  />
+                ) : (
+                  <Select value={category} onValueChange={setCategory}>
+                    <SelectTrigger className={`rounded-xl ${currentTheme.input.background} ${currentTheme.input.border}`}>
+                      <SelectValue placeholder="Category" />
+                    </SelectTrigger>
+                    <SelectContent className="max-h-[200px] overflow-y-auto">
+                      {categoryOptions.map((cat) => (
+                        <SelectItem key={cat.id} value={cat.id}>
+                          <div className="flex items-center">
+                            <div className="w-3 h-3 rounded-full mr-2" style={{ backgroundColor: cat.color }}></div>
+                            {getCategoryLabel(cat.id)}
+                          </div>
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              </div>
+            )}
+
+            {!isTransfer && accounts.length > 0 && (
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Account</label>
+                <Select value={accountId} onValueChange={setAccountId}>
+                  <SelectTrigger className={`rounded-xl ${currentTheme.input.background} ${currentTheme.input.border}`}>
+                    <SelectValue placeholder="Account" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_ACCOUNT}>No account</SelectItem>
+                    {accounts.map((account) => (
+                      <SelectItem key={account.id} value={account.id}>
+                        {account.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Note</label>
+              <Input
+                type="text"
+                placeholder="Note (optional)"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                className={`rounded-xl ${currentTheme.input.background} ${currentTheme.input.border}`}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Tags</label>
+              <TagInput value={tags} onChange={setTags} suggestions={knownTags} currentTheme={currentTheme} />
+            </div>
+
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Date & Time</label>
+              <div>
+                <ExpenseDatePicker
+                  value={timestamp}
+                  onChange={(value) => setTimestamp(value ?? Date.now())}
+                  currentTheme={currentTheme}
+                  allowNow={false}
+                />
+              </div>
+            </div>
+
+            {error && <p className="text-red-500 text-sm">{error}</p>}
+
+            <div className="space-y-2 pb-2">
+              {history === null ? (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => expense && getRecordHistory(expense.id).then(setHistory)}
+                  className="text-gray-500 px-0"
+                >
+                  Show history
+                </Button>
+              ) : (
+                <>
+                  <label className="text-sm font-medium">History</label>
+                  {history.length > 0 ? (
+                    <ChangeList changes={history} accounts={accounts} currentCurrency={currentCurrency} />
+                  ) : (
+                    <p className="text-sm text-gray-400">No changes recorded yet</p>
+                  )}
+                </>
+              )}
+            </div>
+          </div>
+          <DrawerFooter className="flex-row justify-end">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving} className={`${currentTheme.button} text-white`}>
+              Save
+            </Button>
+          </DrawerFooter>
+        </div>
+      </DrawerContent>
+    </Drawer>
+  )
+}
@@ -4,7 +4,12 @@ import { useState, useEffect } from "react"
 import { Card } from "@/components/ui/card"
 import { getExpenses } from "@/utils/db"
 import { formatCurrency } from "@/utils/format-utils"
+import type { Expense } from "@/utils/models"
+import { type CashFlow, calculateCashFlow, isSpending } from "@/utils/cash-flow"
+import { type CategoryAmount, rollUpCategoryTotals } from "@/utils/categories"
+import { sumByCategory } from "@/utils/splits"
 import {
+  formatDate,
   getStartOfMonth,
   getEndOfMonth,
   getStartOfPreviousMonth,
@@ -14,6 +19,8 @@ import {
 import {
   LineChart,
   Line,
+  Bar,
+  ComposedChart,
   XAxis,
   YAxis,
   CartesianGrid,
@@ -27,6 +34,9 @@ import {
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Skeleton } from "@/components/ui/skeleton"
 import { toast } from "sonner"
+import { ChevronLeft } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { useCategories } from "./category-provider"
 
 interface ExpenseChartProps {
   currentTheme: any
@@ -39,44 +49,43 @@ interface DailyExpense {
   formattedDate: string
 }
 
-interface CategoryTotal {
-  name: string
-  value: number
-  color: string
+interface DailyCashFlow {
+  date: string
+  formattedDate: string
+  income: number
+  spent: number
+  net: number
 }
 
 export default function ExpenseChart({ currentTheme, currentCurrency }: ExpenseChartProps) {
   const [currentMonthData, setCurrentMonthData] = useState<DailyExpense[]>([])
   const [previousMonthData, setPreviousMonthData] = useState<DailyExpense[]>([])
-  const [categoryData, setCategoryData] = useState<CategoryTotal[]>([])
+  const [categoryData, setCategoryData] = useState<CategoryAmount[]>([])
   const [loading, setLoading] = useState<boolean>(true)
   const [currentMonthTotal, setCurrentMonthTotal] = useState<number>(0)
   const [previousMonthTotal, setPreviousMonthTotal] = useState<number>(0)
   const [percentChange, setPercentChange] = useState<number>(0)
   const [activeIndex, setActiveIndex] = useState<number | null>(null)
+  const [cashFlowData, setCashFlowData] = useState<DailyCashFlow[]>([])
+  const [drillCategoryId, setDrillCategoryId] = useState<string | null>(null)
+  const { categories, getCategory } = useCategories()
+  const [monthCashFlow, setMonthCashFlow] = useState<CashFlow>({ spent: 0, income: 0, net: 0 })
 
   // Chart colors - hardcoded to avoid theme dependency
   const chartColors = {
     currentMonth: "#3b82f6", // blue
     previousMonth: "#f97316", // orange
-  }
-
-  // Category colors
-  const categoryColors = {
-    food: "#4ade80", // green
-    transport: "#60a5fa", // blue
-    shopping: "#f472b6", // pink
-    entertainment: "#a78bfa", // purple
-    utilities: "#fbbf24", // yellow
-    health: "#34d399", // emerald
-    other: "#94a3b8", // slate
+    income: "#22c55e", // green
+    spent: "#f87171", // red
+    net: "#3b82f6", // blue
   }
 
   useEffect(() => {
     async function fetchData() {
       try {
         setLoading(true)
-        const expenses = await getExpenses()
+        const transactions = await getExpenses()
+        const expenses = transactions.filter(isSpending)
 
         // Get date ranges
         const currentMonthStart = getStartOfMonth()
@@ -120,6 +129,13 @@ export default function ExpenseChart({ currentTheme, currentCurrency }: ExpenseC
         // Group by category for current month
         const categoryTotals = groupExpensesByCategory(currentMonthExpenses)
         setCategoryData(categoryTotals)
+
+        // Income vs spending for current month
+        const currentMonthTransactions = transactions.filter(
+          (transaction) => transaction.timestamp >= currentMonthStart && transaction.timestamp <= currentMonthEnd,
+        )
+        setMonthCashFlow(calculateCashFlow(currentMonthTransactions))
+        setCashFlowData(groupCashFlowByDay(currentMonthTransactions, currentMonthStart, currentMonthEnd))
       } catch (error) {
         console.error("Error fetching expense data for chart:", error)
       } finally {
@@ -131,23 +147,22 @@ export default function ExpenseChart({ currentTheme, currentCurrency }: ExpenseC
   }, [])
 
   // Group expenses by day
-  const groupExpensesByDay = (expenses: any[], startDate: number, endDate: number) => {
+  const groupExpensesByDay = (expenses: Expense[], startDate: number, endDate: number) => {
     // Create a map of dates with 0 amount
     const dateMap = new Map()
     const start = new Date(startDate)
     const end = new Date(endDate)
 
+    // Key days by local date so late-evening and backdated expenses land on the day they were made
     for (let day = new Date(start); day <= end; day.setDate(day.getDate() + 1)) {
-      const dateStr = day.toISOString().split("T")[0]
+      const dateStr = formatDate(day.getTime())
       const formattedDate = `${day.getDate()}`
       dateMap.set(dateStr, { date: dateStr, amount: 0, formattedDate })
     }
 
     // Add expense amounts to corresponding dates
     expenses.forEach((expense) => {
-      const date = new Date(expense.timestamp)
-      const dateStr = date.toISOString().split("T")[0]
-      const formattedDate = `${date.getDate()}`
+      const dateStr = formatDate(expense.timestamp)
 
       if (dateMap.has(dateStr)) {
         const existing = dateMap.get(dateStr)
@@ -162,56 +177,34 @@ export default function ExpenseChart({ currentTheme, currentCurrency }: ExpenseC
     return Array.from(dateMap.values()).sort((a, b) => a.date.localeCompare(b.date))
   }
 
-  // Group expenses by category
-  const groupExpensesByCategory = (expenses: any[]) => {
-    const categoryMap = new Map()
-
-    // Initialize with all categories
-    Object.keys(categoryColors).forEach((category) => {
-      categoryMap.set(category, {
-        name: getCategoryName(category),
-        value: 0,
-        color: categoryColors[category as keyof typeof categoryColors],
-      })
-    })
+  // Group income and spending by day, with the running net for each day
+  const groupCashFlowByDay = (transactions: Expense[], startDate: number, endDate: number): DailyCashFlow[] => {
+    const dateMap = new Map<string, DailyCashFlow>()
 
-    // Add expense amounts to corresponding categories
-    expenses.forEach((expense) => {
-      if (categoryMap.has(expense.category)) {
-        const existing = categoryMap.get(expense.category)
-        categoryMap.set(expense.category, {
-          ...existing,
-          value: existing.value + expense.amount,
-        })
-      } else {
-        // Handle any categories not in our predefined list
-        categoryMap.set(expense.category, {
-          name: getCategoryName(expense.category),
-          value: expense.amount,
-          color: categoryColors.other,
-        })
-      }
+    for (let day = new Date(startDate); day <= new Date(endDate); day.setDate(day.getDate() + 1)) {
+      const dateStr = formatDate(day.getTime())
+      dateMap.set(dateStr, { date: dateStr, formattedDate: `${day.getDate()}`, income: 0, spent: 0, net: 0 })
+    }
+
+    transactions.forEach((transaction) => {
+      const existing = dateMap.get(formatDate(transaction.timestamp))
+      if (!existing) return
+
+      const { spent, income } = calculateCashFlow([transaction])
+      existing.spent += spent
+      existing.income += income
+      existing.net = existing.income - existing.spent
     })
 
-    // Convert map to array, filter out zero values, and sort by amount
-    return Array.from(categoryMap.values())
-      .filter((category) => category.value > 0)
-      .sort((a, b) => b.value - a.value)
+    return Array.from(dateMap.values()).sort((a, b) => a.date.localeCompare(b.date))
   }
 
-  // Get readable category name
-  const getCategoryName = (categoryId: string) => {
-    const categories: { [key: string]: string } = {
-      food: "Food & Dining",
-      transport: "Transportation",
-      shopping: "Shopping",
-      entertainment: "Entertainment",
-      utilities: "Bills & Utilities",
-      health: "Health",
-      other: "Other",
-    }
-
-    return categories[categoryId] || categoryId.charAt(0).toUpperCase() + categoryId.slice(1)
+  // Group expenses by category (split transactions count under each of their categories), largest first
+  const groupExpensesByCategory = (expenses: Expense[]): CategoryAmount[] => {
+    return Array.from(sumByCategory(expenses).entries())
+      .map(([id, amount]) => ({ id, amount }))
+      .filter((category) => category.amount > 0)
+      .sort((a, b) => b.amount - a.amount)
   }
 
   // Custom tooltip for the line chart
@@ -222,7 +215,7 @@ export default function ExpenseChart({ currentTheme, currentCurrency }: ExpenseC
           <p className="font-medium text-gray-900 mb-1">Day {label}</p>
           {payload.map((entry: any, index: number) => (
             <div key={`item-${index}`} className="flex items-center gap-2 mb-1">
-              <div className="w-3 h-3 rounded-full" style={{ backgroundColor: entry.stroke }} />
+              <div className="w-3 h-3 rounded-full" style={{ backgroundColor: entry.stroke || entry.fill }} />
               <p className="text-sm">
                 <span className="font-medium">{entry.name}: </span>
                 <span>{formatCurrency(entry.value, 2, currentCurrency).value}</span>
@@ -267,6 +260,13 @@ export default function ExpenseChart({ currentTheme, currentCurrency }: ExpenseC
 
   // Handle pie sector click
   const handlePieClick = (data: any, index: number) => {
+    // Top-level categories with sub-categories open a pie of their sub-categories
+    if (!drillCategoryId && data.hasChildren) {
+      setDrillCategoryId(data.id)
+      setActiveIndex(null)
+      return
+    }
+
     setActiveIndex(index === activeIndex ? null : index)
 
     toast(`${data.name}: ${formatCurrency(data.value, 2, currentCurrency).value}`, {
@@ -303,12 +303,34 @@ export default function ExpenseChart({ currentTheme, currentCurrency }: ExpenseC
           {`${(percent * 100).toFixed(1)}%`}
         </text>
         <text x={cx} y={cy + 45} textAnchor="middle" fill="#888" fontSize={12}>
-          {`of total spending`}
+          {drilledCategory ? `of ${getCategory(drilledCategory.id).name}` : `of total spending`}
         </text>
       </g>
     )
   }
 
+  // Sub-categories roll up into their parent; drilling into a parent shows what it is made of
+  const categoryRollUps = rollUpCategoryTotals(categories, categoryData)
+  const drilledCategory = categoryRollUps.find((rollUp) => rollUp.id === drillCategoryId)
+  const pieSlices = drilledCategory
+    ? drilledCategory.children.map((child) => ({ ...child, hasChildren: false }))
+    : categoryRollUps.map((rollUp) => ({
+        ...rollUp,
+        hasChildren: rollUp.children.some((child) => child.id !== rollUp.id),
+      }))
+
+  // Names and colors come from the category registry, so custom categories show up once loaded
+  const categoryChartData = pieSlices.map((slice) => {
+    const category = getCategory(slice.id)
+    return {
+      id: slice.id,
+      name: category.name,
+      value: slice.amount,
+      color: category.color,
+      hasChildren: slice.hasChildren,
+    }
+  })
+
   if (loading) {
     return (
       <Card className="p-6 space-y-4">
@@ -339,15 +361,32 @@ export default function ExpenseChart({ currentTheme, currentCurrency }: ExpenseC
         <TabsList className="mb-4">
           <TabsTrigger value="donut">Category Breakdown</TabsTrigger>
           <TabsTrigger value="comparison">Monthly Comparison</TabsTrigger>
+          <TabsTrigger value="cashflow">Cash Flow</TabsTrigger>
         </TabsList>
 
         <TabsContent value="donut">
+          {drilledCategory && (
+            <div className="flex items-center gap-2 mb-2">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => {
+                  setDrillCategoryId(null)
+                  setActiveIndex(null)
+                }}
+              >
+                <ChevronLeft className="h-4 w-4 mr-1" />
+                All categories
+              </Button>
+              <span className="text-sm font-medium">{getCategory(drilledCategory.id).name}</span>
+            </div>
+          )}
           {categoryData.length > 0 ? (
             <div className="h-[250px] md:h-[300px] lg:h-[350px] w-full">
               <ResponsiveContainer width="100%" height="100%" className="donut-chart-container">
                 <PieChart>
                   <Pie
-                    data={categoryData}
+                    data={categoryChartData}
                     cx="50%"
                     cy="50%"
                     innerRadius={60}
@@ -362,7 +401,7 @@ export default function ExpenseChart({ currentTheme, currentCurrency }: ExpenseC
                     activeIndex={activeIndex !== null ? activeIndex : undefined}
                     activeShape={renderActiveShape}
                   >
-                    {categoryData.map((entry, index) => (
+                    {categoryChartData.map((entry, index) => (
                       <Cell key={`cell-${index}`} fill={entry.color} />
                     ))}
                   </Pie>
@@ -422,6 +461,40 @@ export default function ExpenseChart({ currentTheme, currentCurrency }: ExpenseC
             </div>
           )}
         </TabsContent>
+
+        <TabsContent value="cashflow">
+          {monthCashFlow.income > 0 || monthCashFlow.spent > 0 ? (
+            <>
+              <div className="h-[250px] md:h-[300px] lg:h-[350px] w-full">
+                <ResponsiveContainer width="100%" height="100%">
+                  <ComposedChart data={cashFlowData} margin={{ top: 5, right: 20, left: 0, bottom: 5 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+                    <XAxis dataKey="formattedDate" tick={{ fontSize: 12 }} />
+                    <YAxis tick={{ fontSize: 12 }} />
+                    <Tooltip content={<CustomLineTooltip />} />
+                    <Legend />
+                    <Bar dataKey="income" name="Income" fill={chartColors.income} radius={[4, 4, 0, 0]} />
+                    <Bar dataKey="spent" name="Spending" fill={chartColors.spent} radius={[4, 4, 0, 0]} />
+                    <Line type="monotone" dataKey="net" name="Net" stroke={chartColors.net} strokeWidth={2} dot={false} />
+                  </ComposedChart>
+                </ResponsiveContainer>
+              </div>
+              <div className="mt-2 bg-gray-50 p-2 md:p-3 rounded-lg flex justify-between items-baseline">
+                <p className="text-xs md:text-sm text-gray-500">{getMonthName(new Date())} net cash flow</p>
+                <span className={`text-base md:text-xl font-bold ${monthCashFlow.net < 0 ? "text-red-500" : "text-green-600"}`}>
+                  {monthCashFlow.net < 0 ? "-" : "+"}
+                  {formatCurrency(Math.abs(monthCashFlow.net), 2, currentCurrency).value}
+                  {formatCurrency(Math.abs(monthCashFlow.net), 2, currentCurrency).suffix}
+                </span>
+              </div>
+            </>
+          ) : (
+            <div className="text-center py-12 text-gray-500">
+              <p>No cash flow data available</p>
+              <p className="text-sm mt-2">Add income and expenses to see your net cash flow</p>
+            </div>
+          )}
+        </TabsContent>
       </Tabs>
 
       <div className="mt-4 grid grid-cols-1 sm:grid-cols-2 gap-2 md:gap-4">
@@ -0,0 +1,102 @@
+"use client"
+
+import { useState } from "react"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { Calendar } from "@/components/ui/calendar"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { CalendarDays } from "lucide-react"
+import { combineDateAndTime, daysAgoAt, formatDate, formatTime, isSameDay, toTimeInputValue } from "@/utils/date-utils"
+
+interface ExpenseDatePickerProps {
+  // null means "now": the timestamp is taken when the expense is saved
+  value: number | null
+  onChange: (timestamp: number | null) => void
+  currentTheme: any
+  allowNow?: boolean
+}
+
+// Describe a timestamp relative to today ("Today, 9:30 AM", "Yesterday, ...", "2025-01-31, ...")
+const describeTimestamp = (timestamp: number): string => {
+  const now = Date.now()
+  let day = formatDate(timestamp)
+
+  if (isSameDay(timestamp, now)) {
+    day = "Today"
+  } else if (isSameDay(timestamp, daysAgoAt(1, now))) {
+    day = "Yesterday"
+  }
+
+  return `${day}, ${formatTime(timestamp)}`
+}
+
+export default function ExpenseDatePicker({ value, onChange, currentTheme, allowNow = true }: ExpenseDatePickerProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const current = value ?? Date.now()
+
+  // Never allow a timestamp in the future, it would count towards periods that haven't happened yet
+  const change = (timestamp: number) => {
+    onChange(Math.min(timestamp, Date.now()))
+  }
+
+  // Quick chips count back from today, keeping the current time of day
+  const quickPicks = [
+    ...(allowNow ? [{ label: "Now", timestamp: null }] : [{ label: "Today", timestamp: daysAgoAt(0, current) }]),
+    { label: "Yesterday", timestamp: daysAgoAt(1, current) },
+    { label: "2 days ago", timestamp: daysAgoAt(2, current) },
+  ]
+
+  return (
+    <Popover open={isOpen} onOpenChange={setIsOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          type="button"
+          variant="outline"
+          className={`h-10 rounded-xl justify-start font-normal ${currentTheme.input.background} ${currentTheme.input.border}`}
+        >
+          <CalendarDays className="w-4 h-4 mr-2" />
+          {value === null ? "Now" : describeTimestamp(value)}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-auto p-0" align="start">
+        <div className="flex flex-wrap gap-2 p-3 border-b">
+          {quickPicks.map((pick) => (
+            <Button
+              key={pick.label}
+              type="button"
+              variant="outline"
+              size="sm"
+              className="rounded-full h-7 text-xs"
+              onClick={() => {
+                if (pick.timestamp === null) {
+                  onChange(null)
+                } else {
+                  change(pick.timestamp)
+                }
+                setIsOpen(false)
+              }}
+            >
+              {pick.label}
+            </Button>
+          ))}
+        </div>
+        <Calendar
+          mode="single"
+          selected={new Date(current)}
+          onSelect={(date) => date && change(combineDateAndTime(date, toTimeInputValue(current)))}
+          disabled={{ after: new Date() }}
+          initialFocus
+        />
+        <div className="flex items-center gap-2 p-3 border-t">
+          <label className="text-sm font-medium">Time</label>
+          <Input
+            type="time"
+            value={toTimeInputValue(current)}
+            onChange={(e) => e.target.value && change(combineDateAndTime(new Date(current), e.target.value))}
+            className="h-8"
+          />
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -6,19 +6,32 @@ import { Button } from "@/components/ui/button"
 import { PlusCircle, AlertCircle } from "lucide-react"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { toast } from "sonner"
-import { addExpense, getCustomCategories } from "@/utils/db"
+import {
+  addExpense,
+  getAccounts,
+  getAllTags,
+  getCategoryRules,
+  getExpenses,
+  getExpensesByPeriod,
+  getSetting,
+  saveSetting,
+} from "@/utils/db"
 import { logUserActivity } from "@/utils/vercel-analytics"
+import { formatDate, formatTime, isSameDay } from "@/utils/date-utils"
+import { formatTag, parseTags } from "@/utils/tags"
+import { hasQuickAddDetails, learnCategoryKeywords, parseQuickAdd } from "@/utils/quick-add-parser"
+import { evaluateAmountExpression, isAmountExpression } from "@/utils/amount-expression"
+import { applyRules } from "@/utils/rules-engine"
+import { type ClassifierModel, buildClassifier, suggestCategories } from "@/utils/category-classifier"
+import { DUPLICATE_NOTE_WINDOW_MS, findDuplicatesOf } from "@/utils/duplicate-detector"
+import type { Account, Category, Expense, CategoryKind } from "@/utils/models"
 import AddCategoryDialog from "./add-category-dialog"
+import { useCategories } from "./category-provider"
+import ExpenseDatePicker from "./expense-date-picker"
+import TagInput from "./tag-input"
+import AmountExpressionPreview from "./amount-expression-preview"
 
-// Default categories
-const DEFAULT_CATEGORIES = [
-  { id: "food", name: "Food & Dining", color: "#4ade80" },
-  { id: "transport", name: "Transportation", color: "#60a5fa" },
-  { id: "shopping", name: "Shopping", color: "#f472b6" },
-  { id: "entertainment", name: "Entertainment", color: "#a78bfa" },
-  { id: "utilities", name: "Bills & Utilities", color: "#fbbf24" },
-  { id: "health", name: "Health", color: "#34d399" },
-]
+const NO_ACCOUNT = "none"
 
 interface ExpenseInputFormProps {
   currentTheme: any
@@ -27,43 +40,116 @@ interface ExpenseInputFormProps {
 }
 
 export default function ExpenseInputForm({ currentTheme, onExpenseAdded, playMoneySound }: ExpenseInputFormProps) {
+  const [transactionType, setTransactionType] = useState<CategoryKind>("expense")
   const [newAmount, setNewAmount] = useState("")
   const [selectedCategory, setSelectedCategory] = useState("food")
+  const [categoryPicked, setCategoryPicked] = useState(false) // Chosen by hand rather than suggested
   const [note, setNote] = useState("")
+  const [tags, setTags] = useState("")
+  const [knownTags, setKnownTags] = useState<string[]>([])
+  const [expenseTimestamp, setExpenseTimestamp] = useState<number | null>(null) // null = now
   const [isAdding, setIsAdding] = useState(false)
   const [error, setError] = useState("")
-  const [categories, setCategories] = useState([...DEFAULT_CATEGORIES])
+  const [accounts, setAccounts] = useState<Account[]>([])
+  const [selectedAccount, setSelectedAccount] = useState(NO_ACCOUNT)
+  const [keywords, setKeywords] = useState<Map<string, string>>(new Map())
+  const [classifier, setClassifier] = useState<ClassifierModel | null>(null)
+  const [duplicates, setDuplicates] = useState<Expense[]>([]) // Existing transactions the one being added looks like
 
-  // Load custom categories on component mount
+  const { getCategory, getCategoryLabel, getCategoriesByKind } = useCategories()
+
+  // Only offer the categories that match the kind of transaction being added
+  const visibleCategories = getCategoriesByKind(transactionType)
+
+  // The amount field also takes a whole line, e.g. "12.50 lunch with Sam yesterday #work food"
+  const quickAdd = parseQuickAdd(newAmount, { categories: visibleCategories, keywords })
+  const showQuickAddPreview = quickAdd.amount !== null && hasQuickAddDetails(quickAdd)
+
+  // Most likely category given the note, amount and time, learned from past transactions
+  const [suggestion] = classifier
+    ? suggestCategories(
+        classifier,
+        {
+          note: quickAdd.note || note,
+          amount: quickAdd.amount ?? undefined,
+          timestamp: quickAdd.timestamp ?? expenseTimestamp ?? Date.now(),
+        },
+        visibleCategories.map((category) => category.id),
+      )
+    : []
+
+  // Category the transaction is saved under: one named in the quick add line, then one picked
+  // by hand, then a guess from the note and history
+  const formCategory =
+    quickAdd.categorySource === "name"
+      ? quickAdd.category!
+      : categoryPicked
+        ? selectedCategory
+        : (quickAdd.category ?? suggestion?.category ?? selectedCategory)
+  const isSuggested = !categoryPicked && !quickAdd.category && suggestion?.category === formCategory
+
+  // Load accounts and preselect the one used last
   useEffect(() => {
-    async function loadCustomCategories() {
+    async function loadAccounts() {
       try {
-        const customCategories = await getCustomCategories()
-        if (customCategories && customCategories.length > 0) {
-          // Combine default and custom categories, avoiding duplicates
-          const allCategories = [...DEFAULT_CATEGORIES]
-
-          customCategories.forEach((customCat) => {
-            if (!allCategories.some((cat) => cat.id === customCat.id)) {
-              allCategories.push(customCat)
-            }
-          })
-
-          setCategories(allCategories)
+        const savedAccounts = await getAccounts()
+        setAccounts(savedAccounts)
+
+        const lastAccountId = await getSetting<string | null>("lastAccountId", null)
+        if (lastAccountId && savedAccounts.some((account) => account.id === lastAccountId)) {
+          setSelectedAccount(lastAccountId)
         }
       } catch (error) {
-        console.error("Error loading custom categories:", error)
+        console.error("Error loading accounts:", error)
       }
     }
 
-    loadCustomCategories()
+    loadAccounts()
+    getAllTags().then(setKnownTags)
+    loadHistory()
   }, [])
 
-  const handleAddExpense = async () => {
-    const amount = Number.parseFloat(newAmount)
+  // A duplicate warning is about what was entered, so it goes once the entry changes
+  useEffect(() => {
+    setDuplicates([])
+  }, [newAmount, note, tags, formCategory, expenseTimestamp, selectedAccount, transactionType])
+
+  // Learn which notes go with which category, for quick add and category suggestions
+  const loadHistory = async () => {
+    try {
+      const expenses = await getExpenses()
+      setKeywords(learnCategoryKeywords(expenses))
+      setClassifier(buildClassifier(expenses))
+    } catch (error) {
+      console.error("Error learning from past transactions:", error)
+    }
+  }
+
+  // Switch between adding an expense and adding income
+  const handleTypeChange = (type: CategoryKind) => {
+    if (type === transactionType) return
+
+    setTransactionType(type)
+    setSelectedCategory(getCategoriesByKind(type)[0]?.id ?? "")
+    setCategoryPicked(false)
+    setError("")
+  }
+
+  // Add the transaction, first warning if it looks like one already recorded unless told to add it anyway
+  const handleAddExpense = async (addAnyway = false) => {
+    // Enter can be pressed again while the last one is still saving
+    if (isAdding) return
+
+    const amount = quickAdd.amount
 
     // Validate input
-    if (isNaN(amount)) {
+    const expressionError = isAmountExpression(newAmount) && evaluateAmountExpression(newAmount).error
+    if (expressionError) {
+      setError(expressionError)
+      return
+    }
+
+    if (amount === null) {
       setError("Please enter a valid number")
       return
     }
@@ -73,7 +159,8 @@ export default function ExpenseInputForm({ currentTheme, onExpenseAdded, playMon
       return
     }
 
-    if (!selectedCategory) {
+    const category = formCategory
+    if (!category) {
       setError("Please select a category")
       return
     }
@@ -81,35 +168,72 @@ export default function ExpenseInputForm({ currentTheme, onExpenseAdded, playMon
     setError("")
     setIsAdding(true)
 
-    // Add new expense with current timestamp and unique ID
-    const newExpense = {
-      id: crypto.randomUUID(),
-      amount,
-      timestamp: Date.now(),
-      category: selectedCategory,
-      note: note.trim() || undefined,
-    }
+    // Add new expense with the chosen (or current) timestamp and unique ID
+    const timestamp = quickAdd.timestamp ?? expenseTimestamp ?? Date.now()
+    const expenseTags = Array.from(new Set([...parseTags(tags), ...quickAdd.tags]))
+    const expenseNote = quickAdd.note || note.trim()
+
+    // Categorization rules override a suggested category, but not one picked by hand or named in the quick add line
+    const newExpense: Expense = applyRules(
+      {
+        id: crypto.randomUUID(),
+        type: transactionType,
+        amount,
+        timestamp,
+        category,
+        note: expenseNote || undefined,
+        accountId: selectedAccount === NO_ACCOUNT ? undefined : selectedAccount,
+        tags: expenseTags.length > 0 ? expenseTags : undefined,
+      },
+      await getCategoryRules(),
+      categoryPicked || quickAdd.categorySource === "name",
+    )
 
     try {
+      // Check for a double tap or the same purchase entered twice
+      if (!addAnyway) {
+        const nearby = await getExpensesByPeriod(timestamp - DUPLICATE_NOTE_WINDOW_MS, timestamp + DUPLICATE_NOTE_WINDOW_MS)
+        const matches = findDuplicatesOf(newExpense, nearby)
+        if (matches.length > 0) {
+          setDuplicates(matches)
+          return
+        }
+      }
+
       // Add to database
       await addExpense(newExpense)
 
+      // Remember the account for the next entry
+      saveSetting("lastAccountId", newExpense.accountId ?? null).catch((error) => {
+        console.error("Error saving last account:", error)
+      })
+
       // Reset form
       setNewAmount("")
       setNote("")
+      setTags("")
+      setExpenseTimestamp(null)
+      setCategoryPicked(false)
+      if (newExpense.tags?.some((tag) => !knownTags.includes(tag))) {
+        getAllTags().then(setKnownTags)
+      }
+      loadHistory()
 
       // Play money sound
       playMoneySound()
 
-      // Log expense added event
-      logUserActivity(`expense_added_${selectedCategory}`)
+      // Log expense (or income) added event
+      logUserActivity(`${transactionType}_added_${newExpense.category}`)
 
       // Notify parent component
       onExpenseAdded()
 
       // Show toast notification with Sonner
+      const categoryName = getCategory(newExpense.category).name
       toast(`${amount.toFixed(2)} added`, {
-        description: `Added to ${categories.find((c) => c.id === selectedCategory)?.name || selectedCategory}`,
+        description: isSameDay(timestamp, Date.now())
+          ? `Added to ${categoryName}`
+          : `Added to ${categoryName} on ${formatDate(timestamp)}`,
         position: "bottom-center",
         icon: <span className="text-xl">🫰🏾</span>,
       })
@@ -122,26 +246,39 @@ export default function ExpenseInputForm({ currentTheme, onExpenseAdded, playMon
   }
 
   // Handle new category added
-  const handleCategoryAdded = (newCategory: { id: string; name: string; color: string }) => {
-    setCategories((prev) => {
-      // Check if category already exists
-      if (prev.some((cat) => cat.id === newCategory.id)) {
-        return prev
-      }
-      return [...prev, newCategory]
-    })
-
-    // Select the newly added category
+  const handleCategoryAdded = (newCategory: Category) => {
+    // Select the newly added category (the shared list is refreshed by the dialog)
     setSelectedCategory(newCategory.id)
+    setCategoryPicked(true)
+  }
+
+  const handleCategoryPicked = (category: string) => {
+    setSelectedCategory(category)
+    setCategoryPicked(true)
   }
 
   return (
     <div className="pt-6 border-t border-gray-100">
       <div className="space-y-3">
+        <div className="flex gap-1 p-1 bg-gray-100 rounded-xl">
+          {(["expense", "income"] as CategoryKind[]).map((type) => (
+            <button
+              key={type}
+              type="button"
+              onClick={() => handleTypeChange(type)}
+              className={`flex-1 rounded-lg py-1.5 text-sm font-medium transition-colors ${
+                transactionType === type ? "bg-white shadow-sm text-gray-900" : "text-gray-500 hover:text-gray-700"
+              }`}
+            >
+              {type === "expense" ? "Expense" : "Income"}
+            </button>
+          ))}
+        </div>
+
         <div className="relative flex-1">
           <Input
-            type="number"
-            placeholder="Add expense"
+            type="text"
+            placeholder={transactionType === "income" ? "Add income, e.g. 2000 salary" : "Add expense, e.g. 12.50 lunch #work"}
             value={newAmount}
             onChange={(e) => setNewAmount(e.target.value)}
             className={`rounded-xl ${currentTheme.input.background} ${
@@ -158,18 +295,47 @@ export default function ExpenseInputForm({ currentTheme, onExpenseAdded, playMon
           )}
         </div>
 
+        <AmountExpressionPreview input={newAmount} />
+
+        {showQuickAddPreview && (
+          <div className="flex flex-wrap gap-1 text-xs">
+            <span className="px-2 py-0.5 rounded-full bg-gray-100 text-gray-700 font-medium">
+              {quickAdd.amount!.toFixed(2)}
+            </span>
+            {quickAdd.category && (
+              <span
+                className="px-2 py-0.5 rounded-full text-gray-700"
+                style={{ backgroundColor: getCategory(quickAdd.category).color + "33" }}
+              >
+                {getCategoryLabel(quickAdd.category)}
+              </span>
+            )}
+            {quickAdd.note && (
+              <span className="px-2 py-0.5 rounded-full bg-gray-100 text-gray-600">{quickAdd.note}</span>
+            )}
+            {quickAdd.timestamp !== null && (
+              <span className="px-2 py-0.5 rounded-full bg-gray-100 text-gray-600">{formatDate(quickAdd.timestamp)}</span>
+            )}
+            {quickAdd.tags.map((tag) => (
+              <span key={tag} className="px-2 py-0.5 rounded-full bg-gray-100 text-gray-500">
+                {formatTag(tag)}
+              </span>
+            ))}
+          </div>
+        )}
+
         <div className="flex gap-2">
           <div className="flex-1">
-            <Select value={selectedCategory} onValueChange={setSelectedCategory}>
+            <Select value={formCategory} onValueChange={handleCategoryPicked}>
               <SelectTrigger className={`rounded-xl ${currentTheme.input.background} ${currentTheme.input.border}`}>
                 <SelectValue placeholder="Category" />
               </SelectTrigger>
               <SelectContent className="max-h-[200px] overflow-y-auto">
-                {categories.map((category) => (
+                {visibleCategories.map((category) => (
                   <SelectItem key={category.id} value={category.id}>
                     <div className="flex items-center">
                       <div className="w-3 h-3 rounded-full mr-2" style={{ backgroundColor: category.color }}></div>
-                      {category.name}
+                      {getCategoryLabel(category.id)}
                     </div>
                   </SelectItem>
                 ))}
@@ -178,7 +344,8 @@ export default function ExpenseInputForm({ currentTheme, onExpenseAdded, playMon
           </div>
 
           <Button
-            onClick={handleAddExpense}
+            onClick={() => handleAddExpense()}
+            disabled={isAdding}
             className={`rounded-xl ${currentTheme.button} text-white transition-all ${isAdding ? "scale-95" : ""}`}
           >
             <PlusCircle className="w-5 h-5 mr-1" />
@@ -186,6 +353,66 @@ export default function ExpenseInputForm({ currentTheme, onExpenseAdded, playMon
           </Button>
         </div>
 
+        {duplicates.length > 0 && (
+          <div className="rounded-xl border border-amber-200 bg-amber-50 p-3 space-y-2">
+            <div className="flex items-start gap-2 text-sm text-amber-800">
+              <AlertCircle className="w-4 h-4 mt-0.5 shrink-0" />
+              <div className="min-w-0">
+                <p className="font-medium">This looks like a transaction you already added</p>
+                {duplicates.slice(0, 3).map((duplicate) => (
+                  <p key={duplicate.id} className="text-xs truncate">
+                    {[
+                      duplicate.amount.toFixed(2),
+                      getCategoryLabel(duplicate.category),
+                      duplicate.note,
+                      isSameDay(duplicate.timestamp, Date.now())
+                        ? formatTime(duplicate.timestamp)
+                        : `${formatDate(duplicate.timestamp)} ${formatTime(duplicate.timestamp)}`,
+                    ]
+                      .filter(Boolean)
+                      .join(" · ")}
+                  </p>
+                ))}
+              </div>
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="ghost" size="sm" onClick={() => setDuplicates([])}>
+                Cancel
+              </Button>
+              <Button
+                size="sm"
+                onClick={() => handleAddExpense(true)}
+                disabled={isAdding}
+                className={`rounded-xl ${currentTheme.button} text-white`}
+              >
+                Add anyway
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {isSuggested && (quickAdd.note || note.trim()) && (
+          <p className="text-xs text-gray-400 -mt-1">
+            {getCategoryLabel(formCategory)} suggested from your history ({Math.round(suggestion!.confidence * 100)}%)
+          </p>
+        )}
+
+        {accounts.length > 0 && (
+          <Select value={selectedAccount} onValueChange={setSelectedAccount}>
+            <SelectTrigger className={`rounded-xl ${currentTheme.input.background} ${currentTheme.input.border}`}>
+              <SelectValue placeholder="Account" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_ACCOUNT}>No account</SelectItem>
+              {accounts.map((account) => (
+                <SelectItem key={account.id} value={account.id}>
+                  {account.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+
         <div className="flex justify-between items-center">
           <Input
             type="text"
@@ -197,10 +424,12 @@ export default function ExpenseInputForm({ currentTheme, onExpenseAdded, playMon
             } ${currentTheme.input.focus} ${currentTheme.input.text} ${currentTheme.input.placeholder}`}
           />
 
-          <div className="ml-2">
+          <div className="ml-2 flex gap-2">
+            <ExpenseDatePicker value={expenseTimestamp} onChange={setExpenseTimestamp} currentTheme={currentTheme} />
             <AddCategoryDialog
               onCategoryAdded={handleCategoryAdded}
               currentTheme={currentTheme}
+              kind={transactionType}
               trigger={
                 <Button variant="outline" size="sm" className="h-10 rounded-xl">
                   <PlusCircle className="w-4 h-4 mr-1" />
@@ -210,6 +439,8 @@ export default function ExpenseInputForm({ currentTheme, onExpenseAdded, playMon
             />
           </div>
         </div>
+
+        <TagInput value={tags} onChange={setTags} suggestions={knownTags} currentTheme={currentTheme} />
       </div>
 
       {error && <p className="text-red-500 text-sm mt-2 animate-pulse">{error}</p>}
@@ -0,0 +1,604 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Skeleton } from "@/components/ui/skeleton"
+import { toast } from "sonner"
+import { Edit, PlusCircle, Repeat, SkipForward, Trash2, Undo2 } from "lucide-react"
+import {
+  deleteRecurringRule,
+  getAccounts,
+  getRecurringRules,
+  materializeRecurringRules,
+  saveRecurringRule,
+} from "@/utils/db"
+import { formatCurrency } from "@/utils/format-utils"
+import { combineDateAndTime, formatDate, parseDateInputValue, toTimeInputValue } from "@/utils/date-utils"
+import { INCOME_CATEGORIES } from "@/utils/categories"
+import {
+  type Occurrence,
+  WEEK_NAMES,
+  WEEKDAY_NAMES,
+  describeRecurrence,
+  getNextOccurrences,
+  getNthWeekdayOfDate,
+  getUpcomingOccurrences,
+  setOccurrenceOverride,
+  toggleOccurrenceSkip,
+} from "@/utils/recurrence"
+import { logUserActivity } from "@/utils/vercel-analytics"
+import { useCategories } from "./category-provider"
+import type { Account, CategoryKind, RecurrenceFrequency, RecurringRule } from "@/utils/models"
+
+const NO_ACCOUNT = "none"
+
+// How far ahead the upcoming bills list looks
+const UPCOMING_DAYS = 30
+
+const FREQUENCIES: Record<RecurrenceFrequency, string> = {
+  daily: "Daily",
+  weekly: "Weekly",
+  monthly: "Monthly",
+  yearly: "Yearly",
+}
+
+interface RecurringBillsProps {
+  currentTheme: any
+  currentCurrency: string
+  onTransactionsChanged: () => void
+}
+
+export default function RecurringBills({ currentTheme, currentCurrency, onTransactionsChanged }: RecurringBillsProps) {
+  const [rules, setRules] = useState<RecurringRule[]>([])
+  const { getCategoryLabel, getCategoriesByKind } = useCategories()
+  const [accounts, setAccounts] = useState<Account[]>([])
+  const [loading, setLoading] = useState<boolean>(true)
+
+  // Rule form state
+  const [isRuleDialogOpen, setIsRuleDialogOpen] = useState(false)
+  const [editingRule, setEditingRule] = useState<RecurringRule | null>(null)
+  const [name, setName] = useState("")
+  const [type, setType] = useState<CategoryKind>("expense")
+  const [amount, setAmount] = useState("")
+  const [category, setCategory] = useState("utilities")
+  const [accountId, setAccountId] = useState(NO_ACCOUNT)
+  const [frequency, setFrequency] = useState<RecurrenceFrequency>("monthly")
+  const [repeatInterval, setRepeatInterval] = useState("1")
+  const [useNthWeekday, setUseNthWeekday] = useState(false)
+  const [startDate, setStartDate] = useState(formatDate(Date.now()))
+  const [endDate, setEndDate] = useState("")
+  const [ruleError, setRuleError] = useState("")
+
+  // Single occurrence form state
+  const [editingOccurrence, setEditingOccurrence] = useState<Occurrence | null>(null)
+  const [occurrenceAmount, setOccurrenceAmount] = useState("")
+  const [occurrenceNote, setOccurrenceNote] = useState("")
+
+  const visibleCategories = getCategoriesByKind(type)
+
+  useEffect(() => {
+    loadData()
+  }, [])
+
+  const loadData = async () => {
+    try {
+      setLoading(true)
+      const [savedRules, savedAccounts] = await Promise.all([getRecurringRules(), getAccounts()])
+
+      setRules(savedRules)
+      setAccounts(savedAccounts)
+    } catch (error) {
+      console.error("Error loading recurring rules:", error)
+      toast.error("Failed to load recurring bills")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const resetRuleForm = () => {
+    setEditingRule(null)
+    setName("")
+    setType("expense")
+    setAmount("")
+    setCategory("utilities")
+    setAccountId(NO_ACCOUNT)
+    setFrequency("monthly")
+    setRepeatInterval("1")
+    setUseNthWeekday(false)
+    setStartDate(formatDate(Date.now()))
+    setEndDate("")
+    setRuleError("")
+  }
+
+  const handleEditRule = (rule: RecurringRule) => {
+    setEditingRule(rule)
+    setName(rule.name)
+    setType(rule.type)
+    setAmount(rule.amount.toString())
+    setCategory(rule.category)
+    setAccountId(rule.accountId ?? NO_ACCOUNT)
+    setFrequency(rule.frequency)
+    setRepeatInterval(rule.interval.toString())
+    setUseNthWeekday(rule.nthWeekday !== undefined)
+    setStartDate(formatDate(rule.startDate))
+    setEndDate(rule.endDate !== undefined ? formatDate(rule.endDate) : "")
+    setRuleError("")
+    setIsRuleDialogOpen(true)
+  }
+
+  const handleTypeChange = (value: CategoryKind) => {
+    setType(value)
+    setCategory(value === "income" ? INCOME_CATEGORIES[0].id : "utilities")
+  }
+
+  // Add any occurrences that are already due (e.g. a rule starting today) and refresh the app
+  const catchUp = async () => {
+    const added = await materializeRecurringRules()
+    if (added > 0) {
+      onTransactionsChanged()
+    }
+    return added
+  }
+
+  const handleSaveRule = async () => {
+    const amountValue = Number.parseFloat(amount)
+    const intervalValue = Number.parseInt(repeatInterval, 10)
+
+    if (!name.trim()) {
+      setRuleError("Please enter a name")
+      return
+    }
+
+    if (isNaN(amountValue) || amountValue <= 0) {
+      setRuleError("Please enter a valid amount")
+      return
+    }
+
+    if (isNaN(intervalValue) || intervalValue < 1) {
+      setRuleError("Repeat interval must be at least 1")
+      return
+    }
+
+    if (!startDate) {
+      setRuleError("Please choose a start date")
+      return
+    }
+
+    // Keep the rule's time of day when editing, new rules use the current time
+    const time = toTimeInputValue(editingRule?.startDate ?? Date.now())
+    const startTimestamp = combineDateAndTime(parseDateInputValue(startDate), time)
+    const endTimestamp = endDate ? parseDateInputValue(endDate).getTime() : undefined
+
+    if (endTimestamp !== undefined && endTimestamp < parseDateInputValue(startDate).getTime()) {
+      setRuleError("End date must be after the start date")
+      return
+    }
+
+    setRuleError("")
+
+    try {
+      const rule: RecurringRule = {
+        id: editingRule?.id ?? crypto.randomUUID(),
+        name: name.trim(),
+        type,
+        amount: amountValue,
+        category,
+        accountId: accountId === NO_ACCOUNT ? undefined : accountId,
+        frequency,
+        interval: intervalValue,
+        nthWeekday: frequency === "monthly" && useNthWeekday ? getNthWeekdayOfDate(startTimestamp) : undefined,
+        startDate: startTimestamp,
+        endDate: endTimestamp,
+        // Occurrences already turned into transactions are never generated again
+        materializedUntil: editingRule?.materializedUntil,
+        overrides: editingRule?.overrides ?? {},
+        createdAt: editingRule?.createdAt ?? Date.now(),
+        updatedAt: Date.now(),
+      }
+
+      await saveRecurringRule(rule)
+      logUserActivity(editingRule ? "recurring_rule_updated" : "recurring_rule_created")
+
+      const added = await catchUp()
+
+      resetRuleForm()
+      setIsRuleDialogOpen(false)
+      await loadData()
+
+      toast.success(editingRule ? "Recurring bill updated" : "Recurring bill created", {
+        description: added > 0 ? `${added} transaction${added === 1 ? "" : "s"} added` : undefined,
+      })
+    } catch (error) {
+      console.error("Error saving recurring rule:", error)
+      toast.error("Failed to save recurring bill")
+    }
+  }
+
+  const handleDeleteRule = async (rule: RecurringRule) => {
+    if (confirm(`Stop repeating ${rule.name}? Transactions already added are kept.`)) {
+      try {
+        await deleteRecurringRule(rule.id)
+        await loadData()
+        toast.success("Recurring bill deleted")
+      } catch (error) {
+        console.error("Error deleting recurring rule:", error)
+        toast.error("Failed to delete recurring bill")
+      }
+    }
+  }
+
+  // Save a change to a single occurrence
+  const updateOccurrence = async (updatedRule: RecurringRule) => {
+    await saveRecurringRule(updatedRule)
+    setRules((prev) => prev.map((rule) => (rule.id === updatedRule.id ? updatedRule : rule)))
+  }
+
+  const handleToggleSkip = async (occurrence: Occurrence) => {
+    try {
+      await updateOccurrence(toggleOccurrenceSkip(occurrence.rule, occurrence.scheduledAt))
+      toast.success(occurrence.skipped ? "Occurrence restored" : "Occurrence skipped")
+    } catch (error) {
+      console.error("Error skipping occurrence:", error)
+      toast.error("Failed to update occurrence")
+    }
+  }
+
+  const handleEditOccurrence = (occurrence: Occurrence) => {
+    setEditingOccurrence(occurrence)
+    setOccurrenceAmount(occurrence.amount.toString())
+    setOccurrenceNote(occurrence.note ?? "")
+  }
+
+  const handleSaveOccurrence = async (reset: boolean) => {
+    if (!editingOccurrence) return
+
+    const amountValue = Number.parseFloat(occurrenceAmount)
+    if (!reset && (isNaN(amountValue) || amountValue <= 0)) {
+      toast.error("Please enter a valid amount")
+      return
+    }
+
+    try {
+      const { rule, scheduledAt } = editingOccurrence
+      await updateOccurrence(
+        setOccurrenceOverride(
+          rule,
+          scheduledAt,
+          reset ? null : { amount: amountValue, note: occurrenceNote.trim() || undefined },
+        ),
+      )
+      setEditingOccurrence(null)
+      toast.success(reset ? "Occurrence reset" : "Occurrence updated")
+    } catch (error) {
+      console.error("Error editing occurrence:", error)
+      toast.error("Failed to update occurrence")
+    }
+  }
+
+  if (loading) {
+    return (
+      <Card className="p-6 space-y-4">
+        <Skeleton className="h-8 w-48" />
+        <Skeleton className="h-6 w-full" />
+        <Skeleton className="h-6 w-full" />
+        <Skeleton className="h-6 w-full" />
+      </Card>
+    )
+  }
+
+  const now = Date.now()
+  const upcoming = getUpcomingOccurrences(rules, now, UPCOMING_DAYS)
+  const startPreview = startDate ? parseDateInputValue(startDate).getTime() : now
+  const { week: previewWeek, weekday: previewWeekday } = getNthWeekdayOfDate(startPreview)
+
+  return (
+    <div className="space-y-4">
+      <Card className={`${currentTheme.card} rounded-[24px]`}>
+        <CardHeader className="flex flex-row items-center justify-between pb-2">
+          <CardTitle className={`text-lg font-semibold ${currentTheme.text.primary}`}>Recurring</CardTitle>
+          <Button
+            onClick={() => {
+              resetRuleForm()
+              setIsRuleDialogOpen(true)
+            }}
+            className={`rounded-full ${currentTheme.button} text-white`}
+            size="sm"
+          >
+            <PlusCircle className="w-4 h-4 mr-1" />
+            Add Recurring
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {rules.length === 0 ? (
+            <div className="text-center py-12 text-gray-500">
+              <p>No recurring bills yet</p>
+              <p className="text-sm mt-2">Add rent, phone bills or subscriptions once and they are recorded for you</p>
+            </div>
+          ) : (
+            <div className="space-y-3 max-h-[400px] overflow-y-auto pr-2">
+              {rules.map((rule) => {
+                const { value, suffix } = formatCurrency(rule.amount, 2, currentCurrency)
+                const [next] = getNextOccurrences(rule, Math.max(now, rule.materializedUntil ?? 0), 1)
+
+                return (
+                  <div key={rule.id} className="flex items-center justify-between p-2 hover:bg-gray-50 rounded-lg">
+                    <div className="flex items-center min-w-0">
+                      <div className="w-10 h-10 flex items-center justify-center rounded-full mr-3 bg-gray-100 shrink-0">
+                        <Repeat className="w-5 h-5 text-gray-600" />
+                      </div>
+                      <div className="min-w-0">
+                        <p className={`font-medium truncate ${currentTheme.text.secondary}`}>{rule.name}</p>
+                        <p className="text-xs text-gray-400">
+                          {describeRecurrence(rule)} · {getCategoryLabel(rule.category)}
+                        </p>
+                        <p className="text-xs text-gray-400">{next ? `Next: ${formatDate(next)}` : "Ended"}</p>
+                      </div>
+                    </div>
+                    <div className="flex items-center">
+                      <p className={`font-semibold mr-3 ${rule.type === "income" ? "text-green-600" : ""}`}>
+                        {rule.type === "income" ? "+" : ""}
+                        {value}
+                        {suffix && <span className="text-xs ml-1">{suffix}</span>}
+                      </p>
+                      <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => handleEditRule(rule)}>
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-8 w-8 p-0 text-red-500 hover:text-red-700"
+                        onClick={() => handleDeleteRule(rule)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                )
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {rules.length > 0 && (
+        <Card className={`${currentTheme.card} rounded-[24px]`}>
+          <CardHeader className="pb-2">
+            <CardTitle className={`text-lg font-semibold ${currentTheme.text.primary}`}>Upcoming Bills</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {upcoming.length === 0 ? (
+              <p className="text-center py-6 text-gray-500">Nothing due in the next {UPCOMING_DAYS} days</p>
+            ) : (
+              <div className="space-y-2 max-h-[400px] overflow-y-auto pr-2">
+                {upcoming.map((occurrence) => {
+                  const { value, suffix } = formatCurrency(occurrence.amount, 2, currentCurrency)
+
+                  return (
+                    <div
+                      key={`${occurrence.rule.id}:${occurrence.scheduledAt}`}
+                      className="flex items-center justify-between p-2 hover:bg-gray-50 rounded-lg"
+                    >
+                      <div className={occurrence.skipped ? "line-through text-gray-400" : ""}>
+                        <p className="font-medium">{occurrence.rule.name}</p>
+                        <p className="text-xs text-gray-400">
+                          {formatDate(occurrence.scheduledAt)}
+                          {occurrence.edited && " · edited"}
+                          {occurrence.skipped && " · skipped"}
+                        </p>
+                      </div>
+                      <div className="flex items-center">
+                        <p className={`font-semibold mr-3 ${occurrence.skipped ? "line-through text-gray-400" : ""}`}>
+                          {value}
+                          {suffix && <span className="text-xs ml-1">{suffix}</span>}
+                        </p>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-8 w-8 p-0"
+                          onClick={() => handleEditOccurrence(occurrence)}
+                          disabled={occurrence.skipped}
+                          aria-label="Edit this occurrence"
+                        >
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-8 w-8 p-0"
+                          onClick={() => handleToggleSkip(occurrence)}
+                          aria-label={occurrence.skipped ? "Restore this occurrence" : "Skip this occurrence"}
+                        >
+                          {occurrence.skipped ? <Undo2 className="h-4 w-4" /> : <SkipForward className="h-4 w-4" />}
+                        </Button>
+                      </div>
+                    </div>
+                  )
+                })}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Add / edit rule dialog */}
+      <Dialog open={isRuleDialogOpen} onOpenChange={setIsRuleDialogOpen}>
+        <DialogContent className="sm:max-w-[425px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingRule ? "Edit Recurring" : "Add Recurring"}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="flex gap-1 p-1 bg-gray-100 rounded-xl">
+              {(["expense", "income"] as CategoryKind[]).map((value) => (
+                <button
+                  key={value}
+                  type="button"
+                  onClick={() => handleTypeChange(value)}
+                  className={`flex-1 rounded-lg py-1.5 text-sm font-medium transition-colors ${
+                    type === value ? "bg-white shadow-sm text-gray-900" : "text-gray-500 hover:text-gray-700"
+                  }`}
+                >
+                  {value === "expense" ? "Bill" : "Income"}
+                </button>
+              ))}
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Name</label>
+              <Input
+                type="text"
+                placeholder="e.g. Rent, Netflix, Phone"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Amount</label>
+                <Input type="number" placeholder="0.00" value={amount} onChange={(e) => setAmount(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Category</label>
+                <Select value={category} onValueChange={setCategory}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Category" />
+                  </SelectTrigger>
+                  <SelectContent className="max-h-[200px] overflow-y-auto">
+                    {visibleCategories.map((cat) => (
+                      <SelectItem key={cat.id} value={cat.id}>
+                        <div className="flex items-center">
+                          <div className="w-3 h-3 rounded-full mr-2" style={{ backgroundColor: cat.color }}></div>
+                          {getCategoryLabel(cat.id)}
+                        </div>
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            {accounts.length > 0 && (
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Account</label>
+                <Select value={accountId} onValueChange={setAccountId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Account" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_ACCOUNT}>No account</SelectItem>
+                    {accounts.map((account) => (
+                      <SelectItem key={account.id} value={account.id}>
+                        {account.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Repeats</label>
+                <Select value={frequency} onValueChange={(value) => setFrequency(value as RecurrenceFrequency)}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Frequency" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(FREQUENCIES).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Every</label>
+                <Input
+                  type="number"
+                  min={1}
+                  value={repeatInterval}
+                  onChange={(e) => setRepeatInterval(e.target.value)}
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Starts</label>
+                <Input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Ends (optional)</label>
+                <Input type="date" value={endDate} min={startDate} onChange={(e) => setEndDate(e.target.value)} />
+              </div>
+            </div>
+            {frequency === "monthly" && (
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Repeat on</label>
+                <Select
+                  value={useNthWeekday ? "weekday" : "date"}
+                  onValueChange={(value) => setUseNthWeekday(value === "weekday")}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="date">Day {new Date(startPreview).getDate()} of the month</SelectItem>
+                    <SelectItem value="weekday">
+                      The {WEEK_NAMES[String(previewWeek)]} {WEEKDAY_NAMES[previewWeekday]}
+                    </SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            {ruleError && <p className="text-red-500 text-sm">{ruleError}</p>}
+            <div className="flex justify-end space-x-2 pt-4">
+              <Button variant="outline" onClick={() => setIsRuleDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button onClick={handleSaveRule}>Save</Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* Edit a single occurrence */}
+      <Dialog open={editingOccurrence !== null} onOpenChange={(open) => !open && setEditingOccurrence(null)}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>
+              {editingOccurrence?.rule.name} on {editingOccurrence && formatDate(editingOccurrence.scheduledAt)}
+            </DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <p className="text-sm text-gray-500">Changes only apply to this occurrence.</p>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Amount</label>
+              <Input type="number" value={occurrenceAmount} onChange={(e) => setOccurrenceAmount(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Note</label>
+              <Input
+                type="text"
+                placeholder="Note (optional)"
+                value={occurrenceNote}
+                onChange={(e) => setOccurrenceNote(e.target.value)}
+              />
+            </div>
+            <div className="flex justify-end space-x-2 pt-4">
+              {editingOccurrence?.edited && (
+                <Button variant="outline" onClick={() => handleSaveOccurrence(true)}>
+                  Reset
+                </Button>
+              )}
+              <Button variant="outline" onClick={() => setEditingOccurrence(null)}>
+                Cancel
+              </Button>
+              <Button onClick={() => handleSaveOccurrence(false)}>Save</Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
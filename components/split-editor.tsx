@@ -0,0 +1,92 @@
+"use client"
+
+import { Input } from "@/components/ui/input"
+import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { PlusCircle, X } from "lucide-react"
+import type { Category } from "@/utils/models"
+import { useCategories } from "./category-provider"
+
+// A split as edited in the form, with the amount kept as typed
+export interface SplitDraft {
+  category: string
+  amount: string
+}
+
+interface SplitEditorProps {
+  splits: SplitDraft[]
+  onChange: (splits: SplitDraft[]) => void
+  total: number
+  categories: Category[]
+  currentTheme: any
+}
+
+// Rows of category and amount that together make up a transaction's total
+export default function SplitEditor({ splits, onChange, total, categories, currentTheme }: SplitEditorProps) {
+  const { getCategoryLabel } = useCategories()
+
+  const assigned = splits.reduce((sum, split) => sum + (Number.parseFloat(split.amount) || 0), 0)
+  const remaining = total - assigned
+
+  const updateSplit = (index: number, changes: Partial<SplitDraft>) => {
+    onChange(splits.map((split, i) => (i === index ? { ...split, ...changes } : split)))
+  }
+
+  // New splits start with whatever is left of the total
+  const addSplit = () => {
+    onChange([...splits, { category: "", amount: remaining > 0 ? remaining.toFixed(2) : "" }])
+  }
+
+  return (
+    <div className="space-y-2">
+      {splits.map((split, index) => (
+        <div key={index} className="flex gap-2 items-center">
+          <Select value={split.category} onValueChange={(value) => updateSplit(index, { category: value })}>
+            <SelectTrigger className={`rounded-xl flex-1 ${currentTheme.input.background} ${currentTheme.input.border}`}>
+              <SelectValue placeholder="Category" />
+            </SelectTrigger>
+            <SelectContent className="max-h-[200px] overflow-y-auto">
+              {categories.map((cat) => (
+                <SelectItem key={cat.id} value={cat.id}>
+                  <div className="flex items-center">
+                    <div className="w-3 h-3 rounded-full mr-2" style={{ backgroundColor: cat.color }}></div>
+                    {getCategoryLabel(cat.id)}
+                  </div>
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            type="number"
+            placeholder="0.00"
+            value={split.amount}
+            onChange={(e) => updateSplit(index, { amount: e.target.value })}
+            className={`rounded-xl w-28 ${currentTheme.input.background} ${currentTheme.input.border}`}
+          />
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-8 w-8 p-0 shrink-0"
+            onClick={() => onChange(splits.filter((_, i) => i !== index))}
+            aria-label="Remove split"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      <div className="flex justify-between items-center">
+        <Button variant="outline" size="sm" onClick={addSplit} className="rounded-xl">
+          <PlusCircle className="h-4 w-4 mr-1" />
+          Add split
+        </Button>
+        <p className={`text-xs ${Math.abs(remaining) < 0.005 ? "text-green-600" : "text-amber-600"}`}>
+          {Math.abs(remaining) < 0.005
+            ? "Splits match the total"
+            : remaining > 0
+              ? `${remaining.toFixed(2)} left to assign`
+              : `${Math.abs(remaining).toFixed(2)} over the total`}
+        </p>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,60 @@
+"use client"
+
+import { Input } from "@/components/ui/input"
+import { formatTag, normalizeTag, parseTags } from "@/utils/tags"
+
+// Number of existing tags suggested below the input
+const MAX_SUGGESTIONS = 6
+
+interface TagInputProps {
+  value: string
+  onChange: (value: string) => void
+  suggestions: string[] // Tags already in use
+  currentTheme: any
+}
+
+// Free text tag entry ("#vacation-2026 #work") with suggestions from tags already in use
+export default function TagInput({ value, onChange, suggestions, currentTheme }: TagInputProps) {
+  const enteredTags = parseTags(value)
+
+  // Complete the tag being typed, or offer any unused tag when starting a new one
+  const partial = /[\s,]$/.test(value) ? "" : (value.split(/[\s,]+/).pop() ?? "")
+  const typing = normalizeTag(partial)
+  const matches = suggestions
+    .filter((tag) => tag.startsWith(typing) && !enteredTags.includes(tag))
+    .slice(0, MAX_SUGGESTIONS)
+
+  const handleSuggestionClick = (tag: string) => {
+    const withoutPartial = value.slice(0, value.length - partial.length)
+    const separator = withoutPartial && !/[\s,]$/.test(withoutPartial) ? " " : ""
+    onChange(`${withoutPartial}${separator}${formatTag(tag)} `)
+  }
+
+  return (
+    <div className="space-y-1">
+      <Input
+        type="text"
+        placeholder="Tags, e.g. #vacation-2026 #work"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className={`rounded-xl ${currentTheme.input.background} ${
+          currentTheme.input.border
+        } ${currentTheme.input.focus} ${currentTheme.input.text} ${currentTheme.input.placeholder}`}
+      />
+      {matches.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {matches.map((tag) => (
+            <button
+              key={tag}
+              type="button"
+              onClick={() => handleSuggestionClick(tag)}
+              className="text-xs px-2 py-0.5 rounded-full bg-gray-100 text-gray-600 hover:bg-gray-200"
+            >
+              {formatTag(tag)}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
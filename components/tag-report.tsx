@@ -0,0 +1,88 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Card } from "@/components/ui/card"
+import { Skeleton } from "@/components/ui/skeleton"
+import { getExpenses } from "@/utils/db"
+import { formatCurrency } from "@/utils/format-utils"
+import { type TagTotal, formatTag, getTagTotals } from "@/utils/tags"
+
+interface TagReportProps {
+  currentTheme: any
+  currentCurrency: string
+}
+
+export default function TagReport({ currentTheme, currentCurrency }: TagReportProps) {
+  const [tagTotals, setTagTotals] = useState<TagTotal[]>([])
+  const [loading, setLoading] = useState<boolean>(true)
+
+  useEffect(() => {
+    async function fetchData() {
+      try {
+        setLoading(true)
+        // Tags like "#vacation-2026" span months, so the report covers every transaction
+        setTagTotals(getTagTotals(await getExpenses()))
+      } catch (error) {
+        console.error("Error fetching tag data:", error)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchData()
+  }, [])
+
+  const maxSpent = Math.max(...tagTotals.map((total) => total.spent), 0)
+
+  if (loading) {
+    return (
+      <Card className="p-6 space-y-4">
+        <Skeleton className="h-8 w-48" />
+        <Skeleton className="h-6 w-full" />
+        <Skeleton className="h-6 w-full" />
+      </Card>
+    )
+  }
+
+  return (
+    <Card className="p-4 md:p-6 lg:p-8 w-full">
+      <h2 className={`text-xl font-bold mb-6 ${currentTheme.text.primary}`}>Spending by Tag</h2>
+
+      {tagTotals.length > 0 ? (
+        <div className="space-y-4">
+          {tagTotals.map((total) => (
+            <div key={total.tag} className="space-y-1 p-2">
+              <div className="flex justify-between items-center">
+                <div>
+                  <span className="text-sm font-medium">{formatTag(total.tag)}</span>
+                  <span className="text-xs text-gray-400 ml-2">
+                    {total.count} transaction{total.count === 1 ? "" : "s"}
+                  </span>
+                </div>
+                <div className="text-sm text-right">
+                  {formatCurrency(total.spent, 2, currentCurrency).value}
+                  {total.income > 0 && (
+                    <span className="text-xs text-green-600 ml-2">
+                      +{formatCurrency(total.income, 2, currentCurrency).value}
+                    </span>
+                  )}
+                </div>
+              </div>
+              <div className="w-full bg-gray-200 rounded-full h-2">
+                <div
+                  className={`${currentTheme.button} h-2 rounded-full`}
+                  style={{ width: `${maxSpent > 0 ? (total.spent / maxSpent) * 100 : 0}%` }}
+                ></div>
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="text-center py-12 text-gray-500">
+          <p>No tagged transactions yet</p>
+          <p className="text-sm mt-2">Add tags like #vacation-2026 to transactions to see them here</p>
+        </div>
+      )}
+    </Card>
+  )
+}
@@ -0,0 +1,205 @@
+"use client"
+
+import { useState } from "react"
+import { Input } from "@/components/ui/input"
+import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Search, SlidersHorizontal, X } from "lucide-react"
+import { sortCategoriesByParent } from "@/utils/categories"
+import { formatTag } from "@/utils/tags"
+import {
+  DEFAULT_FILTERS,
+  TRANSACTION_SORTS,
+  type TransactionFilters,
+  type TransactionSort,
+  isFiltered,
+} from "@/utils/transaction-filters"
+import { useCategories } from "./category-provider"
+
+interface TransactionFilterBarProps {
+  filters: TransactionFilters
+  onChange: (filters: TransactionFilters) => void
+  tags: string[] // Tags in use, offered as filters
+  currentTheme: any
+}
+
+// Parse an optional amount input, empty meaning no limit
+const parseAmountInput = (value: string): number | null => {
+  const amount = Number.parseFloat(value)
+  return value === "" || isNaN(amount) ? null : amount
+}
+
+// Search box, sort order and a panel of filters for the transaction list
+export default function TransactionFilterBar({ filters, onChange, tags, currentTheme }: TransactionFilterBarProps) {
+  const [showFilters, setShowFilters] = useState(false)
+  const { categories, getCategoryLabel } = useCategories()
+
+  const update = (changes: Partial<TransactionFilters>) => onChange({ ...filters, ...changes })
+
+  const toggle = (list: string[], value: string) =>
+    list.includes(value) ? list.filter((item) => item !== value) : [...list, value]
+
+  // Search and sort are always visible, so only the panel's filters are counted
+  const activeCount =
+    filters.categories.length +
+    filters.tags.length +
+    (filters.minAmount !== null || filters.maxAmount !== null ? 1 : 0) +
+    (filters.startDate !== null || filters.endDate !== null ? 1 : 0)
+
+  const inputClassName = `rounded-xl ${currentTheme.input.background} ${currentTheme.input.border}`
+
+  return (
+    <div className="space-y-3 mb-4">
+      <div className="flex gap-2">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+          <Input
+            type="search"
+            placeholder="Search notes"
+            value={filters.search}
+            onChange={(e) => update({ search: e.target.value })}
+            className={`pl-9 ${inputClassName}`}
+          />
+        </div>
+        <Select value={filters.sort} onValueChange={(value) => update({ sort: value as TransactionSort })}>
+          <SelectTrigger className={`w-[140px] ${inputClassName}`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(TRANSACTION_SORTS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          variant="outline"
+          className="rounded-xl px-3"
+          onClick={() => setShowFilters(!showFilters)}
+          aria-label="Filters"
+          aria-expanded={showFilters}
+        >
+          <SlidersHorizontal className="h-4 w-4" />
+          {activeCount > 0 && <span className="ml-1 text-xs">{activeCount}</span>}
+        </Button>
+      </div>
+
+      {showFilters && (
+        <div className="space-y-3 p-3 rounded-xl bg-gray-50">
+          <div className="space-y-2">
+            <label className="text-xs font-medium text-gray-500">Categories</label>
+            <Select value="" onValueChange={(value) => update({ categories: toggle(filters.categories, value) })}>
+              <SelectTrigger className={inputClassName}>
+                <SelectValue placeholder="Add a category" />
+              </SelectTrigger>
+              <SelectContent className="max-h-[200px] overflow-y-auto">
+                {sortCategoriesByParent(categories)
+                  .filter((category) => !filters.categories.includes(category.id))
+                  .map((category) => (
+                    <SelectItem key={category.id} value={category.id}>
+                      <div className="flex items-center">
+                        <div className="w-3 h-3 rounded-full mr-2" style={{ backgroundColor: category.color }}></div>
+                        {getCategoryLabel(category.id)}
+                      </div>
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+            {filters.categories.length > 0 && (
+              <div className="flex flex-wrap gap-1">
+                {filters.categories.map((id) => (
+                  <button
+                    key={id}
+                    type="button"
+                    onClick={() => update({ categories: toggle(filters.categories, id) })}
+                    className="flex items-center text-xs px-2 py-0.5 rounded-full bg-white border text-gray-600"
+                  >
+                    {getCategoryLabel(id)}
+                    <X className="h-3 w-3 ml-1" />
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-2">
+              <label className="text-xs font-medium text-gray-500">Min amount</label>
+              <Input
+                type="number"
+                placeholder="Any"
+                value={filters.minAmount ?? ""}
+                onChange={(e) => update({ minAmount: parseAmountInput(e.target.value) })}
+                className={inputClassName}
+              />
+            </div>
+            <div className="space-y-2">
+              <label className="text-xs font-medium text-gray-500">Max amount</label>
+              <Input
+                type="number"
+                placeholder="Any"
+                value={filters.maxAmount ?? ""}
+                onChange={(e) => update({ maxAmount: parseAmountInput(e.target.value) })}
+                className={inputClassName}
+              />
+            </div>
+            <div className="space-y-2">
+              <label className="text-xs font-medium text-gray-500">From</label>
+              <Input
+                type="date"
+                value={filters.startDate ?? ""}
+                max={filters.endDate ?? undefined}
+                onChange={(e) => update({ startDate: e.target.value || null })}
+                className={inputClassName}
+              />
+            </div>
+            <div className="space-y-2">
+              <label className="text-xs font-medium text-gray-500">To</label>
+              <Input
+                type="date"
+                value={filters.endDate ?? ""}
+                min={filters.startDate ?? undefined}
+                onChange={(e) => update({ endDate: e.target.value || null })}
+                className={inputClassName}
+              />
+            </div>
+          </div>
+
+          {tags.length > 0 && (
+            <div className="space-y-2">
+              <label className="text-xs font-medium text-gray-500">Tags</label>
+              <div className="flex flex-wrap gap-1">
+                {tags.map((tag) => (
+                  <button
+                    key={tag}
+                    type="button"
+                    onClick={() => update({ tags: toggle(filters.tags, tag) })}
+                    className={`text-xs px-2.5 py-1 rounded-full whitespace-nowrap transition-colors ${
+                      filters.tags.includes(tag)
+                        ? `${currentTheme.button} text-white`
+                        : "bg-white border text-gray-600 hover:bg-gray-100"
+                    }`}
+                  >
+                    {formatTag(tag)}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {isFiltered(filters) && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onChange({ ...DEFAULT_FILTERS, sort: filters.sort })}
+              className="text-gray-500"
+            >
+              Clear filters
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,236 +1,572 @@
 "use client"
 
-import { useEffect, useState } from "react"
+import { useCallback, useEffect, useMemo, useRef, useState } from "react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
-import { getExpenses, deleteExpense, getCustomCategories } from "@/utils/db"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import {
+  type ExpenseCursor,
+  type ExpenseSummary,
+  getExpenses,
+  getExpensesPage,
+  summarizeExpenses,
+  deleteExpense,
+  deleteExpenses,
+  updateExpenses,
+  restoreTrashEntry,
+  getAccounts,
+  getAllTags,
+  getSetting,
+  saveSetting,
+} from "@/utils/db"
 import { formatDate, formatTime } from "@/utils/date-utils"
 import { formatCurrency } from "@/utils/format-utils"
-import { Trash2 } from "lucide-react"
+import type { Account, Expense } from "@/utils/models"
+import { FALLBACK_ICON } from "@/utils/categories"
+import { formatTag } from "@/utils/tags"
+import { isSplit } from "@/utils/splits"
+import { addTagsToExpenses, recategorizeExpenses, selectRange } from "@/utils/bulk-actions"
+import { downloadCSV, formatExpensesAsCSV } from "@/utils/export-utils"
+import { toastWithUndo } from "@/utils/undo"
+import {
+  DEFAULT_FILTERS,
+  FILTERS_SETTING,
+  type TransactionFilters,
+  filterTransactions,
+  getFiltersQuery,
+  isFiltered,
+  parseFilters,
+} from "@/utils/transaction-filters"
+import { Pencil, Trash2 } from "lucide-react"
 import { toast } from "sonner"
+import EditExpenseDrawer from "./edit-expense-drawer"
+import TransactionFilterBar from "./transaction-filter-bar"
+import BulkActionBar from "./bulk-action-bar"
+import VirtualList from "./virtual-list"
+import { useCategories } from "./category-provider"
 
-// Default categories with icons and colors
-const DEFAULT_CATEGORIES: Record<string, { icon: string; color: string }> = {
-  food: { icon: "🍔", color: "#4ade80" },
-  transport: { icon: "🚗", color: "#60a5fa" },
-  shopping: { icon: "🛍️", color: "#f472b6" },
-  entertainment: { icon: "🎬", color: "#a78bfa" },
-  utilities: { icon: "📱", color: "#fbbf24" },
-  health: { icon: "💊", color: "#34d399" },
-  other: { icon: "📦", color: "#94a3b8" },
-}
-
-interface Transaction {
-  id: string
-  amount: number
-  timestamp: number
-  category: string
-  note?: string
-}
+// Transactions loaded at a time while scrolling through the list
+const PAGE_SIZE = 100
 
-interface CategoryInfo {
-  id: string
-  name: string
-  color: string
-  icon?: string
-}
+// Rows of the list: a header starting each day (when sorted by date), then that day's transactions
+type ListItem = { kind: "date"; date: string } | { kind: "transaction"; transaction: Expense; date: string }
 
 export default function TransactionList({
   currentTheme,
   currentCurrency = "$",
   onTransactionDeleted,
+  onTransactionUpdated,
 }: {
   currentTheme: any
   currentCurrency?: string
   onTransactionDeleted: () => void
+  onTransactionUpdated: () => void
 }) {
-  const [transactions, setTransactions] = useState<Transaction[]>([])
+  const [transactions, setTransactions] = useState<Expense[]>([])
+  const [nextPage, setNextPage] = useState<ExpenseCursor | null>(null)
   const [isLoading, setIsLoading] = useState(true)
-  const [categories, setCategories] = useState<CategoryInfo[]>([])
+  const [accounts, setAccounts] = useState<Account[]>([])
+  const [editingTransaction, setEditingTransaction] = useState<Expense | null>(null)
+  const [tags, setTags] = useState<string[]>([])
+  const [filters, setFilters] = useState<TransactionFilters>(DEFAULT_FILTERS)
+  const [filtersLoaded, setFiltersLoaded] = useState(false)
+  const [summary, setSummary] = useState<ExpenseSummary | null>(null) // Totals of every match, not just the loaded ones
+  const loadRequest = useRef(0) // Ignores loads that finish after a newer one started
+  const loadingMore = useRef(false)
+  const [selecting, setSelecting] = useState(false)
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
+  const [bulkBusy, setBulkBusy] = useState(false)
+  const selectionAnchor = useRef<string | null>(null) // Last transaction clicked, where a shift-click range starts
+  const { categories, getCategory, getCategoryLabel } = useCategories()
+
+  const filtered = isFiltered(filters)
+  const byDate = filters.sort === "date-desc" || filters.sort === "date-asc"
+
+  // Transactions load a page at a time, walking the index of the sort order and skipping the ones filtered out
+  const query = useMemo(() => getFiltersQuery(filters, categories), [filters, categories])
 
   useEffect(() => {
-    loadTransactions()
-    loadCategories()
+    getAccounts().then(setAccounts)
+    getAllTags().then(setTags)
+    getSetting<unknown>(FILTERS_SETTING, null).then((saved) => {
+      setFilters(parseFilters(saved))
+      setFiltersLoaded(true)
+    })
   }, [])
 
-  const loadCategories = async () => {
-    try {
-      const customCategories = await getCustomCategories()
-
-      // Create a merged list of default and custom categories
-      const allCategories: CategoryInfo[] = Object.entries(DEFAULT_CATEGORIES).map(([id, info]) => ({
-        id,
-        name: id.charAt(0).toUpperCase() + id.slice(1),
-        color: info.color,
-        icon: info.icon,
-      }))
-
-      // Add custom categories
-      if (customCategories && customCategories.length > 0) {
-        customCategories.forEach((cat) => {
-          if (!allCategories.some((c) => c.id === cat.id)) {
-            allCategories.push({
-              id: cat.id,
-              name: cat.name,
-              color: cat.color,
-              icon: "📦", // Default icon for custom categories
-            })
-          }
-        })
-      }
+  // Remember the active filters, once the saved ones have been restored
+  useEffect(() => {
+    if (filtersLoaded) {
+      saveSetting(FILTERS_SETTING, filters)
+    }
+  }, [filters, filtersLoaded])
 
-      setCategories(allCategories)
-    } catch (error) {
-      console.error("Error loading categories:", error)
+  useEffect(() => {
+    if (filtersLoaded) {
+      loadTransactions()
+    }
+  }, [query, filtersLoaded])
+
+  // Recount the matches whenever the loaded transactions change, as an edit or delete may change them too
+  useEffect(() => {
+    if (!filtersLoaded || !filtered) {
+      setSummary(null)
+      return
     }
-  }
+
+    let cancelled = false
+    summarizeExpenses(query).then((result) => {
+      if (!cancelled) setSummary(result)
+    })
+
+    return () => {
+      cancelled = true
+    }
+  }, [transactions, query, filtersLoaded, filtered])
 
   const loadTransactions = async () => {
+    const request = ++loadRequest.current
+
     try {
       setIsLoading(true)
-      const expenses = await getExpenses()
-
-      // Sort by timestamp (newest first)
-      expenses.sort((a, b) => b.timestamp - a.timestamp)
 
-      setTransactions(expenses)
+      const page = await getExpensesPage(null, PAGE_SIZE, query)
+      if (request !== loadRequest.current) return
+      setTransactions(page.expenses)
+      setNextPage(page.next)
     } catch (error) {
       console.error("Error loading transactions:", error)
       toast.error("Failed to load transactions")
     } finally {
-      setIsLoading(false)
+      if (request === loadRequest.current) {
+        setIsLoading(false)
+      }
     }
   }
 
+  // Load the next page once the end of the list scrolls into view
+  const loadMoreTransactions = async () => {
+    if (!nextPage || loadingMore.current) return
+
+    const request = loadRequest.current
+    loadingMore.current = true
+
+    try {
+      const page = await getExpensesPage(nextPage, PAGE_SIZE, query)
+      if (request !== loadRequest.current) return
+
+      // An edited transaction may have moved onto a later page
+      setTransactions((prev) => {
+        const loaded = new Set(prev.map((t) => t.id))
+        return [...prev, ...page.expenses.filter((t) => !loaded.has(t.id))]
+      })
+      setNextPage(page.next)
+    } catch (error) {
+      console.error("Error loading more transactions:", error)
+      toast.error("Failed to load more transactions")
+    } finally {
+      loadingMore.current = false
+    }
+  }
+
+  // Deleted transactions go to the trash, so the toast can offer to put them back
   const handleDeleteTransaction = async (id: string) => {
-    if (confirm("Are you sure you want to delete this transaction?")) {
-      try {
-        await deleteExpense(id)
-        setTransactions(transactions.filter((t) => t.id !== id))
-        toast.success("Transaction deleted")
-        onTransactionDeleted()
-      } catch (error) {
-        console.error("Error deleting transaction:", error)
-        toast.error("Failed to delete transaction")
-      }
+    try {
+      const trashId = await deleteExpense(id)
+      setTransactions(transactions.filter((t) => t.id !== id))
+      toastWithUndo("Transaction deleted", () => undoDelete(trashId))
+      onTransactionDeleted()
+    } catch (error) {
+      console.error("Error deleting transaction:", error)
+      toast.error("Failed to delete transaction")
     }
   }
 
-  // Get category info (name, icon, color)
-  const getCategoryInfo = (categoryId: string) => {
-    const category = categories.find((c) => c.id === categoryId)
+  const undoDelete = async (trashId: string | null) => {
+    const entry = trashId ? await restoreTrashEntry(trashId) : null
 
-    if (category) {
-      return {
-        name: category.name,
-        icon: category.icon || "📦",
-        color: category.color,
-      }
+    if (entry?.store === "expenses") {
+      const restoredIds = new Set(entry.records.map((t) => t.id))
+      setTransactions((prev) => [...prev.filter((t) => !restoredIds.has(t.id)), ...entry.records])
+    }
+
+    getAllTags().then(setTags)
+    onTransactionUpdated()
+  }
+
+  // Put back the transactions as they were before a bulk change
+  const undoUpdate = async (previous: Expense[]) => {
+    await updateExpenses(previous)
+    replaceTransactions(previous)
+    getAllTags().then(setTags)
+    onTransactionUpdated()
+  }
+
+  const handleTransactionUpdated = (updated: Expense) => {
+    setTransactions((prev) => prev.map((t) => (t.id === updated.id ? updated : t)))
+    getAllTags().then(setTags)
+    onTransactionUpdated()
+  }
+
+  // Toggle a transaction, or select everything between the last click and this one with shift held
+  const handleSelect = (id: string, extendRange: boolean) => {
+    const next = new Set(selectedIds)
+
+    if (extendRange && selectionAnchor.current) {
+      const orderedIds = visibleTransactions.map((t) => t.id)
+      selectRange(orderedIds, selectionAnchor.current, id).forEach((rangeId) => next.add(rangeId))
+    } else if (next.has(id)) {
+      next.delete(id)
+    } else {
+      next.add(id)
+    }
+
+    selectionAnchor.current = id
+    setSelectedIds(next)
+  }
+
+  const handleSelectAll = async () => {
+    // The list loads a page at a time, so take every match rather than the loaded ones
+    const all = nextPage ? (await getExpensesPage(null, Infinity, query)).expenses : visibleTransactions
+    setSelectedIds(new Set(all.map((t) => t.id)))
+  }
+
+  const stopSelecting = () => {
+    setSelecting(false)
+    setSelectedIds(new Set())
+    selectionAnchor.current = null
+  }
+
+  // Selected transactions, read from the database when some of them aren't loaded
+  const getSelectedTransactions = async (): Promise<Expense[]> => {
+    const loaded = transactions.filter((t) => selectedIds.has(t.id))
+    if (loaded.length === selectedIds.size) return loaded
+
+    return (await getExpenses()).filter((t) => selectedIds.has(t.id))
+  }
+
+  const replaceTransactions = (updated: Expense[]) => {
+    const updatedById = new Map(updated.map((t) => [t.id, t]))
+    setTransactions((prev) => prev.map((t) => updatedById.get(t.id) ?? t))
+  }
+
+  const handleBulkDelete = async () => {
+    const count = selectedIds.size
+    if (!confirm(`Are you sure you want to delete ${count} ${count === 1 ? "transaction" : "transactions"}?`)) return
+
+    try {
+      setBulkBusy(true)
+      const trashId = await deleteExpenses(Array.from(selectedIds))
+      setTransactions((prev) => prev.filter((t) => !selectedIds.has(t.id)))
+      toastWithUndo(`${count} ${count === 1 ? "transaction" : "transactions"} deleted`, () => undoDelete(trashId))
+      stopSelecting()
+      getAllTags().then(setTags)
+      onTransactionDeleted()
+    } catch (error) {
+      console.error("Error deleting transactions:", error)
+      toast.error("Failed to delete transactions")
+    } finally {
+      setBulkBusy(false)
     }
+  }
+
+  const handleBulkRecategorize = async (categoryId: string) => {
+    try {
+      setBulkBusy(true)
+      const selected = await getSelectedTransactions()
+      const changed = recategorizeExpenses(selected, getCategory(categoryId))
+      const label = getCategoryLabel(categoryId)
+
+      if (changed.length === 0) {
+        toast.error(`None of the selected transactions can move to ${label}`)
+        return
+      }
+
+      const changedIds = new Set(changed.map((t) => t.id))
+      const previous = selected.filter((t) => changedIds.has(t.id))
 
-    // Fallback for unknown categories
-    return {
-      name: categoryId.charAt(0).toUpperCase() + categoryId.slice(1),
-      icon: "📦",
-      color: "#94a3b8",
+      await updateExpenses(changed)
+      replaceTransactions(changed)
+      toastWithUndo(`Moved ${changed.length} ${changed.length === 1 ? "transaction" : "transactions"} to ${label}`, () =>
+        undoUpdate(previous),
+      )
+      onTransactionUpdated()
+    } catch (error) {
+      console.error("Error recategorizing transactions:", error)
+      toast.error("Failed to change the category")
+    } finally {
+      setBulkBusy(false)
     }
   }
 
-  // Group transactions by date
-  const groupedTransactions: Record<string, Transaction[]> = {}
+  const handleBulkTag = async (newTags: string[]) => {
+    try {
+      setBulkBusy(true)
+      const selected = await getSelectedTransactions()
+      const changed = addTagsToExpenses(selected, newTags)
+      const changedIds = new Set(changed.map((t) => t.id))
+      const previous = selected.filter((t) => changedIds.has(t.id))
+
+      await updateExpenses(changed)
+      replaceTransactions(changed)
+      toastWithUndo(`Tagged ${changed.length} ${changed.length === 1 ? "transaction" : "transactions"}`, () =>
+        undoUpdate(previous),
+      )
+      getAllTags().then(setTags)
+      onTransactionUpdated()
+    } catch (error) {
+      console.error("Error tagging transactions:", error)
+      toast.error("Failed to add tags")
+    } finally {
+      setBulkBusy(false)
+    }
+  }
 
-  transactions.forEach((transaction) => {
-    const date = formatDate(transaction.timestamp)
-    if (!groupedTransactions[date]) {
-      groupedTransactions[date] = []
+  const handleBulkExport = async () => {
+    try {
+      setBulkBusy(true)
+      downloadCSV(formatExpensesAsCSV(await getSelectedTransactions(), currentCurrency), "spenders-selected.csv")
+      toast.success("CSV exported successfully")
+    } catch (error) {
+      console.error("Error exporting transactions:", error)
+      toast.error("Failed to export transactions")
+    } finally {
+      setBulkBusy(false)
     }
-    groupedTransactions[date].push(transaction)
-  })
+  }
+
+  const getAccountName = (accountId?: string) => accounts.find((a) => a.id === accountId)?.name
+
+  // Get category info (name, icon, color)
+  const getCategoryInfo = (categoryId: string) => {
+    const category = getCategory(categoryId)
+    return { name: getCategoryLabel(categoryId), icon: category.icon || FALLBACK_ICON, color: category.color }
+  }
+
+  const visibleTransactions = useMemo(
+    () => filterTransactions(transactions, filters, categories),
+    [transactions, filters, categories],
+  )
+
+  const listItems = useMemo(() => {
+    const items: ListItem[] = []
+
+    visibleTransactions.forEach((transaction) => {
+      const date = formatDate(transaction.timestamp)
+      const previous = items[items.length - 1]
+
+      if (byDate && previous?.date !== date) {
+        items.push({ kind: "date", date })
+      }
+      items.push({ kind: "transaction", transaction, date })
+    })
+
+    return items
+  }, [visibleTransactions, byDate])
+
+  const getItemKey = useCallback(
+    (index: number) => {
+      const item = listItems[index]
+      return item.kind === "date" ? `date-${item.date}` : item.transaction.id
+    },
+    [listItems],
+  )
+
+  // Rough heights until rows are measured: notes, tags and splits each add a line
+  const estimateItemSize = useCallback(
+    (index: number) => {
+      const item = listItems[index]
+      if (item.kind === "date") return 36
+
+      const { note, tags, splits } = item.transaction
+      return 64 + (note ? 20 : 0) + (tags?.length ? 20 : 0) + (splits?.length ? 16 : 0)
+    },
+    [listItems],
+  )
+
+  const renderDateHeader = (date: string, sticky = false) => (
+    <h3 className={`text-sm font-medium text-gray-500 pt-3 pb-2 ${sticky ? currentTheme.card : ""}`}>{date}</h3>
+  )
+
+  const renderTransaction = (transaction: Expense) => {
+    const { value, suffix } = formatCurrency(transaction.amount, 2, currentCurrency)
+    const categoryInfo = getCategoryInfo(transaction.category)
+
+    return (
+      <div
+        className="flex items-center justify-between p-2 hover:bg-gray-50 rounded-lg transition-colors cursor-pointer"
+        onClick={(e) => (selecting ? handleSelect(transaction.id, e.shiftKey) : setEditingTransaction(transaction))}
+      >
+        <div className="flex items-center">
+          {selecting && (
+            <Checkbox
+              checked={selectedIds.has(transaction.id)}
+              className="mr-3"
+              aria-label={`Select ${categoryInfo.name} ${value}`}
+            />
+          )}
+          <div
+            className="w-10 h-10 flex items-center justify-center rounded-full mr-3"
+            style={{ backgroundColor: categoryInfo.color + "20" }} // Add transparency to the color
+          >
+            <span role="img" aria-label={categoryInfo.name}>
+              {categoryInfo.icon}
+            </span>
+          </div>
+          <div>
+            <p className={`font-medium ${currentTheme.text.secondary}`}>{categoryInfo.name}</p>
+            {transaction.splits && isSplit(transaction) && (
+              <p className="text-xs text-gray-500">
+                Split:{" "}
+                {transaction.splits
+                  .map(
+                    (split) =>
+                      `${getCategoryLabel(split.category)} ${formatCurrency(split.amount, 2, currentCurrency).value}`,
+                  )
+                  .join(" · ")}
+              </p>
+            )}
+            {transaction.note && <p className="text-sm text-gray-500">{transaction.note}</p>}
+            {transaction.tags && transaction.tags.length > 0 && (
+              <div className="flex flex-wrap gap-1 my-0.5">
+                {transaction.tags.map((tag) => (
+                  <span key={tag} className="text-xs px-1.5 rounded-full bg-gray-100 text-gray-500">
+                    {formatTag(tag)}
+                  </span>
+                ))}
+              </div>
+            )}
+            <p className="text-xs text-gray-400">
+              {!byDate && `${formatDate(transaction.timestamp)} · `}
+              {formatTime(transaction.timestamp)}
+              {transaction.type === "transfer"
+                ? ` · ${getAccountName(transaction.accountId) ?? "?"} → ${getAccountName(transaction.toAccountId) ?? "?"}`
+                : getAccountName(transaction.accountId) && ` · ${getAccountName(transaction.accountId)}`}
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center">
+          <p
+            className={`font-semibold ${
+              transaction.type === "income"
+                ? "text-green-600"
+                : transaction.type === "transfer"
+                  ? "text-gray-500"
+                  : currentTheme.text.primary
+            } mr-3`}
+          >
+            {transaction.type === "income" && "+"}
+            {value}
+            {suffix && <span className="text-xs ml-1">{suffix}</span>}
+          </p>
+          {!selecting && (
+            <>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation()
+                  setEditingTransaction(transaction)
+                }}
+                className="text-gray-400 hover:text-gray-700 transition-colors mr-2"
+                aria-label="Edit transaction"
+              >
+                <Pencil className="w-4 h-4" />
+              </button>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation()
+                  handleDeleteTransaction(transaction.id)
+                }}
+                className="text-gray-400 hover:text-red-500 transition-colors"
+                aria-label="Delete transaction"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    )
+  }
 
   return (
     <Card className={`${currentTheme.card} rounded-[24px] w-full`}>
-      <CardHeader className="pb-2">
+      <CardHeader className="pb-2 flex flex-row items-center justify-between space-y-0">
         <CardTitle className={`text-lg font-semibold ${currentTheme.text.primary}`}>Recent Transactions</CardTitle>
+        {!selecting && visibleTransactions.length > 0 && (
+          <Button variant="ghost" size="sm" onClick={() => setSelecting(true)}>
+            Select
+          </Button>
+        )}
       </CardHeader>
       <CardContent>
+        <TransactionFilterBar filters={filters} onChange={setFilters} tags={tags} currentTheme={currentTheme} />
+        {selecting && (
+          <BulkActionBar
+            selectedCount={selectedIds.size}
+            totalCount={nextPage ? undefined : visibleTransactions.length}
+            tags={tags}
+            busy={bulkBusy}
+            onSelectAll={handleSelectAll}
+            onClear={stopSelecting}
+            onDelete={handleBulkDelete}
+            onRecategorize={handleBulkRecategorize}
+            onTag={handleBulkTag}
+            onExport={handleBulkExport}
+            currentTheme={currentTheme}
+          />
+        )}
         {isLoading ? (
           <div className="h-48 flex items-center justify-center">
             <div className="animate-pulse text-gray-400">Loading transactions...</div>
           </div>
-        ) : transactions.length === 0 ? (
+        ) : visibleTransactions.length === 0 ? (
           <div className="h-48 flex items-center justify-center text-center">
             <div className="text-gray-400">
-              <p>No transactions yet</p>
-              <p className="text-sm mt-2">Add expenses to see your transaction history</p>
+              <p>{filtered ? "No transactions match these filters" : "No transactions yet"}</p>
+              {!filtered && <p className="text-sm mt-2">Add expenses to see your transaction history</p>}
             </div>
           </div>
         ) : (
-          <div className="space-y-6 max-h-[500px] overflow-y-auto pr-2">
-            {Object.entries(groupedTransactions).map(([date, dayTransactions]) => (
-              <div key={date}>
-                <h3 className="text-sm font-medium text-gray-500 mb-2">{date}</h3>
-                <div className="space-y-3">
-                  {dayTransactions.map((transaction) => {
-                    const { value, suffix } = formatCurrency(transaction.amount, 2, currentCurrency)
-                    const categoryInfo = getCategoryInfo(transaction.category)
-
-                    return (
-                      <div
-                        key={transaction.id}
-                        className="flex items-center justify-between p-2 hover:bg-gray-50 rounded-lg transition-colors cursor-pointer"
-                        onClick={() => {
-                          toast(`${categoryInfo.name}`, {
-                            description:
-                              transaction.note ||
-                              `${formatCurrency(transaction.amount, 2, currentCurrency).value} on ${formatDate(transaction.timestamp)}`,
-                            position: "bottom-center",
-                            icon: (
-                              <span role="img" aria-label={categoryInfo.name}>
-                                {categoryInfo.icon}
-                              </span>
-                            ),
-                          })
-                        }}
-                      >
-                        <div className="flex items-center">
-                          <div
-                            className="w-10 h-10 flex items-center justify-center rounded-full mr-3"
-                            style={{ backgroundColor: categoryInfo.color + "20" }} // Add transparency to the color
-                          >
-                            <span role="img" aria-label={categoryInfo.name}>
-                              {categoryInfo.icon}
-                            </span>
-                          </div>
-                          <div>
-                            <p className={`font-medium ${currentTheme.text.secondary}`}>{categoryInfo.name}</p>
-                            {transaction.note && <p className="text-sm text-gray-500">{transaction.note}</p>}
-                            <p className="text-xs text-gray-400">{formatTime(transaction.timestamp)}</p>
-                          </div>
-                        </div>
-                        <div className="flex items-center">
-                          <p className={`font-semibold ${currentTheme.text.primary} mr-3`}>
-                            {value}
-                            {suffix && <span className="text-xs ml-1">{suffix}</span>}
-                          </p>
-                          <button
-                            onClick={(e) => {
-                              e.stopPropagation()
-                              handleDeleteTransaction(transaction.id)
-                            }}
-                            className="text-gray-400 hover:text-red-500 transition-colors"
-                            aria-label="Delete transaction"
-                          >
-                            <Trash2 className="w-4 h-4" />
-                          </button>
-                        </div>
-                      </div>
-                    )
-                  })}
-                </div>
+          <>
+            {filtered && summary && (
+              <div className="flex flex-wrap gap-x-3 text-sm text-gray-500 mb-3">
+                <span>
+                  {summary.count} {summary.count === 1 ? "transaction" : "transactions"}
+                </span>
+                <span>Spent {formatCurrency(summary.spent, 2, currentCurrency).value}</span>
+                {summary.income > 0 && (
+                  <span className="text-green-600">Income {formatCurrency(summary.income, 2, currentCurrency).value}</span>
+                )}
               </div>
-            ))}
-          </div>
+            )}
+            <VirtualList
+              count={listItems.length}
+              getKey={getItemKey}
+              estimateSize={estimateItemSize}
+              renderItem={(index) => {
+                const item = listItems[index]
+                return item.kind === "date" ? (
+                  renderDateHeader(item.date)
+                ) : (
+                  <div className="pb-2">{renderTransaction(item.transaction)}</div>
+                )
+              }}
+              renderStickyHeader={byDate ? (index) => renderDateHeader(listItems[index].date, true) : undefined}
+              onEndReached={loadMoreTransactions}
+              className="max-h-[500px] pr-2"
+            />
+          </>
         )}
       </CardContent>
+
+      <EditExpenseDrawer
+        expense={editingTransaction}
+        accounts={accounts}
+        currentTheme={currentTheme}
+        currentCurrency={currentCurrency}
+        onOpenChange={(open) => !open && setEditingTransaction(null)}
+        onExpenseUpdated={handleTransactionUpdated}
+      />
     </Card>
   )
 }
@@ -0,0 +1,189 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { toast } from "sonner"
+import { ArchiveRestore, Trash2 } from "lucide-react"
+import { deleteTrashEntry, emptyTrash, getSetting, getTrashEntries, restoreTrashEntry, saveSetting } from "@/utils/db"
+import { formatDate } from "@/utils/date-utils"
+import { formatCurrency } from "@/utils/format-utils"
+import type { TrashEntry } from "@/utils/models"
+import {
+  TRASH_RETENTION_OPTIONS,
+  TRASH_RETENTION_SETTING,
+  getDaysUntilPurge,
+  parseRetentionDays,
+} from "@/utils/trash"
+import { useCategories } from "./category-provider"
+
+interface TrashBinProps {
+  currentTheme: any
+  currentCurrency: string
+  onRestored: () => void
+}
+
+// Deleted transactions and budget goals, kept until the retention period runs out
+export default function TrashBin({ currentTheme, currentCurrency, onRestored }: TrashBinProps) {
+  const [entries, setEntries] = useState<TrashEntry[]>([])
+  const [retentionDays, setRetentionDays] = useState<number>(parseRetentionDays(null))
+  const [isWorking, setIsWorking] = useState(false)
+  const { getCategoryLabel } = useCategories()
+
+  useEffect(() => {
+    loadTrash()
+    getSetting<unknown>(TRASH_RETENTION_SETTING, null).then((value) => setRetentionDays(parseRetentionDays(value)))
+  }, [])
+
+  const loadTrash = async () => {
+    setEntries(await getTrashEntries())
+  }
+
+  // What an entry holds: a single record is described in full, several are counted
+  const describeEntry = (entry: TrashEntry): string => {
+    if (entry.description) return entry.description
+
+    if (entry.store === "budgetGoals") {
+      const [goal] = entry.records
+      return entry.records.length === 1
+        ? `Budget goal · ${getCategoryLabel(goal.category)} (${goal.period})`
+        : `${entry.records.length} budget goals`
+    }
+
+    if (entry.records.length === 1) {
+      const [expense] = entry.records
+      const amount = formatCurrency(expense.amount, 2, currentCurrency).value
+      return [getCategoryLabel(expense.category), amount, expense.note].filter(Boolean).join(" · ")
+    }
+
+    return `${entry.records.length} transactions`
+  }
+
+  const handleRestore = async (entry: TrashEntry) => {
+    try {
+      setIsWorking(true)
+      await restoreTrashEntry(entry.id)
+      await loadTrash()
+      toast.success("Restored")
+      onRestored()
+    } catch (error) {
+      console.error("Error restoring from trash:", error)
+      toast.error("Failed to restore")
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  const handleDelete = async (entry: TrashEntry) => {
+    if (!confirm("Delete this permanently? This cannot be undone.")) return
+
+    try {
+      setIsWorking(true)
+      await deleteTrashEntry(entry.id)
+      await loadTrash()
+    } catch (error) {
+      console.error("Error deleting from trash:", error)
+      toast.error("Failed to delete")
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  const handleEmpty = async () => {
+    if (!confirm("Permanently delete everything in the trash? This cannot be undone.")) return
+
+    try {
+      setIsWorking(true)
+      await emptyTrash()
+      setEntries([])
+      toast.success("Trash emptied")
+    } catch (error) {
+      console.error("Error emptying trash:", error)
+      toast.error("Failed to empty the trash")
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  const handleRetentionChange = async (value: string) => {
+    const days = Number(value)
+    setRetentionDays(days)
+    await saveSetting(TRASH_RETENTION_SETTING, days)
+  }
+
+  return (
+    <Card className={`${currentTheme.card} rounded-[24px]`}>
+      <CardHeader className="pb-2 flex flex-row items-center justify-between space-y-0">
+        <CardTitle className={`text-lg font-semibold ${currentTheme.text.primary}`}>Trash</CardTitle>
+        {entries.length > 0 && (
+          <Button variant="ghost" size="sm" onClick={handleEmpty} disabled={isWorking} className="text-red-600">
+            Empty trash
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between gap-2 text-sm text-gray-500">
+          <span>Keep deleted items for</span>
+          <Select value={String(retentionDays)} onValueChange={handleRetentionChange}>
+            <SelectTrigger className={`w-[120px] rounded-xl ${currentTheme.input.background}`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Array.from(new Set([...TRASH_RETENTION_OPTIONS, retentionDays]))
+                .sort((a, b) => a - b)
+                .map((days) => (
+                  <SelectItem key={days} value={String(days)}>
+                    {days} days
+                  </SelectItem>
+                ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {entries.length === 0 ? (
+          <p className="text-sm text-gray-400 text-center py-6">The trash is empty</p>
+        ) : (
+          <div className="space-y-2 max-h-[320px] overflow-y-auto">
+            {entries.map((entry) => {
+              const daysLeft = getDaysUntilPurge(entry, retentionDays)
+
+              return (
+                <div key={entry.id} className="flex items-center justify-between p-2 rounded-lg hover:bg-gray-50">
+                  <div className="min-w-0">
+                    <p className={`text-sm font-medium truncate ${currentTheme.text.secondary}`}>{describeEntry(entry)}</p>
+                    <p className="text-xs text-gray-400">
+                      Deleted {formatDate(entry.deletedAt)} ·{" "}
+                      {daysLeft === 0 ? "removed today" : `removed in ${daysLeft} ${daysLeft === 1 ? "day" : "days"}`}
+                    </p>
+                  </div>
+                  <div className="flex items-center shrink-0">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleRestore(entry)}
+                      disabled={isWorking}
+                      aria-label="Restore"
+                    >
+                      <ArchiveRestore className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleDelete(entry)}
+                      disabled={isWorking}
+                      className="text-gray-400 hover:text-red-500"
+                      aria-label="Delete permanently"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
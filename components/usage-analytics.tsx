@@ -42,7 +42,7 @@ export default function UsageAnalytics({ currentTheme }: UsageAnalyticsProps) {
         }
 
         // Get user's start date from settings
-        const savedStartDate = await getSetting("startDate", null)
+        const savedStartDate = await getSetting<string | null>("startDate", null)
 
         if (savedStartDate) {
           // If we have a saved start date, use it
@@ -63,7 +63,7 @@ export default function UsageAnalytics({ currentTheme }: UsageAnalyticsProps) {
         }
 
         // Get saved country from settings first
-        const savedCountry = await getSetting("userCountry", null)
+        const savedCountry = await getSetting<CountryInfo | null>("userCountry", null)
 
         if (savedCountry && savedCountry.code && savedCountry.name) {
           setUserCountry(savedCountry)
@@ -0,0 +1,118 @@
+"use client"
+
+import { type ReactNode, useEffect, useMemo, useRef, useState } from "react"
+import { findIndexAt, getOffsets, getVisibleRange } from "@/utils/virtual-list"
+
+interface VirtualListProps {
+  count: number
+  getKey: (index: number) => string
+  estimateSize: (index: number) => number // Height used until the item has been rendered and measured
+  renderItem: (index: number) => ReactNode
+  renderStickyHeader?: (firstVisibleIndex: number) => ReactNode // Pinned to the top while scrolling
+  onEndReached?: () => void // Called when the last items come into view
+  className?: string
+}
+
+// Scrolling list that only mounts the items near the viewport, so its cost doesn't grow with the list
+export default function VirtualList({
+  count,
+  getKey,
+  estimateSize,
+  renderItem,
+  renderStickyHeader,
+  onEndReached,
+  className = "",
+}: VirtualListProps) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const observerRef = useRef<ResizeObserver | null>(null)
+  const sizesRef = useRef(new Map<string, number>()) // Measured heights, by item key
+  const [sizesVersion, setSizesVersion] = useState(0)
+  const [scrollTop, setScrollTop] = useState(0)
+  const [viewportHeight, setViewportHeight] = useState(500)
+
+  // Item heights change when they are first measured or their content wraps differently
+  const getObserver = () => {
+    if (!observerRef.current) {
+      observerRef.current = new ResizeObserver((entries) => {
+        let changed = false
+
+        entries.forEach(({ target }) => {
+          const key = (target as HTMLElement).dataset.key
+          const height = (target as HTMLElement).offsetHeight
+          if (key !== undefined && height > 0 && sizesRef.current.get(key) !== height) {
+            sizesRef.current.set(key, height)
+            changed = true
+          }
+        })
+
+        if (changed) setSizesVersion((version) => version + 1)
+      })
+    }
+
+    return observerRef.current
+  }
+
+  useEffect(() => {
+    const container = containerRef.current
+    if (!container) return
+
+    const observer = new ResizeObserver(() => setViewportHeight(container.clientHeight))
+    observer.observe(container)
+
+    return () => {
+      observer.disconnect()
+      observerRef.current?.disconnect()
+    }
+  }, [])
+
+  const offsets = useMemo(
+    () => getOffsets(count, (index) => sizesRef.current.get(getKey(index)) ?? estimateSize(index)),
+    [count, getKey, estimateSize, sizesVersion],
+  )
+  const { start, end } = getVisibleRange(offsets, scrollTop, viewportHeight)
+
+  useEffect(() => {
+    if (count > 0 && end >= count) {
+      onEndReached?.()
+    }
+  }, [end, count, onEndReached])
+
+  const items: ReactNode[] = []
+
+  for (let index = start; index < end; index++) {
+    const key = getKey(index)
+
+    items.push(
+      <div
+        key={key}
+        data-key={key}
+        ref={(element) => {
+          if (!element) return
+          const observer = getObserver()
+          observer.observe(element)
+          return () => observer.unobserve(element)
+        }}
+        className="absolute left-0 right-0"
+        style={{ top: offsets[index] }}
+      >
+        {renderItem(index)}
+      </div>,
+    )
+  }
+
+  return (
+    <div
+      ref={containerRef}
+      className={`relative overflow-y-auto ${className}`}
+      onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+    >
+      {renderStickyHeader && count > 0 && (
+        // Takes no space, so the items underneath keep their offsets
+        <div className="sticky top-0 z-10 h-0">{renderStickyHeader(findIndexAt(offsets, scrollTop))}</div>
+      )}
+      <div className="relative" style={{ height: offsets[count] }}>
+        {items}
+      </div>
+    </div>
+  )
+}
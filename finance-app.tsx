@@ -3,11 +3,20 @@
 import { useState, useEffect, useRef } from "react"
 import { Card } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
-import { RefreshCw, Volume2, VolumeX, Database, BarChart3, History, Home, Target, FileText } from "lucide-react"
+import { RefreshCw, Volume2, VolumeX, Database, BarChart3, History, Home, Target, FileText, Wallet } from "lucide-react"
 import { motion, AnimatePresence } from "framer-motion"
 import { toast } from "sonner"
-import { saveExpenses, getExpenses, saveSetting, getSetting } from "./utils/db"
+import {
+  getExpenses,
+  deleteExpenses,
+  restoreTrashEntry,
+  saveSetting,
+  getSetting,
+  materializeRecurringRules,
+  purgeExpiredTrash,
+} from "./utils/db"
 import { logUserActivity } from "./utils/vercel-analytics"
+import { toastWithUndo } from "./utils/undo"
 import {
   getStartOfDay,
   getEndOfDay,
@@ -17,22 +26,28 @@ import {
   getEndOfMonth,
 } from "./utils/date-utils"
 import { formatCurrency } from "./utils/format-utils"
+import type { Expense } from "./utils/models"
+import { calculateCashFlowForPeriod, isSpending } from "./utils/cash-flow"
+import { rollUpCategoryTotals } from "./utils/categories"
+import { sumByCategory } from "./utils/splits"
 import ExpenseChart from "./components/expense-chart"
 import CategorySummary from "./components/category-summary"
+import TagReport from "./components/tag-report"
+import ClassifierStats from "./components/classifier-stats"
 import TransactionList from "./components/transaction-list"
 import UsageAnalytics from "./components/usage-analytics"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import ExpenseInputForm from "./components/expense-input-form"
 import BudgetGoals from "./components/budget-goals"
 import DataExport from "./components/data-export"
-
-interface Expense {
-  id: string
-  amount: number
-  timestamp: number
-  category: string
-  note?: string
-}
+import TrashBin from "./components/trash-bin"
+import DuplicateReview from "./components/duplicate-review"
+import ActivityTimeline from "./components/activity-timeline"
+import AccountsView from "./components/accounts-view"
+import RecurringBills from "./components/recurring-bills"
+import CategoryManager from "./components/category-manager"
+import CategoryRules from "./components/category-rules"
+import { useCategories } from "./components/category-provider"
 
 // Define theme types
 type ThemeColor = {
@@ -208,25 +223,15 @@ const themes: ThemeColor[] = [
   },
 ]
 
-// Default categories
-const DEFAULT_CATEGORIES = [
-  { id: "food", name: "Food & Dining" },
-  { id: "transport", name: "Transportation" },
-  { id: "shopping", name: "Shopping" },
-  { id: "entertainment", name: "Entertainment" },
-  { id: "utilities", name: "Bills & Utilities" },
-  { id: "health", name: "Health" },
-  { id: "other", name: "Other" },
-]
-
 // Define view types
-type ViewType = "home" | "analytics" | "transactions" | "budgets" | "export"
+type ViewType = "home" | "analytics" | "transactions" | "accounts" | "budgets" | "export"
 
 export default function FinanceApp() {
   const [expenses, setExpenses] = useState<Expense[]>([])
   const [dailyTotal, setDailyTotal] = useState(0)
   const [weeklyTotal, setWeeklyTotal] = useState(0)
   const [monthlyTotal, setMonthlyTotal] = useState(0)
+  const [incomeTotals, setIncomeTotals] = useState({ daily: 0, weekly: 0, monthly: 0 })
   const [isAdding, setIsAdding] = useState(false)
   const [currentTheme, setCurrentTheme] = useState<ThemeColor>(themes[0])
   const [isThemeChanging, setIsThemeChanging] = useState(false)
@@ -239,6 +244,7 @@ export default function FinanceApp() {
   const [currentCurrency, setCurrentCurrency] = useState<string>("$")
   const [analyticsTab, setAnalyticsTab] = useState<string>("expenses")
   const [categoryData, setCategoryData] = useState<any[]>([])
+  const { categories, getCategory } = useCategories()
 
   // Audio reference
   const audioRef = useRef<HTMLAudioElement | null>(null)
@@ -280,6 +286,15 @@ export default function FinanceApp() {
       try {
         setIsLoading(true)
 
+        // Add recurring bills that came due since the app was last opened
+        const recurringAdded = await materializeRecurringRules().catch(() => 0)
+        if (recurringAdded > 0) {
+          toast.success(`${recurringAdded} recurring transaction${recurringAdded === 1 ? "" : "s"} added`)
+        }
+
+        // Permanently remove deleted records that have been in the trash past the retention period
+        await purgeExpiredTrash()
+
         // Load expenses from IndexedDB
         const savedExpenses = await getExpenses()
         if (savedExpenses && savedExpenses.length > 0) {
@@ -297,7 +312,7 @@ export default function FinanceApp() {
         setSoundEnabled(soundSetting)
 
         // Load last calculation date
-        const lastCalcDate = await getSetting("lastCalculationDate", null)
+        const lastCalcDate = await getSetting<string | null>("lastCalculationDate", null)
         if (lastCalcDate) {
           setLastCalculationDate(new Date(lastCalcDate))
         }
@@ -323,15 +338,6 @@ export default function FinanceApp() {
     initializeApp()
   }, [])
 
-  // Save expenses to IndexedDB whenever they change
-  useEffect(() => {
-    if (dbInitialized && expenses.length > 0) {
-      saveExpenses(expenses).catch((error) => {
-        console.error("Error saving expenses to IndexedDB:", error)
-      })
-    }
-  }, [expenses, dbInitialized])
-
   // Save sound preference to IndexedDB
   useEffect(() => {
     if (dbInitialized) {
@@ -372,79 +378,52 @@ export default function FinanceApp() {
       const monthStart = getStartOfMonth()
       const monthEnd = getEndOfMonth()
 
-      // Calculate totals for each time period
-      const daily = expenses
-        .filter((expense) => expense.timestamp >= dayStart && expense.timestamp <= dayEnd)
-        .reduce((sum, expense) => sum + expense.amount, 0)
-
-      const weekly = expenses
-        .filter((expense) => expense.timestamp >= weekStart && expense.timestamp <= weekEnd)
-        .reduce((sum, expense) => sum + expense.amount, 0)
-
-      const monthly = expenses
-        .filter((expense) => expense.timestamp >= monthStart && expense.timestamp <= monthEnd)
-        .reduce((sum, expense) => sum + expense.amount, 0)
+      // Calculate spending and income for each time period
+      const dailyFlow = calculateCashFlowForPeriod(expenses, dayStart, dayEnd)
+      const weeklyFlow = calculateCashFlowForPeriod(expenses, weekStart, weekEnd)
+      const monthlyFlow = calculateCashFlowForPeriod(expenses, monthStart, monthEnd)
+      const monthly = monthlyFlow.spent
 
-      setDailyTotal(daily)
-      setWeeklyTotal(weekly)
+      setDailyTotal(dailyFlow.spent)
+      setWeeklyTotal(weeklyFlow.spent)
       setMonthlyTotal(monthly)
+      setIncomeTotals({ daily: dailyFlow.income, weekly: weeklyFlow.income, monthly: monthlyFlow.income })
 
-      // Calculate category data for export
-      const categoryMap = new Map()
-
-      // Initialize with all categories
-      DEFAULT_CATEGORIES.forEach((category) => {
-        categoryMap.set(category.id, {
-          name: category.name,
-          value: 0,
-          percentage: 0,
-          color: "#94a3b8",
-        })
-      })
-
-      // Add expense amounts to corresponding categories
-      const monthlyExpenses = expenses.filter(
-        (expense) => expense.timestamp >= monthStart && expense.timestamp <= monthEnd,
+      // Calculate category data for export (income isn't part of the breakdown; splits count separately)
+      const categoryMap = sumByCategory(
+        expenses.filter(
+          (expense) => isSpending(expense) && expense.timestamp >= monthStart && expense.timestamp <= monthEnd,
+        ),
       )
 
-      monthlyExpenses.forEach((expense) => {
-        if (categoryMap.has(expense.category)) {
-          const existing = categoryMap.get(expense.category)
-          categoryMap.set(expense.category, {
-            ...existing,
-            value: existing.value + expense.amount,
-          })
-        } else {
-          // Handle any categories not in our predefined list
-          categoryMap.set(expense.category, {
-            name: expense.category,
-            value: expense.amount,
-            percentage: 0,
-            color: "#94a3b8",
-          })
+      const toCategoryRow = (id: string, value: number, isSubcategory: boolean) => {
+        const category = getCategory(id)
+        return {
+          name: category.name,
+          value,
+          percentage: monthly > 0 ? (value / monthly) * 100 : 0,
+          color: category.color,
+          isSubcategory,
         }
-      })
-
-      // Calculate percentages
-      if (monthly > 0) {
-        categoryMap.forEach((category, id) => {
-          categoryMap.set(id, {
-            ...category,
-            percentage: (category.value / monthly) * 100,
-          })
-        })
       }
 
-      // Convert map to array and sort by amount
-      const sortedCategories = Array.from(categoryMap.values())
-        .filter((category) => category.value > 0)
-        .sort((a, b) => b.value - a.value)
+      // Roll sub-categories up into their parent, listing them under it, largest first
+      const amounts = Array.from(categoryMap.entries())
+        .map(([id, amount]) => ({ id, amount }))
+        .filter((category) => category.amount > 0)
+
+      const sortedCategories = rollUpCategoryTotals(categories, amounts).flatMap((rollUp) => [
+        toCategoryRow(rollUp.id, rollUp.amount, false),
+        ...(rollUp.children.some((child) => child.id !== rollUp.id)
+          ? rollUp.children.map((child) => toCategoryRow(child.id, child.amount, true))
+          : []),
+      ])
 
       setCategoryData(sortedCategories)
     }
 
     calculateTotals()
-  }, [expenses, dbInitialized, lastCalculationDate])
+  }, [expenses, dbInitialized, lastCalculationDate, categories, getCategory])
 
   // Update toast theme when current theme changes
   useEffect(() => {
@@ -564,21 +543,32 @@ export default function FinanceApp() {
 
   // Clear all data from IndexedDB
   const clearAllData = async () => {
-    if (confirm("Are you sure you want to clear all your expense data? This cannot be undone.")) {
+    if (
+      confirm(
+        "Are you sure you want to clear all your expense data?\n\nThe transactions are moved to the trash, where you can restore them from the Export view.",
+      )
+    ) {
       try {
-        // Clear expenses
+        // Move every transaction to the trash as one entry, so they can be restored together
+        const trashId = await deleteExpenses(
+          (await getExpenses()).map((expense) => expense.id),
+          "All transactions (Reset All Data)",
+        )
         setExpenses([])
-        await saveExpenses([])
 
         // Log data cleared event
         if (dbInitialized) {
           logUserActivity("data_cleared")
         }
 
-        toast.success("All data cleared", {
-          description: "Your expense data has been reset",
-          icon: <Database className="h-5 w-5" />,
-        })
+        toastWithUndo(
+          "All data cleared",
+          async () => {
+            if (trashId) await restoreTrashEntry(trashId)
+            handleTransactionsChanged()
+          },
+          { description: "Your transactions were moved to the trash", icon: <Database className="h-5 w-5" /> },
+        )
       } catch (error) {
         console.error("Error clearing data:", error)
         toast.error("Failed to clear data", {
@@ -588,8 +578,8 @@ export default function FinanceApp() {
     }
   }
 
-  // Handle transaction deleted
-  const handleTransactionDeleted = () => {
+  // Reload expenses after a transaction is edited or deleted so totals, budgets and charts refresh
+  const handleTransactionsChanged = () => {
     // Reload expenses
     getExpenses()
       .then((updatedExpenses) => {
@@ -617,6 +607,14 @@ export default function FinanceApp() {
   const { value: weeklyValue, suffix: weeklySuffix } = formatCurrency(weeklyTotal, 2, currentCurrency)
   const { value: monthlyValue, suffix: monthlySuffix } = formatCurrency(monthlyTotal, 2, currentCurrency)
 
+  // Net cash flow (income minus spending) for each period
+  const netCashFlow = [
+    { label: "m", net: incomeTotals.monthly - monthlyTotal },
+    { label: "w", net: incomeTotals.weekly - weeklyTotal },
+    { label: "d", net: incomeTotals.daily - dailyTotal },
+  ]
+  const hasIncome = incomeTotals.monthly > 0 || incomeTotals.weekly > 0 || incomeTotals.daily > 0
+
   return (
     <div
       className={`min-h-screen ${currentTheme.background} transition-colors duration-500 flex flex-col items-center p-4 sm:p-6 pb-24`}
@@ -717,9 +715,36 @@ export default function FinanceApp() {
                     )}
                     <span className={`${currentTheme.text.tertiary} text-lg md:text-xl font-bold ml-1`}>(d)</span>
                   </motion.div>
+                  {hasIncome && (
+                    <motion.div
+                      className="grid grid-cols-3 gap-2 pt-2"
+                      initial={{ opacity: 0, y: 10 }}
+                      animate={{ opacity: 1, y: 0 }}
+                      transition={{ duration: 0.5, delay: 0.3 }}
+                    >
+                      {netCashFlow.map(({ label, net }) => {
+                        const { value, suffix } = formatCurrency(Math.abs(net), 2, currentCurrency)
+                        return (
+                          <div key={label} className="bg-gray-50 rounded-xl px-2 py-1.5 text-center">
+                            <p className="text-[10px] uppercase tracking-wide text-gray-400">Net ({label})</p>
+                            <p className={`text-sm font-bold ${net < 0 ? "text-red-500" : "text-green-600"}`}>
+                              {net < 0 ? "-" : "+"}
+                              {value}
+                              {suffix}
+                            </p>
+                          </div>
+                        )
+                      })}
+                    </motion.div>
+                  )}
                   <p className="text-xs text-gray-400 mt-1">
                     * K = thousands, M = millions
                     <br />* (m) = monthly, (w) = weekly, (d) = daily
+                    {hasIncome && (
+                      <>
+                        <br />* Net = income minus spending
+                      </>
+                    )}
                   </p>
                 </div>
 
@@ -766,9 +791,15 @@ export default function FinanceApp() {
                   <TabsTrigger value="expenses" className="flex-1">
                     Expenses
                   </TabsTrigger>
+                  <TabsTrigger value="tags" className="flex-1">
+                    Tags
+                  </TabsTrigger>
                   <TabsTrigger value="usage" className="flex-1">
                     Usage Stats
                   </TabsTrigger>
+                  <TabsTrigger value="activity" className="flex-1">
+                    Activity
+                  </TabsTrigger>
                 </TabsList>
 
                 <TabsContent value="expenses" className="space-y-4">
@@ -776,8 +807,17 @@ export default function FinanceApp() {
                   <CategorySummary currentTheme={currentTheme} currentCurrency={currentCurrency} />
                 </TabsContent>
 
-                <TabsContent value="usage">
+                <TabsContent value="tags">
+                  <TagReport currentTheme={currentTheme} currentCurrency={currentCurrency} />
+                </TabsContent>
+
+                <TabsContent value="usage" className="space-y-4">
                   <UsageAnalytics currentTheme={currentTheme} />
+                  <ClassifierStats currentTheme={currentTheme} />
+                </TabsContent>
+
+                <TabsContent value="activity">
+                  <ActivityTimeline currentTheme={currentTheme} currentCurrency={currentCurrency} />
                 </TabsContent>
               </Tabs>
             </motion.div>
@@ -794,7 +834,25 @@ export default function FinanceApp() {
               <TransactionList
                 currentTheme={currentTheme}
                 currentCurrency={currentCurrency}
-                onTransactionDeleted={handleTransactionDeleted}
+                onTransactionDeleted={handleTransactionsChanged}
+                onTransactionUpdated={handleTransactionsChanged}
+              />
+            </motion.div>
+          )}
+
+          {currentView === "accounts" && (
+            <motion.div
+              key="accounts-view"
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: -20 }}
+              transition={{ duration: 0.3 }}
+            >
+              <AccountsView
+                currentTheme={currentTheme}
+                currentCurrency={currentCurrency}
+                expenses={expenses}
+                onTransactionsChanged={handleTransactionsChanged}
               />
             </motion.div>
           )}
@@ -807,7 +865,42 @@ export default function FinanceApp() {
               exit={{ opacity: 0, y: -20 }}
               transition={{ duration: 0.3 }}
             >
-              <BudgetGoals currentTheme={currentTheme} currentCurrency={currentCurrency} />
+              <Tabs defaultValue="budgets">
+                <TabsList className="w-full mb-4">
+                  <TabsTrigger value="budgets" className="flex-1">
+                    Budgets
+                  </TabsTrigger>
+                  <TabsTrigger value="recurring" className="flex-1">
+                    Recurring
+                  </TabsTrigger>
+                  <TabsTrigger value="categories" className="flex-1">
+                    Categories
+                  </TabsTrigger>
+                  <TabsTrigger value="rules" className="flex-1">
+                    Rules
+                  </TabsTrigger>
+                </TabsList>
+
+                <TabsContent value="budgets">
+                  <BudgetGoals currentTheme={currentTheme} currentCurrency={currentCurrency} />
+                </TabsContent>
+
+                <TabsContent value="recurring">
+                  <RecurringBills
+                    currentTheme={currentTheme}
+                    currentCurrency={currentCurrency}
+                    onTransactionsChanged={handleTransactionsChanged}
+                  />
+                </TabsContent>
+
+                <TabsContent value="categories">
+                  <CategoryManager currentTheme={currentTheme} onTransactionsChanged={handleTransactionsChanged} />
+                </TabsContent>
+
+                <TabsContent value="rules">
+                  <CategoryRules currentTheme={currentTheme} onTransactionsChanged={handleTransactionsChanged} />
+                </TabsContent>
+              </Tabs>
             </motion.div>
           )}
 
@@ -818,6 +911,7 @@ export default function FinanceApp() {
               animate={{ opacity: 1, y: 0 }}
               exit={{ opacity: 0, y: -20 }}
               transition={{ duration: 0.3 }}
+              className="space-y-4"
             >
               <DataExport
                 currentTheme={currentTheme}
@@ -825,7 +919,20 @@ export default function FinanceApp() {
                 dailyTotal={dailyTotal}
                 weeklyTotal={weeklyTotal}
                 monthlyTotal={monthlyTotal}
+                incomeTotals={incomeTotals}
                 categoryData={categoryData}
+                onDataImported={handleTransactionsChanged}
+              />
+              <DuplicateReview
+                currentTheme={currentTheme}
+                currentCurrency={currentCurrency}
+                expenses={expenses}
+                onTransactionsChanged={handleTransactionsChanged}
+              />
+              <TrashBin
+                currentTheme={currentTheme}
+                currentCurrency={currentCurrency}
+                onRestored={handleTransactionsChanged}
               />
             </motion.div>
           )}
@@ -900,6 +1007,23 @@ export default function FinanceApp() {
           >
             <History className="w-5 h-5" />
           </Button>
+          <Button
+            variant="ghost"
+            onClick={() => {
+              setCurrentView("accounts")
+              if ("vibrate" in navigator) {
+                navigator.vibrate(50)
+              }
+            }}
+            className={`rounded-full transition-all duration-300 ${
+              currentView === "accounts"
+                ? `${currentTheme.background} text-white shadow-md scale-110`
+                : "text-gray-600 hover:text-gray-800 hover:bg-gray-100"
+            }`}
+            aria-label="Accounts"
+          >
+            <Wallet className="w-5 h-5" />
+          </Button>
           <Button
             variant="ghost"
             onClick={() => {
@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest"
+import { evaluateAmountExpression, isAmountExpression, normalizeSeparators } from "./amount-expression"
+import { parseAmount } from "./import-utils"
+
+describe("isAmountExpression", () => {
+  it("recognises arithmetic", () => {
+    expect(isAmountExpression("84/3")).toBe(true)
+    expect(isAmountExpression("12.99 + 4.50")).toBe(true)
+    expect(isAmountExpression("$(10 + 2) * 3")).toBe(true)
+  })
+
+  it("doesn't take plain numbers or dates for arithmetic", () => {
+    expect(isAmountExpression("12.50")).toBe(false)
+    expect(isAmountExpression("2026-10-15")).toBe(false)
+    expect(isAmountExpression("12.50 2026-10-15")).toBe(false)
+  })
+})
+
+describe("evaluateAmountExpression", () => {
+  it("works out the amount to the cent", () => {
+    expect(evaluateAmountExpression("84/3").value).toBe(28)
+    expect(evaluateAmountExpression("12.99+4.50").value).toBe(17.49)
+    expect(evaluateAmountExpression("0.1 + 0.2").value).toBe(0.3)
+    expect(evaluateAmountExpression("10/3").value).toBe(3.33)
+  })
+
+  it("reads commas the way the CSV importer does", () => {
+    expect(evaluateAmountExpression("1,000").value).toBe(1000)
+    expect(evaluateAmountExpression("1,234.50 + 1").value).toBe(1235.5)
+    expect(evaluateAmountExpression("1.234,50").value).toBe(1234.5)
+    expect(evaluateAmountExpression("12,5").value).toBe(12.5)
+    expect(evaluateAmountExpression("4,50 * 2").value).toBe(9)
+  })
+
+  it("explains what is wrong with invalid input", () => {
+    expect(evaluateAmountExpression("12+").error).toBeTruthy()
+    expect(evaluateAmountExpression("5/0").error).toBeTruthy()
+    expect(evaluateAmountExpression("").error).toBe("Please enter an amount")
+  })
+})
+
+describe("normalizeSeparators", () => {
+  it("agrees with the CSV importer", () => {
+    for (const text of ["1,000", "1,234.50", "1.234,50", "12,5", "12.50", "1,234,567"]) {
+      expect(evaluateAmountExpression(text).value).toBe(parseAmount(text))
+    }
+    expect(normalizeSeparators("1.234,50")).toBe("1234.50")
+  })
+})
@@ -0,0 +1,166 @@
+// Amount fields accept simple arithmetic such as "84/3" or "12.99+4.50"
+// Expressions are parsed by hand rather than with eval, and worked out with exact fractions
+// so "0.1+0.2" is 0.30; only the result is rounded to cents.
+
+export interface AmountExpressionResult {
+  value: number | null // Rounded to cents, null when the expression is invalid
+  error: string | null
+}
+
+// An exact number as numerator / denominator, with a positive denominator
+interface Fraction {
+  num: number
+  den: number
+}
+
+const CURRENCY_SYMBOLS = /^[$€£¥₦]+|[$€£¥₦]+$/g
+const OPERATORS: Record<string, string> = { "+": "+", "-": "-", "*": "*", x: "*", X: "*", "×": "*", "/": "/", "÷": "/" }
+
+const gcd = (a: number, b: number): number => (b === 0 ? Math.abs(a) : gcd(b, a % b))
+
+const fraction = (num: number, den: number): Fraction => {
+  if (den === 0) throw new Error("Cannot divide by zero")
+
+  const divisor = gcd(num, den) || 1
+  const sign = den < 0 ? -1 : 1
+  return { num: (sign * num) / divisor, den: (sign * den) / divisor }
+}
+
+// Drop thousands separators and use "." for decimals, reading separators the way the CSV importer does:
+// a last comma followed by one or two digits is a decimal comma ("12,5", "1.234,50"),
+// any other comma groups thousands ("1,000", "1,234.50")
+export const normalizeSeparators = (text: string): string => {
+  if (text.lastIndexOf(",") > text.lastIndexOf(".") && /,\d{1,2}$/.test(text)) {
+    return text.replace(/\./g, "").replace(",", ".")
+  }
+  return text.replace(/,/g, "")
+}
+
+// "12.99" → 1299/100
+const parseNumber = (text: string): Fraction => {
+  const match = /^(\d*)\.?(\d*)$/.exec(normalizeSeparators(text))
+  if (!match || (!match[1] && !match[2])) throw new Error(`"${text}" is not a number`)
+
+  const decimals = match[2]
+  return fraction(Number(match[1] + decimals), Math.pow(10, decimals.length))
+}
+
+const applyOperator = (operator: string, left: Fraction, right: Fraction): Fraction => {
+  switch (operator) {
+    case "+":
+      return fraction(left.num * right.den + right.num * left.den, left.den * right.den)
+    case "-":
+      return fraction(left.num * right.den - right.num * left.den, left.den * right.den)
+    case "*":
+      return fraction(left.num * right.num, left.den * right.den)
+    default:
+      return fraction(left.num * right.den, left.den * right.num)
+  }
+}
+
+// Split an expression into numbers, operators and parentheses
+const tokenize = (input: string): string[] => {
+  const tokens: string[] = []
+  let i = 0
+
+  while (i < input.length) {
+    const char = input[i]
+
+    if (/\s/.test(char)) {
+      i++
+    } else if (/[\d.,]/.test(char)) {
+      let number = ""
+      while (i < input.length && /[\d.,]/.test(input[i])) number += input[i++]
+      tokens.push(number)
+    } else if (OPERATORS[char] || char === "(" || char === ")") {
+      tokens.push(OPERATORS[char] ?? char)
+      i++
+    } else {
+      throw new Error(`Unexpected "${char}"`)
+    }
+  }
+
+  return tokens
+}
+
+// Recursive descent over: sum = product (("+" | "-") product)*, product = factor (("*" | "/") factor)*,
+// factor = ("+" | "-") factor | number | "(" sum ")"
+const evaluate = (tokens: string[]): Fraction => {
+  let position = 0
+
+  const parseSum = (): Fraction => {
+    let value = parseProduct()
+    while (tokens[position] === "+" || tokens[position] === "-") {
+      const operator = tokens[position++]
+      value = applyOperator(operator, value, parseProduct())
+    }
+    return value
+  }
+
+  const parseProduct = (): Fraction => {
+    let value = parseFactor()
+    while (tokens[position] === "*" || tokens[position] === "/") {
+      const operator = tokens[position++]
+      value = applyOperator(operator, value, parseFactor())
+    }
+    return value
+  }
+
+  const parseFactor = (): Fraction => {
+    const token = tokens[position++]
+
+    if (token === undefined) throw new Error("The expression is incomplete")
+    if (token === "-") return applyOperator("-", fraction(0, 1), parseFactor())
+    if (token === "+") return parseFactor()
+
+    if (token === "(") {
+      const value = parseSum()
+      if (tokens[position++] !== ")") throw new Error("Missing closing parenthesis")
+      return value
+    }
+
+    if (token === ")" || token === "*" || token === "/") throw new Error(`Unexpected "${token}"`)
+
+    return parseNumber(token)
+  }
+
+  const value = parseSum()
+  if (position < tokens.length) throw new Error(`Unexpected "${tokens[position]}"`)
+
+  return value
+}
+
+// Round a fraction to cents, halves away from zero
+const toCents = ({ num, den }: Fraction): number => {
+  const cents = Math.floor((Math.abs(num) * 200 + den) / (2 * den))
+  return (Math.sign(num) * cents) / 100
+}
+
+// Work out an amount typed as a number or an arithmetic expression
+export const evaluateAmountExpression = (input: string): AmountExpressionResult => {
+  const expression = input.trim().replace(CURRENCY_SYMBOLS, "")
+
+  if (!expression) {
+    return { value: null, error: "Please enter an amount" }
+  }
+
+  try {
+    return { value: toCents(evaluate(tokenize(expression))), error: null }
+  } catch (error) {
+    // Every error thrown while evaluating describes what is wrong with the input
+    return { value: null, error: (error as Error).message }
+  }
+}
+
+// A date like "2026-10-15", which looks like subtraction but isn't
+const DATE_PATTERN = /(^|\s)\d{4}-\d{1,2}-\d{1,2}(\s|$)/
+
+// Check whether the input is arithmetic rather than a plain number, i.e. worth showing the result of
+export const isAmountExpression = (input: string): boolean => {
+  const expression = input.trim().replace(CURRENCY_SYMBOLS, "")
+  return (
+    /^[\d\s.,+\-*/xX×÷()]+$/.test(expression) &&
+    /[\d)]\s*[-+*/xX×÷]|\(/.test(expression) &&
+    !DATE_PATTERN.test(expression)
+  )
+}
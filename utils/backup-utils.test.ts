@@ -0,0 +1,74 @@
+import "fake-indexeddb/auto"
+import { IDBFactory } from "fake-indexeddb"
+import { beforeEach, describe, expect, it } from "vitest"
+import { BACKUP_FORMAT, BACKUP_FORMAT_VERSION, type Backup, planRestore } from "./backup-utils"
+import { LATEST_VERSION } from "./db-migrations"
+import { exportAllStores, getCategories, restoreStores, saveCategory } from "./db"
+import type { Category } from "./models"
+
+const category = (id: string, name: string): Category => ({ id, name, color: "#000000", kind: "expense" })
+
+// A backup holding just these categories
+const backupOf = (categories: Category[]): Backup => ({
+  format: BACKUP_FORMAT,
+  formatVersion: BACKUP_FORMAT_VERSION,
+  schemaVersion: LATEST_VERSION,
+  createdAt: 0,
+  stores: { categories },
+})
+
+beforeEach(() => {
+  globalThis.indexedDB = new IDBFactory()
+})
+
+describe("planRestore", () => {
+  it("counts what a restore adds, updates and removes", async () => {
+    await saveCategory(category("pets", "Pets"))
+    await saveCategory(category("kids", "Kids"))
+    const current = await exportAllStores()
+
+    const backup = backupOf([category("pets", "Pets"), category("kids", "Children"), category("garden", "Garden")])
+
+    expect(planRestore(backup, current, "replace").summaries).toEqual([
+      { storeName: "categories", added: 1, updated: 1, unchanged: 1, removed: 0, invalid: 0 },
+    ])
+  })
+
+  it("renames a backup category whose name another category has", async () => {
+    await saveCategory(category("pets", "Pets"))
+    const backup = backupOf([category("pets-2", "Pets")])
+
+    const plan = planRestore(backup, await exportAllStores(), "merge")
+
+    expect(plan.snapshot.categories?.map((c) => c.name)).toEqual(["Pets (restored)"])
+    expect(plan.warnings).toContain(
+      'The category "Pets" will be restored as "Pets (restored)", as another category has that name',
+    )
+
+    await restoreStores(plan.snapshot, "merge")
+    expect((await getCategories()).map((c) => c.name)).toEqual(expect.arrayContaining(["Pets", "Pets (restored)"]))
+  })
+
+  it("catches names swapped between two categories, which clash while writing", async () => {
+    await saveCategory(category("a", "Pets"))
+    await saveCategory(category("b", "Kids"))
+    const backup = backupOf([category("a", "Kids"), category("b", "Pets")])
+
+    // Written as they come, "a" takes "Kids" while "b" still has it
+    await expect(restoreStores(backup.stores, "merge")).rejects.toBeDefined()
+
+    const plan = planRestore(backup, await exportAllStores(), "merge")
+
+    await expect(restoreStores(plan.snapshot, "merge")).resolves.toBeUndefined()
+  })
+
+  it("leaves names alone when replacing clears the clashing category", async () => {
+    await saveCategory(category("pets", "Pets"))
+    const backup = backupOf([category("pets-2", "Pets")])
+
+    const plan = planRestore(backup, await exportAllStores(), "replace")
+
+    expect(plan.snapshot.categories?.map((c) => c.name)).toEqual(["Pets"])
+    await expect(restoreStores(plan.snapshot, "replace")).resolves.toBeUndefined()
+  })
+})
@@ -0,0 +1,246 @@
+import { z } from "zod"
+import {
+  STORE_NAMES,
+  STORE_SCHEMAS,
+  type MalformedRecord,
+  type StoreContents,
+  type StoreName,
+  type StoreRecords,
+  type StoreSnapshot,
+} from "./db"
+import { LATEST_VERSION } from "./db-migrations"
+import type { Category } from "./models"
+
+// Identifies a file as a Spenders backup
+export const BACKUP_FORMAT = "spenders-backup"
+
+// Version of the backup file layout; bump when the envelope below changes
+export const BACKUP_FORMAT_VERSION = 1
+
+export type RestoreMode = "merge" | "replace"
+
+// Backup file envelope; records are validated per store when the backup is restored
+export const BackupSchema = z.object({
+  format: z.literal(BACKUP_FORMAT),
+  formatVersion: z.number().int(),
+  schemaVersion: z.number().int(), // spendersDB version the backup was taken from
+  createdAt: z.number(),
+  stores: z.record(z.string(), z.array(z.unknown())),
+})
+
+export type Backup = z.infer<typeof BackupSchema>
+
+// What a restore would do to one store
+export interface StoreRestoreSummary {
+  storeName: StoreName
+  added: number
+  updated: number
+  unchanged: number
+  removed: number
+  invalid: number
+}
+
+// Result of checking a backup against the current data, shown before anything is written
+export interface RestorePlan {
+  snapshot: StoreSnapshot // Valid records to write
+  summaries: StoreRestoreSummary[]
+  warnings: string[]
+}
+
+// Key path of each store, used to match backup records with existing ones
+const STORE_KEYS: Record<StoreName, string> = {
+  expenses: "id",
+  settings: "name",
+  categories: "id",
+  budgetGoals: "id",
+  accounts: "id",
+  recurringRules: "id",
+  categoryRules: "id",
+  trash: "id",
+  changeLog: "id",
+}
+
+/**
+ * Build a backup of every store
+ */
+export function createBackup(stores: StoreContents): Backup {
+  return {
+    format: BACKUP_FORMAT,
+    formatVersion: BACKUP_FORMAT_VERSION,
+    schemaVersion: LATEST_VERSION,
+    createdAt: Date.now(),
+    stores,
+  }
+}
+
+/**
+ * Save data as a JSON file
+ */
+function downloadJSON(data: unknown, filename: string): void {
+  const blob = new Blob([JSON.stringify(data, null, 2)], { type: "application/json" })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement("a")
+  link.setAttribute("href", url)
+  link.setAttribute("download", filename)
+  link.style.visibility = "hidden"
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  URL.revokeObjectURL(url)
+}
+
+/**
+ * Download a backup as a JSON file
+ */
+export function downloadBackup(backup: Backup): void {
+  const dateStr = new Date(backup.createdAt).toISOString().split("T")[0] // YYYY-MM-DD format
+  downloadJSON(backup, `spenders-backup-${dateStr}.json`)
+}
+
+/**
+ * Download the records that couldn't be read, with what is wrong with each, so they can be fixed by hand
+ * (backups only hold records that can be read)
+ */
+export function downloadMalformedRecords(records: MalformedRecord[]): void {
+  downloadJSON(records, "spenders-unreadable-records.json")
+}
+
+/**
+ * Parse a backup file, throwing an error with a readable message if it can't be restored
+ */
+export function parseBackup(text: string): Backup {
+  let json: unknown
+  try {
+    json = JSON.parse(text)
+  } catch {
+    throw new Error("This file isn't valid JSON")
+  }
+
+  const result = BackupSchema.safeParse(json)
+  if (!result.success) {
+    throw new Error("This file isn't a Spenders backup")
+  }
+
+  const backup = result.data
+
+  if (backup.formatVersion > BACKUP_FORMAT_VERSION) {
+    throw new Error("This backup was made by a newer version of Spenders, please update the app first")
+  }
+
+  // Records from a newer schema may have fields this version would silently drop
+  if (backup.schemaVersion > LATEST_VERSION) {
+    throw new Error(
+      `This backup uses database version ${backup.schemaVersion}, but this app only supports up to ${LATEST_VERSION}`,
+    )
+  }
+
+  return backup
+}
+
+/**
+ * Rename backup categories whose name another category already has, as the categories store allows
+ * each name once and a clash would abort the whole restore. Categories are checked in the order they
+ * are written, against the ones the store holds at that point.
+ */
+function renameClashingCategories(
+  categories: Category[],
+  current: Category[],
+  mode: RestoreMode,
+): { categories: Category[]; warnings: string[] } {
+  const names = new Map(mode === "merge" ? current.map((category) => [category.id, category.name]) : [])
+  const warnings: string[] = []
+
+  const renamed = categories.map((category) => {
+    const isTaken = (name: string) => Array.from(names).some(([id, other]) => id !== category.id && other === name)
+
+    let name = category.name
+    for (let n = 1; isTaken(name); n++) {
+      name = n === 1 ? `${category.name} (restored)` : `${category.name} (restored ${n})`
+    }
+    names.set(category.id, name)
+
+    if (name === category.name) return category
+
+    warnings.push(`The category "${category.name}" will be restored as "${name}", as another category has that name`)
+    return { ...category, name }
+  })
+
+  return { categories: renamed, warnings }
+}
+
+/**
+ * Work out what restoring a backup would change, without writing anything (the dry run)
+ * Records that fail validation are counted and left out of the restore
+ */
+export function planRestore(
+  backup: Backup,
+  current: StoreContents,
+  mode: RestoreMode,
+): RestorePlan {
+  const snapshot: StoreSnapshot = {}
+  const warnings: string[] = []
+
+  Object.keys(backup.stores)
+    .filter((storeName) => !STORE_NAMES.includes(storeName as StoreName))
+    .forEach((storeName) => warnings.push(`Unknown data "${storeName}" will be ignored`))
+
+  if (backup.schemaVersion < LATEST_VERSION) {
+    warnings.push(`This backup is from an older version of Spenders (database v${backup.schemaVersion})`)
+  }
+
+  const summaries = STORE_NAMES.filter((storeName) => backup.stores[storeName] !== undefined).map(
+    <K extends StoreName>(storeName: K): StoreRestoreSummary => {
+      const keyPath = STORE_KEYS[storeName]
+      const getKey = (record: StoreRecords[K]) => String((record as Record<string, unknown>)[keyPath])
+
+      let records: StoreRecords[K][] = []
+      let invalid = 0
+      backup.stores[storeName].forEach((row) => {
+        const result = STORE_SCHEMAS[storeName].safeParse(row)
+        if (result.success) {
+          records.push(result.data)
+        } else {
+          invalid++
+        }
+      })
+
+      if (storeName === "categories") {
+        const result = renameClashingCategories(records as Category[], current.categories, mode)
+        records = result.categories as StoreRecords[K][]
+        warnings.push(...result.warnings)
+      }
+
+      const existing = new Map(current[storeName].map((record) => [getKey(record), JSON.stringify(record)]))
+      const backupKeys = new Set(records.map(getKey))
+
+      let added = 0
+      let updated = 0
+      let unchanged = 0
+      records.forEach((record) => {
+        const existingRecord = existing.get(getKey(record))
+        if (existingRecord === undefined) {
+          added++
+        } else if (existingRecord === JSON.stringify(record)) {
+          unchanged++
+        } else {
+          updated++
+        }
+      })
+
+      // The change log is merged even when replacing, so none of it is removed
+      const removed =
+        mode === "replace" && storeName !== "changeLog"
+          ? [...existing.keys()].filter((key) => !backupKeys.has(key)).length
+          : 0
+
+      Object.assign(snapshot, { [storeName]: records })
+      return { storeName, added, updated, unchanged, removed, invalid }
+    },
+  )
+
+  if (summaries.some((summary) => summary.invalid > 0)) {
+    warnings.push("Some records are damaged and will be skipped")
+  }
+
+  return { snapshot, summaries, warnings }
+}
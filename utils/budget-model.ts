@@ -1,15 +1,7 @@
-// Budget goal model
-export interface BudgetGoal {
-  id: string
-  category: string
-  amount: number
-  period: "daily" | "weekly" | "monthly"
-  createdAt: number
-  updatedAt: number
-}
+import type { BudgetPeriod } from "./models"
 
-// Budget period types
-export type BudgetPeriod = "daily" | "weekly" | "monthly"
+// Budget goal and period types live with the other stored models
+export type { BudgetGoal, BudgetPeriod } from "./models"
 
 // Budget status
 export interface BudgetStatus {
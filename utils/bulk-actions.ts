@@ -0,0 +1,30 @@
+import type { Category, Expense } from "./models"
+import { getCategoryKind } from "./categories"
+
+// Changes applied to many selected transactions at once
+
+// Ids between the last clicked transaction and the one shift-clicked, both included, in list order
+export const selectRange = (orderedIds: string[], anchorId: string, targetId: string): string[] => {
+  const anchor = orderedIds.indexOf(anchorId)
+  const target = orderedIds.indexOf(targetId)
+  if (anchor === -1 || target === -1) return [targetId]
+
+  return orderedIds.slice(Math.min(anchor, target), Math.max(anchor, target) + 1)
+}
+
+// Move transactions into a category, replacing any splits
+// Only transactions of the category's kind change: transfers and the other kind are left as they are
+export const recategorizeExpenses = (expenses: Expense[], category: Category): Expense[] => {
+  const kind = getCategoryKind(category)
+
+  return expenses
+    .filter((expense) => expense.type === kind && (expense.category !== category.id || expense.splits))
+    .map((expense) => ({ ...expense, category: category.id, splits: undefined }))
+}
+
+// Add tags to transactions, leaving out the ones that already have them all
+export const addTagsToExpenses = (expenses: Expense[], tags: string[]): Expense[] => {
+  return expenses
+    .filter((expense) => tags.some((tag) => !expense.tags?.includes(tag)))
+    .map((expense) => ({ ...expense, tags: Array.from(new Set([...(expense.tags ?? []), ...tags])) }))
+}
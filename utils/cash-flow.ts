@@ -0,0 +1,64 @@
+import type { Account, Expense } from "./models"
+
+// Spending, income and net cash flow for a set of transactions
+export interface CashFlow {
+  spent: number
+  income: number
+  net: number
+}
+
+// Check whether a transaction is income
+export const isIncome = (transaction: Expense): boolean => transaction.type === "income"
+
+// Check whether a transaction is spending
+export const isSpending = (transaction: Expense): boolean => transaction.type === "expense"
+
+// Check whether a transaction is a transfer between accounts
+export const isTransfer = (transaction: Expense): boolean => transaction.type === "transfer"
+
+// Total spending of a set of transactions
+export const sumSpending = (transactions: Expense[]): number => {
+  return transactions.filter(isSpending).reduce((sum, transaction) => sum + transaction.amount, 0)
+}
+
+// Total income of a set of transactions
+export const sumIncome = (transactions: Expense[]): number => {
+  return transactions.filter(isIncome).reduce((sum, transaction) => sum + transaction.amount, 0)
+}
+
+// Spending, income and net (income minus spending) of a set of transactions
+export const calculateCashFlow = (transactions: Expense[]): CashFlow => {
+  const spent = sumSpending(transactions)
+  const income = sumIncome(transactions)
+  return { spent, income, net: income - spent }
+}
+
+// Cash flow of the transactions between two timestamps (inclusive)
+export const calculateCashFlowForPeriod = (transactions: Expense[], start: number, end: number): CashFlow => {
+  return calculateCashFlow(transactions.filter((t) => t.timestamp >= start && t.timestamp <= end))
+}
+
+// Current balance of each account: opening balance plus income and transfers in,
+// minus spending and transfers out
+export const calculateAccountBalances = (accounts: Account[], transactions: Expense[]): Map<string, number> => {
+  const balances = new Map(accounts.map((account) => [account.id, account.openingBalance]))
+
+  const adjust = (accountId: string | undefined, amount: number) => {
+    if (accountId && balances.has(accountId)) {
+      balances.set(accountId, (balances.get(accountId) ?? 0) + amount)
+    }
+  }
+
+  transactions.forEach((transaction) => {
+    if (isIncome(transaction)) {
+      adjust(transaction.accountId, transaction.amount)
+    } else if (isTransfer(transaction)) {
+      adjust(transaction.accountId, -transaction.amount)
+      adjust(transaction.toAccountId, transaction.amount)
+    } else {
+      adjust(transaction.accountId, -transaction.amount)
+    }
+  })
+
+  return balances
+}
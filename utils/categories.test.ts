@@ -0,0 +1,61 @@
+import "fake-indexeddb/auto"
+import { IDBFactory } from "fake-indexeddb"
+import { beforeEach, describe, expect, it } from "vitest"
+import {
+  addCategory,
+  createCategoryRecord,
+  deleteCategory,
+  loadCategories,
+  resolveCategory,
+  validateCategoryName,
+} from "./categories"
+
+beforeEach(() => {
+  globalThis.indexedDB = new IDBFactory()
+})
+
+describe("createCategoryRecord", () => {
+  it("makes the id from the name", () => {
+    expect(createCategoryRecord([], { name: "Pet Food", color: "#000" }).id).toBe("pet-food")
+  })
+
+  it("numbers the id when a category already uses it", () => {
+    const stored = [{ id: "pets", name: "Animals", color: "#000" }]
+
+    expect(createCategoryRecord(stored, { name: "Pets", color: "#000" }).id).toBe("pets-2")
+    expect(createCategoryRecord([], { name: "Food", color: "#000" }).id).toBe("food-2")
+  })
+
+  it("brings back a deleted category with the same name", () => {
+    const stored = [{ id: "health", name: "Health", color: "#34d399", icon: "💊", deleted: true }]
+
+    const record = createCategoryRecord(stored, { name: "health", color: "#111", kind: "expense" })
+
+    expect(record).toMatchObject({ id: "health", name: "health", color: "#111", icon: "💊" })
+    expect(record.deleted).toBeUndefined()
+  })
+})
+
+describe("deleted built-in categories", () => {
+  const deleteHealth = async () => {
+    const categories = await loadCategories()
+    await deleteCategory(resolveCategory(categories, "health"), null)
+  }
+
+  it("can be added again", async () => {
+    await deleteHealth()
+    expect(await validateCategoryName("Health")).toBeNull()
+
+    await addCategory({ name: "Health", color: "#111", kind: "expense" })
+
+    const health = (await loadCategories()).find((category) => category.id === "health")
+    expect(health).toMatchObject({ name: "Health", color: "#111" })
+  })
+
+  it("keep their name from being taken by a rename", async () => {
+    await deleteHealth()
+
+    expect(await validateCategoryName("Health", "food")).toMatch(/deleted category/)
+    expect(await validateCategoryName("food & dining", "health")).toMatch(/already exists/)
+  })
+})
@@ -0,0 +1,192 @@
+import type { Category, CategoryKind } from "./models"
+import { addCustomCategory, getCategories, reassignCategory, saveCategory } from "./db"
+
+// Category registry: the built-in categories plus the custom ones from the categories store
+// Components read categories through the CategoryProvider context instead of keeping their own lists
+
+// Default expense categories
+export const DEFAULT_CATEGORIES: Category[] = [
+  { id: "food", name: "Food & Dining", color: "#4ade80", icon: "🍔", kind: "expense" },
+  { id: "transport", name: "Transportation", color: "#60a5fa", icon: "🚗", kind: "expense" },
+  { id: "shopping", name: "Shopping", color: "#f472b6", icon: "🛍️", kind: "expense" },
+  { id: "entertainment", name: "Entertainment", color: "#a78bfa", icon: "🎬", kind: "expense" },
+  { id: "utilities", name: "Bills & Utilities", color: "#fbbf24", icon: "📱", kind: "expense" },
+  { id: "health", name: "Health", color: "#34d399", icon: "💊", kind: "expense" },
+]
+
+// Default income categories
+export const INCOME_CATEGORIES: Category[] = [
+  { id: "salary", name: "Salary", color: "#22c55e", icon: "💼", kind: "income" },
+  { id: "side-income", name: "Side Income", color: "#14b8a6", icon: "🧰", kind: "income" },
+  { id: "investments", name: "Investments", color: "#0ea5e9", icon: "📈", kind: "income" },
+  { id: "gifts", name: "Gifts", color: "#e879f9", icon: "🎁", kind: "income" },
+  { id: "other-income", name: "Other Income", color: "#94a3b8", icon: "💵", kind: "income" },
+]
+
+export const BUILT_IN_CATEGORIES: Category[] = [...DEFAULT_CATEGORIES, ...INCOME_CATEGORIES]
+
+// Shown for transfers, which have no category of their own
+export const TRANSFER_CATEGORY: Category = { id: "transfer", name: "Transfer", color: "#64748b", icon: "🔁" }
+
+// Color options for categories
+export const COLOR_OPTIONS = [
+  { name: "Green", value: "#4ade80" },
+  { name: "Blue", value: "#60a5fa" },
+  { name: "Pink", value: "#f472b6" },
+  { name: "Purple", value: "#a78bfa" },
+  { name: "Yellow", value: "#fbbf24" },
+  { name: "Teal", value: "#34d399" },
+  { name: "Orange", value: "#fb923c" },
+  { name: "Red", value: "#f87171" },
+  { name: "Indigo", value: "#818cf8" },
+]
+
+// Color and icon for transactions whose category no longer exists
+export const FALLBACK_COLOR = "#94a3b8"
+export const FALLBACK_ICON = "📦"
+
+// Categories created before income existed have no kind and are expense categories
+export const getCategoryKind = (category: Category): CategoryKind => category.kind ?? "expense"
+
+export const isBuiltInCategory = (id: string): boolean => BUILT_IN_CATEGORIES.some((category) => category.id === id)
+
+// Combine the built-in categories with stored ones
+// A stored category with a built-in ID is an edit of that category and replaces it
+export const mergeCategories = (storedCategories: Category[]): Category[] => {
+  const categories = BUILT_IN_CATEGORIES.map(
+    (builtIn) => storedCategories.find((stored) => stored.id === builtIn.id) ?? builtIn,
+  )
+
+  storedCategories.forEach((stored) => {
+    if (!isBuiltInCategory(stored.id)) {
+      categories.push(stored)
+    }
+  })
+
+  return categories.filter((category) => !category.deleted)
+}
+
+// Order categories so each top-level category is followed by its sub-categories
+export const sortCategoriesByParent = (categories: Category[]): Category[] => {
+  const ids = new Set(categories.map((category) => category.id))
+  const topLevel = categories.filter((category) => !category.parentId || !ids.has(category.parentId))
+
+  return topLevel.flatMap((parent) => [parent, ...categories.filter((category) => category.parentId === parent.id)])
+}
+
+// IDs of a category and its sub-categories, used to total a category at either level
+export const getCategoryWithChildren = (categories: Category[], id: string): string[] => {
+  return [id, ...categories.filter((category) => category.parentId === id).map((category) => category.id)]
+}
+
+// Amount spent in one category
+export interface CategoryAmount {
+  id: string
+  amount: number
+}
+
+// Total of a top-level category, with the amounts it is made of for drilling down
+// `children` includes the parent itself when money was recorded directly against it
+export interface CategoryRollUp extends CategoryAmount {
+  children: CategoryAmount[]
+}
+
+// Roll per-category amounts up to their top-level categories, largest first
+export const rollUpCategoryTotals = (categories: Category[], amounts: CategoryAmount[]): CategoryRollUp[] => {
+  const rollUps = new Map<string, CategoryRollUp>()
+
+  amounts.forEach(({ id, amount }) => {
+    const parentId = categories.find((category) => category.id === id)?.parentId ?? id
+    const rollUp = rollUps.get(parentId) ?? { id: parentId, amount: 0, children: [] }
+
+    rollUp.amount += amount
+    rollUp.children.push({ id, amount })
+    rollUps.set(parentId, rollUp)
+  })
+
+  return Array.from(rollUps.values())
+    .map((rollUp) => ({ ...rollUp, children: rollUp.children.sort((a, b) => b.amount - a.amount) }))
+    .sort((a, b) => b.amount - a.amount)
+}
+
+// Load every category (built-in and custom)
+export const loadCategories = async (): Promise<Category[]> => {
+  return mergeCategories(await getCategories())
+}
+
+// Save a renamed, recolored or (un)archived category; built-in categories are stored as edits
+export const updateCategory = async (category: Category): Promise<void> => {
+  await saveCategory(category)
+}
+
+// Category id made from its name (lowercase, no spaces)
+const slugify = (name: string): string => name.trim().toLowerCase().replace(/\s+/g, "-")
+
+const isSameName = (a: string, b: string): boolean => a.trim().toLowerCase() === b.trim().toLowerCase()
+
+// The record to store for a new category
+// A deleted category with the same name or id is brought back (keeping its icon) rather than clashing with it,
+// and a number is added to the id if a category already uses it
+export const createCategoryRecord = (stored: Category[], category: Omit<Category, "id">): Category => {
+  const id = slugify(category.name)
+  const deleted = stored.find((other) => other.deleted && (isSameName(other.name, category.name) || other.id === id))
+
+  if (deleted) {
+    return { ...deleted, ...category, id: deleted.id, archived: undefined, deleted: undefined }
+  }
+
+  const takenIds = new Set([...BUILT_IN_CATEGORIES, ...stored].map((other) => other.id))
+  let uniqueId = id
+  for (let n = 2; takenIds.has(uniqueId); n++) uniqueId = `${id}-${n}`
+
+  return { ...category, id: uniqueId }
+}
+
+// Check a name against every stored category, including deleted ones, which still hold their name
+// Returns an error message, or null if the name can be used; pass the id when renaming a category
+export const validateCategoryName = async (name: string, id?: string): Promise<string | null> => {
+  const stored = await getCategories()
+  const takesName = (category: Category) => category.id !== id && isSameName(category.name, name)
+
+  if (mergeCategories(stored).some(takesName)) return "A category with this name already exists"
+
+  // Only a new category can take over a deleted one's name, by bringing it back
+  if (id && stored.some((category) => category.deleted && takesName(category))) {
+    return "A deleted category had this name. Add it as a new category to bring it back"
+  }
+
+  return null
+}
+
+// Add a category, returning the record stored for it
+export const addCategory = async (category: Omit<Category, "id">): Promise<Category> => {
+  const record = createCategoryRecord(await getCategories(), category)
+  await addCustomCategory(record)
+  return record
+}
+
+// Built-in categories can't be removed from the list in code, so a deleted marker is stored instead
+const getReplacementRecord = (category: Category): Category | null =>
+  isBuiltInCategory(category.id) ? { ...category, archived: false, deleted: true } : null
+
+// Merge one category into another: its transactions, budget goals, recurring bills and sub-categories move to the target
+export const mergeCategory = async (source: Category, targetId: string): Promise<void> => {
+  await reassignCategory(source.id, targetId, "merge", getReplacementRecord(source))
+}
+
+// Delete a category, moving its transactions and recurring bills to `reassignTo`; its budget goals are removed
+// and its sub-categories become top-level categories if there's nowhere to move them
+// Fails if the category is still in use and no reassignment target is given
+export const deleteCategory = async (category: Category, reassignTo: string | null): Promise<void> => {
+  await reassignCategory(category.id, reassignTo, "delete", getReplacementRecord(category))
+}
+
+// Find a category by ID, falling back to a grey placeholder named after the ID for unknown ones
+export const resolveCategory = (categories: Category[], id: string): Category => {
+  if (id === TRANSFER_CATEGORY.id) return TRANSFER_CATEGORY
+
+  const category = categories.find((c) => c.id === id)
+  if (category) return category
+
+  return { id, name: id.charAt(0).toUpperCase() + id.slice(1), color: FALLBACK_COLOR, icon: FALLBACK_ICON }
+}
@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest"
+import { buildClassifier, evaluateClassifier, suggestCategories, tokenizeNote } from "./category-classifier"
+import type { Category, Expense } from "./models"
+
+let nextId = 0
+const expense = (
+  category: string,
+  note: string,
+  amount: number,
+  hour: number,
+  extra: Partial<Expense> = {},
+): Expense => ({
+  id: String(nextId++),
+  type: "expense",
+  amount,
+  // Weekdays in October 2026
+  timestamp: new Date(2026, 9, 5 + (nextId % 5), hour, 0).getTime(),
+  category,
+  note,
+  ...extra,
+})
+
+// Rides in the morning, dinners in the evening, groceries at the weekend
+const HISTORY: Expense[] = [
+  ...Array.from({ length: 8 }, () => expense("transport", "Uber to work", 12, 8)),
+  ...Array.from({ length: 6 }, () => expense("food", "Dinner with friends", 45, 19)),
+  ...Array.from({ length: 10 }, () => expense("shopping", "Groceries", 60, 11)),
+  expense("salary", "October pay", 3000, 9, { type: "income" }),
+]
+
+const ids = (categories: Category[]) => categories.map((category) => category.id)
+
+describe("tokenizeNote", () => {
+  it("keeps meaningful words once, lowercase", () => {
+    expect(tokenizeNote("Uber to the Airport, uber 2 of 3 at 12:40")).toEqual(["uber", "airport"])
+  })
+})
+
+describe("suggestCategories", () => {
+  const model = buildClassifier(HISTORY)
+  const expenseCategories = ["food", "transport", "shopping", "entertainment"]
+
+  it("suggests nothing without history", () => {
+    expect(suggestCategories(buildClassifier([]), { note: "Uber", amount: 12 }, expenseCategories)).toEqual([])
+  })
+
+  it("suggests nothing when none of the candidates has been used", () => {
+    expect(suggestCategories(model, { note: "Uber" }, ["entertainment", "health"])).toEqual([])
+  })
+
+  it("ranks the category with a strong signal first", () => {
+    const [first, second] = suggestCategories(
+      model,
+      { note: "uber home", amount: 12, timestamp: new Date(2026, 9, 19, 7, 30).getTime() },
+      expenseCategories,
+    )
+
+    expect(first.category).toBe("transport")
+    expect(first.confidence).toBeGreaterThan(0.9)
+    expect(second.confidence).toBeLessThan(first.confidence)
+  })
+
+  it("guesses from the time and amount when there is no note", () => {
+    const [first] = suggestCategories(
+      model,
+      { amount: 45, timestamp: new Date(2026, 9, 20, 20, 0).getTime() },
+      expenseCategories,
+    )
+
+    expect(first.category).toBe("food")
+  })
+
+  it("gives probabilities adding up to one, for known candidates only", () => {
+    const suggestions = suggestCategories(model, { note: "dinner" }, expenseCategories)
+
+    expect(suggestions.map(({ category }) => category).sort()).toEqual(["food", "shopping", "transport"])
+    expect(suggestions.reduce((sum, { confidence }) => sum + confidence, 0)).toBeCloseTo(1)
+  })
+
+  it("leaves out archived categories and those of another kind", () => {
+    const categories: Category[] = [
+      { id: "transport", name: "Transportation", color: "#000", kind: "expense", archived: true },
+      { id: "food", name: "Food & Dining", color: "#000", kind: "expense" },
+      { id: "salary", name: "Salary", color: "#000", kind: "income" },
+    ]
+    // The candidates as the add form offers them: not archived and of the transaction's kind
+    const candidates = categories.filter((category) => !category.archived && category.kind === "expense")
+
+    const suggestions = suggestCategories(model, { note: "Uber to work", amount: 12 }, ids(candidates))
+
+    expect(suggestions.map(({ category }) => category)).toEqual(["food"])
+  })
+
+  it("doesn't learn from transfers", () => {
+    const withTransfers = buildClassifier([
+      ...HISTORY,
+      ...Array.from({ length: 20 }, () => expense("transfer", "Uber", 12, 8, { type: "transfer" })),
+    ])
+
+    expect(withTransfers.categoryCounts.has("transfer")).toBe(false)
+  })
+})
+
+describe("evaluateClassifier", () => {
+  it("beats always guessing the most used category", () => {
+    const stats = evaluateClassifier(HISTORY)
+
+    expect(stats.evaluated).toBe(HISTORY.length - 2) // The first expense and the only income have nothing to go on
+    expect(stats.correct).toBeGreaterThan(stats.baselineCorrect)
+    expect(stats.topThreeCorrect).toBeGreaterThanOrEqual(stats.correct)
+  })
+})
@@ -0,0 +1,179 @@
+import type { Expense } from "./models"
+
+// Category suggestions learned from past transactions, computed entirely on the device
+// A naive Bayes classifier over the words of the note, the time of day and the size of the amount:
+// "uber" at 8am for 12.00 looks like past transport rides, a note-less 45.00 at 7pm like dinner.
+
+// Transaction details a suggestion is based on
+export interface ClassifierInput {
+  note?: string
+  amount?: number
+  timestamp?: number
+}
+
+export interface CategorySuggestion {
+  category: string
+  confidence: number // Probability between 0 and 1
+}
+
+// Counts learned from past transactions
+export interface ClassifierModel {
+  total: number
+  categoryCounts: Map<string, number> // Transactions per category
+  featureCounts: Map<string, Map<string, number>> // Category → feature → count
+  featureTotals: Map<string, number> // Category → number of features seen
+  vocabulary: Set<string>
+}
+
+// How well the classifier predicts each transaction from the ones recorded before it
+export interface ClassifierStats {
+  evaluated: number
+  correct: number
+  topThreeCorrect: number
+  baselineCorrect: number // Always guessing the most used category
+  byCategory: { category: string; count: number; correct: number }[]
+}
+
+// Words too common in notes to say anything about the category
+const STOP_WORDS = new Set(["the", "and", "for", "with", "from", "into", "some", "this", "that"])
+
+// Split a note into lowercase words, leaving out numbers and filler words
+export const tokenizeNote = (note: string): string[] => {
+  return Array.from(
+    new Set(
+      note
+        .toLowerCase()
+        .split(/[^a-z0-9\u00c0-\uffff]+/)
+        .filter((word) => word.length >= 3 && !STOP_WORDS.has(word) && !/^\d+$/.test(word)),
+    ),
+  )
+}
+
+// Features of a transaction: note words, part of the day, weekend or not, and order of magnitude of the amount
+const getFeatures = ({ note, amount, timestamp }: ClassifierInput): string[] => {
+  const features = tokenizeNote(note ?? "").map((word) => `word:${word}`)
+
+  if (timestamp !== undefined) {
+    const date = new Date(timestamp)
+    features.push(`hour:${Math.floor(date.getHours() / 6)}`)
+    features.push(`day:${date.getDay() === 0 || date.getDay() === 6 ? "weekend" : "weekday"}`)
+  }
+
+  if (amount !== undefined && amount > 0) {
+    features.push(`amount:${Math.round(Math.log2(amount))}`)
+  }
+
+  return features
+}
+
+export const createClassifier = (): ClassifierModel => ({
+  total: 0,
+  categoryCounts: new Map(),
+  featureCounts: new Map(),
+  featureTotals: new Map(),
+  vocabulary: new Set(),
+})
+
+// Learn from one transaction (updates the model in place)
+export const trainClassifier = (model: ClassifierModel, expense: Expense): void => {
+  const { category } = expense
+  const counts = model.featureCounts.get(category) ?? new Map<string, number>()
+  const features = getFeatures(expense)
+
+  features.forEach((feature) => {
+    counts.set(feature, (counts.get(feature) ?? 0) + 1)
+    model.vocabulary.add(feature)
+  })
+
+  model.total++
+  model.categoryCounts.set(category, (model.categoryCounts.get(category) ?? 0) + 1)
+  model.featureCounts.set(category, counts)
+  model.featureTotals.set(category, (model.featureTotals.get(category) ?? 0) + features.length)
+}
+
+// Transactions the classifier learns from: transfers have no category
+const isTrainable = (expense: Expense): boolean => expense.type !== "transfer"
+
+// Build a classifier from past transactions
+export const buildClassifier = (expenses: Expense[]): ClassifierModel => {
+  const model = createClassifier()
+  expenses.filter(isTrainable).forEach((expense) => trainClassifier(model, expense))
+  return model
+}
+
+// Rank the candidate categories for a transaction, most likely first
+// Returns nothing until the model has seen at least one of the candidates
+export const suggestCategories = (
+  model: ClassifierModel,
+  input: ClassifierInput,
+  candidates: string[],
+): CategorySuggestion[] => {
+  const known = candidates.filter((category) => model.categoryCounts.has(category))
+  if (known.length === 0) return []
+
+  const features = getFeatures(input)
+  const knownTotal = known.reduce((sum, category) => sum + (model.categoryCounts.get(category) ?? 0), 0)
+  const vocabularySize = model.vocabulary.size + 1
+
+  // Log probabilities with add-one smoothing, so unseen words don't rule a category out
+  const scores = known.map((category) => {
+    const counts = model.featureCounts.get(category)
+    const featureTotal = model.featureTotals.get(category) ?? 0
+    let score = Math.log((model.categoryCounts.get(category) ?? 0) / knownTotal)
+
+    features.forEach((feature) => {
+      score += Math.log(((counts?.get(feature) ?? 0) + 1) / (featureTotal + vocabularySize))
+    })
+
+    return { category, score }
+  })
+
+  // Normalize into probabilities without overflowing
+  const maxScore = Math.max(...scores.map(({ score }) => score))
+  const weights = scores.map(({ category, score }) => ({ category, weight: Math.exp(score - maxScore) }))
+  const totalWeight = weights.reduce((sum, { weight }) => sum + weight, 0)
+
+  return weights
+    .map(({ category, weight }) => ({ category, confidence: weight / totalWeight }))
+    .sort((a, b) => b.confidence - a.confidence)
+}
+
+// Measure accuracy by predicting every transaction from the ones recorded before it, the way
+// suggestions are made while typing. Each type (expense, income) only competes with its own categories.
+export const evaluateClassifier = (expenses: Expense[]): ClassifierStats => {
+  const model = createClassifier()
+  const categoriesByType = new Map<string, Set<string>>()
+  const byCategory = new Map<string, { category: string; count: number; correct: number }>()
+  const stats: ClassifierStats = { evaluated: 0, correct: 0, topThreeCorrect: 0, baselineCorrect: 0, byCategory: [] }
+
+  expenses
+    .filter(isTrainable)
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .forEach((expense) => {
+      const candidates = Array.from(categoriesByType.get(expense.type) ?? [])
+      const suggestions = suggestCategories(model, expense, candidates)
+
+      if (suggestions.length > 0) {
+        const baseline = candidates.reduce((best, category) =>
+          (model.categoryCounts.get(category) ?? 0) > (model.categoryCounts.get(best) ?? 0) ? category : best,
+        )
+        const isCorrect = suggestions[0].category === expense.category
+        const categoryStats = byCategory.get(expense.category) ?? { category: expense.category, count: 0, correct: 0 }
+
+        stats.evaluated++
+        if (isCorrect) stats.correct++
+        if (suggestions.slice(0, 3).some(({ category }) => category === expense.category)) stats.topThreeCorrect++
+        if (baseline === expense.category) stats.baselineCorrect++
+
+        categoryStats.count++
+        if (isCorrect) categoryStats.correct++
+        byCategory.set(expense.category, categoryStats)
+      }
+
+      trainClassifier(model, expense)
+      categoriesByType.set(expense.type, (categoriesByType.get(expense.type) ?? new Set()).add(expense.category))
+    })
+
+  stats.byCategory = Array.from(byCategory.values()).sort((a, b) => b.count - a.count)
+  return stats
+}
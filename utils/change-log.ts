@@ -0,0 +1,63 @@
+import type { ChangeAction, ChangeLogEntry, LoggedStore } from "./models"
+
+// Reading the change log: which fields an edit touched and how to label them
+
+export interface FieldChange {
+  field: string
+  before: unknown
+  after: unknown
+}
+
+// Fields that change on every save and say nothing on their own
+const IGNORED_FIELDS = new Set(["updatedAt", "createdAt"])
+
+export const FIELD_LABELS: Record<string, string> = {
+  type: "Type",
+  amount: "Amount",
+  category: "Category",
+  splits: "Split",
+  note: "Note",
+  tags: "Tags",
+  timestamp: "Date",
+  accountId: "Account",
+  toAccountId: "To account",
+  period: "Period",
+  name: "Name",
+  color: "Color",
+  icon: "Icon",
+  kind: "Kind",
+  parentId: "Parent category",
+  archived: "Archived",
+  deleted: "Deleted",
+}
+
+export const ACTION_LABELS: Record<ChangeAction, string> = {
+  create: "Added",
+  update: "Edited",
+  delete: "Deleted",
+  restore: "Restored",
+}
+
+export const STORE_LABELS: Record<LoggedStore, string> = {
+  expenses: "Transaction",
+  categories: "Category",
+  budgetGoals: "Budget goal",
+}
+
+// Fields that differ between the snapshots of an edit or a restore over an existing record, in a stable order
+export const getFieldChanges = (entry: ChangeLogEntry): FieldChange[] => {
+  if (!entry.before || !entry.after) return []
+
+  const before = entry.before ?? {}
+  const after = entry.after ?? {}
+  const fields = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]))
+  const order = Object.keys(FIELD_LABELS)
+
+  return fields
+    .filter((field) => !IGNORED_FIELDS.has(field) && JSON.stringify(before[field]) !== JSON.stringify(after[field]))
+    .sort((a, b) => (order.indexOf(a) + 1 || order.length + 1) - (order.indexOf(b) + 1 || order.length + 1))
+    .map((field) => ({ field, before: before[field], after: after[field] }))
+}
+
+// The record as the change left it, or as it was before being deleted
+export const getSnapshot = (entry: ChangeLogEntry): Record<string, unknown> => entry.after ?? entry.before ?? {}
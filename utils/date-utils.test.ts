@@ -0,0 +1,25 @@
+import { beforeAll, describe, expect, it } from "vitest"
+import { daysAgoAt, formatDate, toTimeInputValue } from "./date-utils"
+
+beforeAll(() => {
+  // Clocks went forward on 2026-03-08 here
+  process.env.TZ = "America/New_York"
+})
+
+describe("daysAgoAt", () => {
+  it("counts back from today, not from the timestamp", () => {
+    const now = new Date(2026, 9, 19, 18, 0).getTime()
+    const lastWeek = new Date(2026, 9, 12, 8, 15).getTime()
+
+    expect(formatDate(daysAgoAt(1, lastWeek, now))).toBe("2026-10-18")
+    expect(toTimeInputValue(daysAgoAt(1, lastWeek, now))).toBe("08:15")
+  })
+
+  it("lands on the previous calendar day across a daylight saving change", () => {
+    const now = new Date(2026, 2, 9, 0, 30).getTime()
+
+    expect(formatDate(daysAgoAt(1, now, now))).toBe("2026-03-08")
+    expect(formatDate(daysAgoAt(2, now, now))).toBe("2026-03-07")
+    expect(toTimeInputValue(daysAgoAt(2, now, now))).toBe("00:30")
+  })
+})
@@ -20,6 +20,43 @@ export const formatTime = (timestamp: number): string => {
   return `${hours}:${minutes} ${ampm}`
 }
 
+// Format a timestamp for a time input (local time, "HH:mm")
+export const toTimeInputValue = (timestamp: number): string => {
+  const date = new Date(timestamp)
+  const hours = String(date.getHours()).padStart(2, "0")
+  const minutes = String(date.getMinutes()).padStart(2, "0")
+  return `${hours}:${minutes}`
+}
+
+// Combine the calendar day of `date` with a time input value ("HH:mm") into a timestamp
+export const combineDateAndTime = (date: Date, time: string): number => {
+  const [hours, minutes] = time.split(":").map(Number)
+  const combined = new Date(date)
+  combined.setHours(hours || 0, minutes || 0, 0, 0)
+  return combined.getTime()
+}
+
+// The day `days` before today at the time of day of `timestamp`
+// Counts calendar days rather than 24 hour steps, so a daylight saving change doesn't land on the wrong day
+export const daysAgoAt = (days: number, timestamp: number, now: number = Date.now()): number => {
+  const time = new Date(timestamp)
+  const date = new Date(now)
+  date.setDate(date.getDate() - days)
+  date.setHours(time.getHours(), time.getMinutes(), time.getSeconds(), time.getMilliseconds())
+  return date.getTime()
+}
+
+// Parse a date input value ("YYYY-MM-DD", as produced by formatDate) as a local date
+export const parseDateInputValue = (value: string): Date => {
+  const [year, month, day] = value.split("-").map(Number)
+  return new Date(year, (month || 1) - 1, day || 1)
+}
+
+// Check whether two timestamps fall on the same local day
+export const isSameDay = (a: number, b: number): boolean => {
+  return getStartOfDay(new Date(a)) === getStartOfDay(new Date(b))
+}
+
 // Get start of day timestamp
 export function getStartOfDay(date = new Date()): number {
   const start = new Date(date)
@@ -0,0 +1,153 @@
+import "fake-indexeddb/auto"
+import { IDBFactory } from "fake-indexeddb"
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { LATEST_VERSION, MIGRATIONS, runMigrations, validateMigrations } from "./db-migrations"
+import { getExpenses, openDB } from "./db"
+
+// Indexes every store should have once fully migrated
+const LATEST_SCHEMA: Record<string, string[]> = {
+  expenses: ["accountId", "amount", "category", "recurringRuleId", "tags", "timestamp", "type"],
+  settings: [],
+  categories: ["name"],
+  budgetGoals: ["category", "period"],
+  accounts: [],
+  recurringRules: [],
+  categoryRules: [],
+  trash: ["deletedAt"],
+  changeLog: ["recordId", "timestamp"],
+}
+
+// Create the database as an older release left it, at `version`, holding `expenses`
+const createSnapshot = async (version: number, expenses: Record<string, unknown>[]): Promise<void> => {
+  const db = await new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open("spendersDB", version)
+    request.onupgradeneeded = (event) => runMigrations(request.result, request.transaction!, event.oldVersion, version)
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+
+  const transaction = db.transaction("expenses", "readwrite")
+  expenses.forEach((expense) => transaction.objectStore("expenses").put(expense))
+  await new Promise((resolve) => (transaction.oncomplete = resolve))
+  db.close()
+}
+
+// Every store with its index names, as the database has them
+const readSchema = (db: IDBDatabase): Record<string, string[]> => {
+  const transaction = db.transaction(Array.from(db.objectStoreNames), "readonly")
+  return Object.fromEntries(
+    Array.from(db.objectStoreNames).map((name) => [name, Array.from(transaction.objectStore(name).indexNames).sort()]),
+  )
+}
+
+const spyOnMigrations = () => MIGRATIONS.map((migration) => vi.spyOn(migration, "migrate"))
+
+beforeEach(() => {
+  globalThis.indexedDB = new IDBFactory()
+})
+
+afterEach(() => {
+  vi.restoreAllMocks()
+})
+
+describe("validateMigrations", () => {
+  it("accepts the migrations as shipped", () => {
+    expect(() => validateMigrations(MIGRATIONS)).not.toThrow()
+  })
+
+  it("rejects a gap in the versions", () => {
+    const migrate = () => {}
+    expect(() =>
+      validateMigrations([
+        { version: 1, description: "First", migrate },
+        { version: 3, description: "Third", migrate },
+      ]),
+    ).toThrow('Migration "Third" has version 3, expected 2')
+  })
+})
+
+describe("upgrading a v3 database", () => {
+  beforeEach(async () => {
+    await createSnapshot(3, [
+      { id: "a", amount: 12.5, timestamp: 1_700_000_000_000, category: "food" },
+      { id: "b", amount: 40, timestamp: 1_700_000_100_000, category: "transport", note: "taxi" },
+    ])
+  })
+
+  it("runs only the steps after v3", async () => {
+    const steps = spyOnMigrations()
+
+    const db = await openDB()
+    db.close()
+
+    steps.forEach((step, index) => expect(step).toHaveBeenCalledTimes(index < 3 ? 0 : 1))
+  })
+
+  it("marks the existing expenses as spending", async () => {
+    const expenses = await getExpenses()
+
+    expect(expenses.map((expense) => [expense.id, expense.type]).sort()).toEqual([
+      ["a", "expense"],
+      ["b", "expense"],
+    ])
+    expect(expenses.find((expense) => expense.id === "b")?.note).toBe("taxi")
+  })
+
+  it("creates every store and index of the latest version", async () => {
+    const db = await openDB()
+
+    expect(db.version).toBe(LATEST_VERSION)
+    expect(readSchema(db)).toEqual(LATEST_SCHEMA)
+    db.close()
+  })
+
+  it("runs no step again when reopened", async () => {
+    const upgraded = await openDB()
+    upgraded.close()
+    const steps = spyOnMigrations()
+
+    const reopened = await openDB()
+    reopened.close()
+
+    steps.forEach((step) => expect(step).not.toHaveBeenCalled())
+  })
+})
+
+describe("upgrading a v7 database", () => {
+  beforeEach(async () => {
+    await createSnapshot(7, [
+      { id: "a", type: "income", amount: 1000, timestamp: 1_700_000_000_000, category: "salary" },
+      { id: "b", type: "expense", amount: 8, timestamp: 1_700_000_100_000, category: "food", tags: ["work"] },
+    ])
+  })
+
+  it("runs only the steps after v7 and keeps the records as they were", async () => {
+    const steps = spyOnMigrations()
+
+    const expenses = await getExpenses()
+
+    steps.forEach((step, index) => expect(step).toHaveBeenCalledTimes(index < 7 ? 0 : 1))
+    expect(expenses.map((expense) => [expense.id, expense.type, expense.tags]).sort()).toEqual([
+      ["a", "income", undefined],
+      ["b", "expense", ["work"]],
+    ])
+  })
+
+  it("creates every store and index of the latest version", async () => {
+    const db = await openDB()
+
+    expect(readSchema(db)).toEqual(LATEST_SCHEMA)
+    db.close()
+  })
+
+  it("runs no step again when reopened", async () => {
+    const upgraded = await openDB()
+    upgraded.close()
+    const steps = spyOnMigrations()
+
+    const reopened = await openDB()
+    reopened.close()
+
+    steps.forEach((step) => expect(step).not.toHaveBeenCalled())
+  })
+})
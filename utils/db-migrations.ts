@@ -0,0 +1,201 @@
+// Schema migrations for spendersDB
+// Each step upgrades the database from the previous version. Steps run in order inside the
+// versionchange transaction, and IndexedDB only runs the ones newer than the stored version.
+
+export interface Migration {
+  version: number
+  description: string
+  migrate: (db: IDBDatabase, transaction: IDBTransaction) => void
+}
+
+// Get a store for the upgrade, creating it if it doesn't exist yet
+export const ensureStore = (
+  db: IDBDatabase,
+  transaction: IDBTransaction,
+  storeName: string,
+  options?: IDBObjectStoreParameters,
+): IDBObjectStore => {
+  if (!db.objectStoreNames.contains(storeName)) {
+    return db.createObjectStore(storeName, options)
+  }
+  return transaction.objectStore(storeName)
+}
+
+// Create an index if the store doesn't have it yet
+export const ensureIndex = (
+  store: IDBObjectStore,
+  indexName: string,
+  keyPath: string | string[],
+  options?: IDBIndexParameters,
+): void => {
+  if (!store.indexNames.contains(indexName)) {
+    store.createIndex(indexName, keyPath, options)
+  }
+}
+
+// A record as stored, before it is validated against the current schema
+export type StoredRecord = Record<string, unknown>
+
+// Rewrite every record in a store; return the updated record, or null to delete it
+export const transformRecords = (
+  transaction: IDBTransaction,
+  storeName: string,
+  transform: (record: StoredRecord) => StoredRecord | null,
+): void => {
+  const request = transaction.objectStore(storeName).openCursor()
+
+  request.onsuccess = () => {
+    const cursor = request.result
+    if (!cursor) return
+
+    const updated = transform(cursor.value)
+    if (updated === null) {
+      cursor.delete()
+    } else if (updated !== cursor.value) {
+      cursor.update(updated)
+    }
+
+    cursor.continue()
+  }
+}
+
+// Ordered list of migrations; append new steps to the end with the next version number
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: "Create expenses and settings stores",
+    migrate: (db, transaction) => {
+      const expenseStore = ensureStore(db, transaction, "expenses", { keyPath: "id" })
+      ensureIndex(expenseStore, "timestamp", "timestamp", { unique: false })
+      ensureIndex(expenseStore, "category", "category", { unique: false })
+
+      ensureStore(db, transaction, "settings", { keyPath: "name" })
+    },
+  },
+  {
+    version: 2,
+    description: "Add categories store and backfill expense indexes",
+    migrate: (db, transaction) => {
+      // Early releases created the expenses store without indexes
+      const expenseStore = transaction.objectStore("expenses")
+      ensureIndex(expenseStore, "timestamp", "timestamp", { unique: false })
+      ensureIndex(expenseStore, "category", "category", { unique: false })
+
+      const categoryStore = ensureStore(db, transaction, "categories", { keyPath: "id" })
+      ensureIndex(categoryStore, "name", "name", { unique: true })
+    },
+  },
+  {
+    version: 3,
+    description: "Add budget goals store",
+    migrate: (db, transaction) => {
+      const budgetStore = ensureStore(db, transaction, "budgetGoals", { keyPath: "id" })
+      ensureIndex(budgetStore, "category", "category", { unique: false })
+      ensureIndex(budgetStore, "period", "period", { unique: false })
+    },
+  },
+  {
+    version: 4,
+    description: "Add transaction type to expenses",
+    migrate: (db, transaction) => {
+      const expenseStore = transaction.objectStore("expenses")
+      ensureIndex(expenseStore, "type", "type", { unique: false })
+
+      // Everything recorded before income existed was spending
+      transformRecords(transaction, "expenses", (expense) =>
+        expense.type ? expense : { ...expense, type: "expense" },
+      )
+    },
+  },
+  {
+    version: 5,
+    description: "Add accounts store",
+    migrate: (db, transaction) => {
+      ensureStore(db, transaction, "accounts", { keyPath: "id" })
+
+      const expenseStore = transaction.objectStore("expenses")
+      ensureIndex(expenseStore, "accountId", "accountId", { unique: false })
+    },
+  },
+  {
+    version: 6,
+    description: "Add recurring rules store",
+    migrate: (db, transaction) => {
+      ensureStore(db, transaction, "recurringRules", { keyPath: "id" })
+
+      const expenseStore = transaction.objectStore("expenses")
+      ensureIndex(expenseStore, "recurringRuleId", "recurringRuleId", { unique: false })
+    },
+  },
+  {
+    version: 7,
+    description: "Index expense tags",
+    migrate: (db, transaction) => {
+      // multiEntry indexes each tag of an expense separately
+      const expenseStore = transaction.objectStore("expenses")
+      ensureIndex(expenseStore, "tags", "tags", { unique: false, multiEntry: true })
+    },
+  },
+  {
+    version: 8,
+    description: "Add categorization rules store",
+    migrate: (db, transaction) => {
+      ensureStore(db, transaction, "categoryRules", { keyPath: "id" })
+    },
+  },
+  {
+    version: 9,
+    description: "Add trash store",
+    migrate: (db, transaction) => {
+      const trashStore = ensureStore(db, transaction, "trash", { keyPath: "id" })
+      ensureIndex(trashStore, "deletedAt", "deletedAt", { unique: false })
+    },
+  },
+  {
+    version: 10,
+    description: "Add change log store",
+    migrate: (db, transaction) => {
+      const changeLogStore = ensureStore(db, transaction, "changeLog", { keyPath: "id" })
+      ensureIndex(changeLogStore, "recordId", "recordId", { unique: false })
+      ensureIndex(changeLogStore, "timestamp", "timestamp", { unique: false })
+    },
+  },
+  {
+    version: 11,
+    description: "Index expense amounts",
+    migrate: (db, transaction) => {
+      // The timestamp orders expenses of the same amount, so amount-sorted lists can be paged
+      const expenseStore = transaction.objectStore("expenses")
+      ensureIndex(expenseStore, "amount", ["amount", "timestamp"], { unique: false })
+    },
+  },
+]
+
+// Check that versions start at 1 and increase by one, so no step can be skipped
+export const validateMigrations = (migrations: Migration[]): void => {
+  migrations.forEach((migration, index) => {
+    if (migration.version !== index + 1) {
+      throw new Error(`Migration "${migration.description}" has version ${migration.version}, expected ${index + 1}`)
+    }
+  })
+}
+
+validateMigrations(MIGRATIONS)
+
+// Latest schema version, used when opening the database
+export const LATEST_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version
+
+// Run every migration after `oldVersion` up to and including `newVersion`
+export const runMigrations = (
+  db: IDBDatabase,
+  transaction: IDBTransaction,
+  oldVersion: number,
+  newVersion: number = LATEST_VERSION,
+  migrations: Migration[] = MIGRATIONS,
+): void => {
+  migrations
+    .filter((migration) => migration.version > oldVersion && migration.version <= newVersion)
+    .forEach((migration) => {
+      migration.migrate(db, transaction)
+    })
+}
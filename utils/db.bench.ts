@@ -0,0 +1,60 @@
+import "fake-indexeddb/auto"
+import { IDBFactory } from "fake-indexeddb"
+import { beforeAll, bench, describe } from "vitest"
+import { getExpensesPage, openDB } from "./db"
+import type { Expense } from "./models"
+
+// Reading the first page of the transaction list should cost the same with 1,000 or 50,000 expenses,
+// whatever the filters and sort order
+
+const PAGE_SIZE = 100
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// A database of `count` expenses, one every few hours going back from now, one in ten noted "taxi"
+const createDatabase = async (count: number): Promise<IDBFactory> => {
+  const factory = new IDBFactory()
+  globalThis.indexedDB = factory
+
+  const db = await openDB()
+  const transaction = db.transaction("expenses", "readwrite")
+  for (let i = 0; i < count; i++) {
+    const expense: Expense = {
+      id: `expense-${i}`,
+      type: "expense",
+      amount: 1 + ((i * 7919) % 50000) / 100,
+      timestamp: Date.now() - i * (DAY_MS / 8),
+      category: "food",
+      note: i % 10 === 0 ? "taxi" : "groceries",
+    }
+    transaction.objectStore("expenses").put(expense)
+  }
+  await new Promise((resolve) => (transaction.oncomplete = resolve))
+  db.close()
+
+  return factory
+}
+
+const SIZES = [1_000, 50_000]
+const databases = new Map<number, IDBFactory>()
+
+beforeAll(async () => {
+  for (const count of SIZES) {
+    databases.set(count, await createDatabase(count))
+  }
+})
+
+const benchFirstPage = (name: string, query: Parameters<typeof getExpensesPage>[2]) => {
+  describe(name, () => {
+    SIZES.forEach((count) => {
+      bench(`${count.toLocaleString("en")} expenses`, async () => {
+        globalThis.indexedDB = databases.get(count)!
+        await getExpensesPage(null, PAGE_SIZE, query)
+      })
+    })
+  })
+}
+
+benchFirstPage("first page, newest first", { order: "newest" })
+benchFirstPage("first page, largest first", { order: "largest" })
+benchFirstPage("first page, searching notes", { order: "newest", filter: (expense) => expense.note === "taxi" })
+benchFirstPage("first page, last 30 days", { order: "newest", min: Date.now() - 30 * DAY_MS })
@@ -0,0 +1,360 @@
+import "fake-indexeddb/auto"
+import { IDBFactory } from "fake-indexeddb"
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import {
+  type ExpenseQuery,
+  diffExpenses,
+  getExpenses,
+  getExpensesPage,
+  getMalformedRecords,
+  getRecentChanges,
+  getRecurringRules,
+  getTrashEntries,
+  materializeRecurringRules,
+  mergeExpenses,
+  openDB,
+  reassignCategory,
+  restoreStores,
+  saveExpenses,
+  saveRecurringRule,
+  summarizeExpenses,
+} from "./db"
+import { type Expense, ExpenseSchema, type RecurringRule } from "./models"
+
+const expense = (id: string, amount: number, extra: Partial<Expense> = {}): Expense => ({
+  id,
+  type: "expense",
+  amount,
+  timestamp: 1_700_000_000_000,
+  category: "food",
+  ...extra,
+})
+
+// Write rows exactly as given, bypassing validation, e.g. as an older version of the app left them
+const seedExpenses = async (rows: unknown[]): Promise<void> => {
+  const db = await openDB()
+  const transaction = db.transaction("expenses", "readwrite")
+  rows.forEach((row) => transaction.objectStore("expenses").put(row))
+  await new Promise((resolve) => (transaction.oncomplete = resolve))
+  db.close()
+}
+
+beforeEach(() => {
+  globalThis.indexedDB = new IDBFactory()
+})
+
+afterEach(() => {
+  vi.restoreAllMocks()
+})
+
+describe("diffExpenses", () => {
+  it("writes only new and changed records and deletes the missing ones", () => {
+    const existing = [expense("a", 1), expense("b", 2), expense("c", 3)]
+    const next = [expense("a", 1), expense("b", 20), expense("d", 4)]
+
+    const { upserts, deletes } = diffExpenses(existing, next)
+
+    expect(upserts.map((e) => e.id)).toEqual(["b", "d"])
+    expect(deletes).toEqual(["c"])
+  })
+
+  it("ignores key order when comparing records", () => {
+    // Migration v4 added `type` last; parsing puts it back in schema order
+    const legacy = { id: "a", amount: 1, timestamp: 1_700_000_000_000, category: "food", type: "expense" } as Expense
+
+    expect(diffExpenses([legacy], [expense("a", 1)]).upserts).toEqual([])
+  })
+})
+
+describe("saveExpenses", () => {
+  it("applies the differences to the store", async () => {
+    await saveExpenses([expense("a", 1), expense("b", 2)])
+    await saveExpenses([expense("a", 10), expense("c", 3)])
+
+    const stored = await getExpenses()
+    expect(stored.map((e) => [e.id, e.amount]).sort()).toEqual([
+      ["a", 10],
+      ["c", 3],
+    ])
+  })
+
+  it("doesn't rewrite or log records that only differ in key order", async () => {
+    await seedExpenses([{ id: "a", amount: 1, timestamp: 1_700_000_000_000, category: "food", type: "expense" }])
+    const put = vi.spyOn(IDBObjectStore.prototype, "put")
+
+    await saveExpenses([expense("a", 1)])
+
+    expect(put).not.toHaveBeenCalled()
+    expect(await getRecentChanges(10)).toEqual([])
+  })
+
+  it("keeps the stored records when a write is interrupted", async () => {
+    const original = [expense("a", 1), expense("b", 2), expense("c", 3)]
+    await saveExpenses(original)
+
+    // Abort the transaction partway through, as closing the tab would
+    const put = IDBObjectStore.prototype.put
+    let calls = 0
+    vi.spyOn(IDBObjectStore.prototype, "put").mockImplementation(function (this: IDBObjectStore, ...args) {
+      calls++
+      if (calls === 2) this.transaction.abort()
+      return put.apply(this, args)
+    })
+
+    await expect(
+      saveExpenses([expense("a", 10), expense("b", 20), expense("d", 4), expense("e", 5)]),
+    ).rejects.toBeDefined()
+    vi.restoreAllMocks()
+
+    const stored = await getExpenses()
+    expect(stored.map((e) => [e.id, e.amount]).sort()).toEqual([
+      ["a", 1],
+      ["b", 2],
+      ["c", 3],
+    ])
+  })
+})
+
+describe("malformed records", () => {
+  it("leaves rows that can't be read in place and reports them", async () => {
+    await seedExpenses([expense("a", 1), { id: "broken", amount: "twelve", timestamp: 1_700_000_000_000 }])
+
+    const loaded = await getExpenses()
+    expect(loaded.map((e) => e.id)).toEqual(["a"])
+
+    // Saving what was loaded must not delete the row that couldn't be loaded
+    await saveExpenses(loaded)
+
+    const malformed = await getMalformedRecords()
+    expect(malformed.map(({ storeName, key }) => [storeName, key])).toEqual([["expenses", "broken"]])
+    expect(malformed[0].issues.length).toBeGreaterThan(0)
+  })
+})
+
+describe("getExpensesPage", () => {
+  // Every page of a query, read the way the transaction list scrolls through it
+  const readAllPages = async (query: ExpenseQuery, limit: number): Promise<string[][]> => {
+    const pages: string[][] = []
+    let page = await getExpensesPage(null, limit, query)
+    pages.push(page.expenses.map((e) => e.id))
+
+    while (page.next) {
+      page = await getExpensesPage(page.next, limit, query)
+      pages.push(page.expenses.map((e) => e.id))
+    }
+
+    return pages
+  }
+
+  beforeEach(async () => {
+    await saveExpenses([
+      expense("a", 5, { timestamp: 1000 }),
+      expense("b", 20, { timestamp: 2000, note: "taxi" }),
+      expense("c", 5, { timestamp: 3000, note: "taxi" }),
+      expense("d", 12, { timestamp: 3000 }),
+      expense("e", 8, { timestamp: 4000, type: "income" }),
+    ])
+  })
+
+  it("pages through expenses newest first, including ones recorded at the same time", async () => {
+    expect(await readAllPages({ order: "newest" }, 2)).toEqual([["e", "d"], ["c", "b"], ["a"]])
+  })
+
+  it("pages by amount, with equal amounts in date order", async () => {
+    expect((await readAllPages({ order: "largest" }, 2)).flat()).toEqual(["b", "d", "e", "c", "a"])
+    expect((await readAllPages({ order: "smallest" }, 2)).flat()).toEqual(["a", "c", "e", "d", "b"])
+  })
+
+  it("keeps to the bounds on the field it sorts by", async () => {
+    expect((await readAllPages({ order: "smallest", min: 8, max: 12 }, 1)).flat()).toEqual(["e", "d"])
+    expect((await readAllPages({ order: "oldest", min: 2000, max: 3000 }, 10)).flat()).toEqual(["b", "c", "d"])
+    expect(await readAllPages({ order: "newest", min: 3000, max: 2000 }, 10)).toEqual([[]])
+  })
+
+  it("fills each page with matches only", async () => {
+    const query: ExpenseQuery = { order: "newest", filter: (e) => e.note === "taxi" }
+
+    expect(await readAllPages(query, 1)).toEqual([["c"], ["b"]])
+  })
+
+  it("reads every match with no limit", async () => {
+    const page = await getExpensesPage(null, Infinity, { order: "oldest" })
+
+    expect(page.expenses).toHaveLength(5)
+    expect(page.next).toBeNull()
+  })
+})
+
+describe("summarizeExpenses", () => {
+  it("totals every match", async () => {
+    await saveExpenses([
+      expense("a", 5, { note: "taxi" }),
+      expense("b", 20, { note: "taxi" }),
+      expense("c", 100, { note: "taxi", type: "income" }),
+      expense("d", 7),
+    ])
+
+    expect(await summarizeExpenses({ order: "newest", filter: (e) => e.note === "taxi" })).toEqual({
+      count: 3,
+      spent: 25,
+      income: 100,
+      net: 75,
+    })
+  })
+})
+
+describe("restoreStores", () => {
+  it("logs the records a restore writes as restored", async () => {
+    await saveExpenses([expense("a", 1)])
+
+    await restoreStores({ expenses: [expense("a", 10), expense("b", 2)] }, "merge")
+
+    const changes = await getRecentChanges(10)
+    const restored = changes.filter((change) => change.action === "restore")
+    expect(restored.map((change) => [change.recordId, change.before?.amount, change.after?.amount]).sort()).toEqual([
+      ["a", 1, 10],
+      ["b", undefined, 2],
+    ])
+  })
+
+  it("keeps the change log when replacing, adding the backup's entries to it", async () => {
+    await saveExpenses([expense("a", 1), expense("b", 2)])
+    const history = await getRecentChanges(10)
+    const backupEntry = { ...history[0], id: "from-backup", timestamp: 1 }
+
+    await restoreStores({ expenses: [expense("c", 3)], changeLog: [backupEntry] }, "replace")
+
+    const ids = (await getExpenses()).map((e) => e.id)
+    expect(ids).toEqual(["c"])
+
+    const changes = await getRecentChanges(20)
+    const kept = [...history.map((change) => change.id), "from-backup"]
+    expect(changes.map((change) => change.id)).toEqual(expect.arrayContaining(kept))
+    expect(changes.filter((change) => change.action === "delete").map((change) => change.recordId).sort()).toEqual([
+      "a",
+      "b",
+    ])
+    expect(changes.find((change) => change.action === "restore")?.recordId).toBe("c")
+  })
+})
+
+describe("mergeExpenses", () => {
+  beforeEach(async () => {
+    await saveExpenses([expense("a", 5), expense("b", 5, { note: "coffee" })])
+  })
+
+  it("saves the kept transaction and moves the others to the trash together", async () => {
+    const trashId = await mergeExpenses(expense("a", 5, { note: "coffee" }), ["b"])
+
+    expect(await getExpenses()).toEqual([expense("a", 5, { note: "coffee" })])
+    const [entry] = await getTrashEntries()
+    expect(entry.id).toBe(trashId)
+    expect(entry.records.map((record) => record.id)).toEqual(["b"])
+  })
+
+  it("leaves both as they were when the write is interrupted", async () => {
+    // Abort as the trash entry is written, after the kept transaction was saved
+    const put = IDBObjectStore.prototype.put
+    vi.spyOn(IDBObjectStore.prototype, "put").mockImplementation(function (this: IDBObjectStore, ...args) {
+      if (this.name === "trash") this.transaction.abort()
+      return put.apply(this, args)
+    })
+
+    await expect(mergeExpenses(expense("a", 5, { note: "coffee" }), ["b"])).rejects.toBeDefined()
+    vi.restoreAllMocks()
+
+    expect((await getExpenses()).map((e) => [e.id, e.note]).sort()).toEqual([
+      ["a", undefined],
+      ["b", "coffee"],
+    ])
+    expect(await getTrashEntries()).toEqual([])
+  })
+
+  it("doesn't trash the others when the kept transaction was deleted", async () => {
+    await expect(mergeExpenses(expense("gone", 5), ["b"])).rejects.toBeDefined()
+
+    expect((await getExpenses()).map((e) => e.id).sort()).toEqual(["a", "b"])
+  })
+})
+
+describe("materializeRecurringRules", () => {
+  const DAY_MS = 24 * 60 * 60 * 1000
+  const start = 1_700_000_000_000
+
+  const rule = (id: string, amount: number): RecurringRule => ({
+    id,
+    name: id,
+    type: "expense",
+    amount,
+    category: "housing",
+    frequency: "daily",
+    interval: 1,
+    startDate: start,
+    overrides: {},
+    createdAt: start,
+    updatedAt: start,
+  })
+
+  it("adds the occurrences due and moves each rule on", async () => {
+    await saveRecurringRule(rule("rent", 900))
+
+    expect(await materializeRecurringRules(start + 2 * DAY_MS)).toBe(3)
+    expect(await materializeRecurringRules(start + 2 * DAY_MS)).toBe(0)
+    expect((await getRecurringRules())[0].materializedUntil).toBe(start + 2 * DAY_MS)
+  })
+
+  it("skips a rule producing an invalid transaction and still materializes the others", async () => {
+    await saveRecurringRule(rule("rent", 900))
+    await saveRecurringRule(rule("gym", 30))
+    const safeParse = ExpenseSchema.safeParse.bind(ExpenseSchema)
+    vi.spyOn(ExpenseSchema, "safeParse").mockImplementation((expense) =>
+      (expense as Expense).recurringRuleId === "gym" ? safeParse({}) : safeParse(expense),
+    )
+
+    expect(await materializeRecurringRules(start + DAY_MS)).toBe(2)
+
+    expect((await getExpenses()).every((expense) => expense.recurringRuleId === "rent")).toBe(true)
+    const rules = await getRecurringRules()
+    expect(rules.find((r) => r.id === "rent")?.materializedUntil).toBe(start + DAY_MS)
+    expect(rules.find((r) => r.id === "gym")?.materializedUntil).toBeUndefined()
+  })
+})
+
+describe("reassignCategory", () => {
+  const rule = (id: string): RecurringRule => ({
+    id,
+    name: id,
+    type: "expense",
+    amount: 10,
+    category: "gym",
+    frequency: "monthly",
+    interval: 1,
+    startDate: 1_700_000_000_000,
+    overrides: {},
+    createdAt: 1_700_000_000_000,
+    updatedAt: 1_700_000_000_000,
+  })
+
+  it("refuses to remove a category several recurring rules still use, changing nothing", async () => {
+    await saveRecurringRule(rule("membership"))
+    await saveRecurringRule(rule("classes"))
+
+    // Browsers throw if an aborted transaction is aborted again
+    const abort = vi.spyOn(IDBTransaction.prototype, "abort")
+
+    await expect(reassignCategory("gym", null, "delete", null)).rejects.toBeDefined()
+
+    expect(abort).toHaveBeenCalledTimes(1)
+
+    expect((await getRecurringRules()).map((r) => r.category)).toEqual(["gym", "gym"])
+  })
+
+  it("moves every recurring rule to the target", async () => {
+    await saveRecurringRule(rule("membership"))
+    await saveRecurringRule(rule("classes"))
+
+    await reassignCategory("gym", "health", "merge", null)
+
+    expect((await getRecurringRules()).map((r) => r.category)).toEqual(["health", "health"])
+  })
+})
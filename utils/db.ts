@@ -1,12 +1,47 @@
 // IndexedDB utility functions
 
+import type { z } from "zod"
+import {
+  type Account,
+  type BudgetGoal,
+  type Category,
+  type CategoryRule,
+  type Expense,
+  type RecurringRule,
+  type Setting,
+  type TrashEntry,
+  type ChangeAction,
+  type ChangeLogEntry,
+  type LoggedStore,
+  BudgetGoalSchema,
+  CategorySchema,
+  ExpenseSchema,
+  SettingSchema,
+  AccountSchema,
+  RecurringRuleSchema,
+  CategoryRuleSchema,
+  TrashEntrySchema,
+  ChangeLogEntrySchema,
+  LoggedStoreSchema,
+} from "./models"
+import { LATEST_VERSION, runMigrations } from "./db-migrations"
+import { getDueTransactions } from "./recurrence"
+import { type CashFlow, isIncome, isSpending } from "./cash-flow"
+import { getCategoryAmounts, getMainCategory, reassignSplits } from "./splits"
+import { TRASH_RETENTION_SETTING, getPurgeCutoff, parseRetentionDays } from "./trash"
+
 // Database configuration
 const DB_NAME = "spendersDB"
-const DB_VERSION = 3 // Increased version for budget goals
+const DB_VERSION = LATEST_VERSION // Bumped by adding a step to MIGRATIONS
 const EXPENSES_STORE = "expenses"
 const SETTINGS_STORE = "settings"
 const CATEGORIES_STORE = "categories"
-const BUDGET_GOALS_STORE = "budgetGoals" // New store for budget goals
+const BUDGET_GOALS_STORE = "budgetGoals"
+const ACCOUNTS_STORE = "accounts"
+const RECURRING_RULES_STORE = "recurringRules"
+const CATEGORY_RULES_STORE = "categoryRules"
+const TRASH_STORE = "trash"
+const CHANGE_LOG_STORE = "changeLog"
 
 // Open the database
 export const openDB = (): Promise<IDBDatabase> => {
@@ -15,50 +50,18 @@ export const openDB = (): Promise<IDBDatabase> => {
 
     // Handle database upgrade (first time or version change)
     request.onupgradeneeded = (event) => {
-      const db = (event.target as IDBOpenDBRequest).result
-
-      // Create expenses store with id as key path
-      if (!db.objectStoreNames.contains(EXPENSES_STORE)) {
-        const expenseStore = db.createObjectStore(EXPENSES_STORE, { keyPath: "id" })
-        // Add indexes for better querying
-        expenseStore.createIndex("timestamp", "timestamp", { unique: false })
-        expenseStore.createIndex("category", "category", { unique: false })
-      } else {
-        // If store exists but we need to add indexes in a version upgrade
-        const transaction = (event.target as IDBOpenDBRequest).transaction
-        if (transaction) {
-          const expenseStore = transaction.objectStore(EXPENSES_STORE)
-          // Check if indexes exist before creating them
-          if (!expenseStore.indexNames.contains("timestamp")) {
-            expenseStore.createIndex("timestamp", "timestamp", { unique: false })
-          }
-          if (!expenseStore.indexNames.contains("category")) {
-            expenseStore.createIndex("category", "category", { unique: false })
-          }
-        }
-      }
+      const db = request.result
+      const transaction = request.transaction
 
-      // Create settings store with name as key path
-      if (!db.objectStoreNames.contains(SETTINGS_STORE)) {
-        db.createObjectStore(SETTINGS_STORE, { keyPath: "name" })
-      }
-
-      // Create categories store
-      if (!db.objectStoreNames.contains(CATEGORIES_STORE)) {
-        const categoryStore = db.createObjectStore(CATEGORIES_STORE, { keyPath: "id" })
-        categoryStore.createIndex("name", "name", { unique: true })
-      }
-
-      // Create budget goals store
-      if (!db.objectStoreNames.contains(BUDGET_GOALS_STORE)) {
-        const budgetStore = db.createObjectStore(BUDGET_GOALS_STORE, { keyPath: "id" })
-        budgetStore.createIndex("category", "category", { unique: false })
-        budgetStore.createIndex("period", "period", { unique: false })
+      if (transaction) {
+        runMigrations(db, transaction, event.oldVersion, event.newVersion ?? DB_VERSION)
       }
     }
 
     request.onsuccess = (event) => {
       const db = (event.target as IDBOpenDBRequest).result
+      // Let a newer version open in another tab run its migrations
+      db.onversionchange = () => db.close()
       resolve(db)
     }
 
@@ -69,32 +72,283 @@ export const openDB = (): Promise<IDBDatabase> => {
   })
 }
 
+// Record type held by each object store
+export interface StoreRecords {
+  expenses: Expense
+  settings: Setting
+  categories: Category
+  budgetGoals: BudgetGoal
+  accounts: Account
+  recurringRules: RecurringRule
+  categoryRules: CategoryRule
+  trash: TrashEntry
+  changeLog: ChangeLogEntry
+}
+
+export type StoreName = keyof StoreRecords
+
+// Schema used to validate the records of each store
+export const STORE_SCHEMAS: { [K in StoreName]: z.ZodType<StoreRecords[K], z.ZodTypeDef, unknown> } = {
+  expenses: ExpenseSchema,
+  settings: SettingSchema,
+  categories: CategorySchema,
+  budgetGoals: BudgetGoalSchema,
+  accounts: AccountSchema,
+  recurringRules: RecurringRuleSchema,
+  categoryRules: CategoryRuleSchema,
+  trash: TrashEntrySchema,
+  changeLog: ChangeLogEntrySchema,
+}
+
+// Every object store in the database
+export const STORE_NAMES = Object.keys(STORE_SCHEMAS) as StoreName[]
+
+// Records of every store, as used by backups
+export type StoreContents = { [K in StoreName]: StoreRecords[K][] }
+
+// Records for some of the stores
+export type StoreSnapshot = Partial<StoreContents>
+
+// Validate a row read from a store, logging and skipping it if it is malformed
+// The stored row itself is left alone, and listed by getMalformedRecords
+const parseRecord = <K extends StoreName>(storeName: K, row: unknown): StoreRecords[K] | undefined => {
+  const result = STORE_SCHEMAS[storeName].safeParse(row)
+
+  if (!result.success) {
+    console.warn(`Malformed record in ${storeName}:`, row, result.error.issues)
+    return undefined
+  }
+
+  return result.data
+}
+
+const parseRecords = <K extends StoreName>(storeName: K, rows: unknown[]): StoreRecords[K][] => {
+  return rows
+    .map((row) => parseRecord(storeName, row))
+    .filter((record): record is StoreRecords[K] => record !== undefined)
+}
+
+// Resolve once a transaction has committed, closing the connection afterwards
+const completeTransaction = (db: IDBDatabase, transaction: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => {
+      db.close()
+      resolve()
+    }
+
+    transaction.onerror = () => {
+      console.error("Transaction error:", transaction.error)
+      reject(transaction.error)
+    }
+
+    transaction.onabort = () => {
+      db.close()
+      reject(transaction.error ?? new Error("Transaction aborted"))
+    }
+  })
+}
+
+// Resolve with the result of a read request, closing the connection afterwards
+const completeRequest = <T>(db: IDBDatabase, request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => {
+      db.close()
+      resolve(request.result)
+    }
+
+    request.onerror = () => {
+      db.close()
+      reject(request.error)
+    }
+  })
+}
+
+// Compare two records field by field, so key order (which zod parsing and migrations change) doesn't matter
+const isSameRecord = (a: unknown, b: unknown): boolean => {
+  if (a === b) return true
+  if (typeof a !== "object" || typeof b !== "object" || a === null || b === null) return false
+  if (Array.isArray(a) !== Array.isArray(b)) return false
+
+  const left = a as Record<string, unknown>
+  const right = b as Record<string, unknown>
+  const keys = new Set([...Object.keys(left), ...Object.keys(right)])
+  return Array.from(keys).every((key) => isSameRecord(left[key], right[key]))
+}
+
+// Change log
+
+const isLoggedStore = (storeName: StoreName): storeName is LoggedStore =>
+  LoggedStoreSchema.safeParse(storeName).success
+
+// Stores a transaction writing to `storeNames` needs, adding the change log if any of them is logged
+const withChangeLog = (...storeNames: StoreName[]): StoreName[] => {
+  return storeNames.some(isLoggedStore) && !storeNames.includes(CHANGE_LOG_STORE)
+    ? [...storeNames, CHANGE_LOG_STORE]
+    : storeNames
+}
+
+// Append a change to the log, as part of the transaction making it (which must include the change log store)
+// `before` is undefined for a new record and `after` for a deleted one; unchanged records aren't logged
+// The action follows from the snapshots unless given, as restores are
+const logChange = (
+  transaction: IDBTransaction,
+  storeName: LoggedStore,
+  recordId: string,
+  before: unknown,
+  after: unknown,
+  action?: ChangeAction,
+): void => {
+  if (before === undefined && after === undefined) return
+  if (before !== undefined && after !== undefined && isSameRecord(before, after)) return
+
+  const entry: ChangeLogEntry = {
+    id: crypto.randomUUID(),
+    store: storeName,
+    recordId,
+    action: action ?? (before === undefined ? "create" : after === undefined ? "delete" : "update"),
+    before: before as ChangeLogEntry["before"],
+    after: after as ChangeLogEntry["after"],
+    timestamp: Date.now(),
+  }
+  transaction.objectStore(CHANGE_LOG_STORE).add(entry)
+}
+
+// Write a record, logging it against the stored version it replaces
+const putLogged = (
+  transaction: IDBTransaction,
+  storeName: LoggedStore,
+  record: { id: string },
+  action?: ChangeAction,
+): void => {
+  const store = transaction.objectStore(storeName)
+  const request = store.get(record.id)
+
+  request.onsuccess = () => {
+    store.put(record)
+    logChange(transaction, storeName, record.id, request.result, record, action)
+  }
+}
+
+// Delete a record, logging what it held
+const deleteLogged = (transaction: IDBTransaction, storeName: LoggedStore, id: string): void => {
+  const store = transaction.objectStore(storeName)
+  const request = store.get(id)
+
+  request.onsuccess = () => {
+    if (!request.result) return
+
+    store.delete(id)
+    logChange(transaction, storeName, id, request.result, undefined)
+  }
+}
+
+// Repository functions shared by every store
+
+// Get a single record by key
+export const getRecord = async <K extends StoreName>(
+  storeName: K,
+  key: IDBValidKey,
+): Promise<StoreRecords[K] | undefined> => {
+  const db = await openDB()
+  const store = db.transaction(storeName, "readonly").objectStore(storeName)
+  const row = await completeRequest(db, store.get(key))
+  return row === undefined ? undefined : parseRecord(storeName, row)
+}
+
+// Get every record in a store
+export const getAllRecords = async <K extends StoreName>(storeName: K): Promise<StoreRecords[K][]> => {
+  const db = await openDB()
+  const store = db.transaction(storeName, "readonly").objectStore(storeName)
+  const rows = await completeRequest(db, store.getAll())
+  return parseRecords(storeName, rows)
+}
+
+// Get the records matching a query on one of the store's indexes
+export const queryRecords = async <K extends StoreName>(
+  storeName: K,
+  indexName: string,
+  query?: IDBValidKey | IDBKeyRange,
+): Promise<StoreRecords[K][]> => {
+  const db = await openDB()
+  const index = db.transaction(storeName, "readonly").objectStore(storeName).index(indexName)
+  const rows = await completeRequest(db, index.getAll(query))
+  return parseRecords(storeName, rows)
+}
+
+// Insert or replace a record (validated before it is written)
+export const putRecord = async <K extends StoreName>(storeName: K, record: StoreRecords[K]): Promise<void> => {
+  const validRecord = STORE_SCHEMAS[storeName].parse(record)
+  const db = await openDB()
+  const transaction = db.transaction(withChangeLog(storeName), "readwrite")
+
+  if (isLoggedStore(storeName)) {
+    putLogged(transaction, storeName, validRecord as StoreRecords[LoggedStore])
+  } else {
+    transaction.objectStore(storeName).put(validRecord)
+  }
+
+  return completeTransaction(db, transaction)
+}
+
+// Delete a record by key
+export const deleteRecord = async (storeName: StoreName, key: IDBValidKey): Promise<void> => {
+  const db = await openDB()
+  const transaction = db.transaction(withChangeLog(storeName), "readwrite")
+
+  if (isLoggedStore(storeName)) {
+    deleteLogged(transaction, storeName, String(key))
+  } else {
+    transaction.objectStore(storeName).delete(key)
+  }
+
+  return completeTransaction(db, transaction)
+}
+
+// Work out which expenses need to be written or removed to turn `existing` into `next`
+export const diffExpenses = (existing: Expense[], next: Expense[]): { upserts: Expense[]; deletes: string[] } => {
+  const existingById = new Map(existing.map((expense) => [expense.id, expense]))
+  const nextIds = new Set(next.map((expense) => expense.id))
+
+  // Only write records that are new or whose contents changed
+  const upserts = next.filter((expense) => {
+    const current = existingById.get(expense.id)
+    return !current || !isSameRecord(current, expense)
+  })
+
+  const deletes = existing.filter((expense) => !nextIds.has(expense.id)).map((expense) => expense.id)
+
+  return { upserts, deletes }
+}
+
 // Add or update expenses
-export const saveExpenses = async (expenses: any[]): Promise<void> => {
+// Reads the stored rows and applies only the differences inside a single transaction,
+// so an interrupted write is rolled back by IndexedDB instead of leaving the store half-cleared
+export const saveExpenses = async (expenses: Expense[]): Promise<void> => {
   try {
+    const validExpenses = expenses.map((expense) => ExpenseSchema.parse(expense))
     const db = await openDB()
-    const transaction = db.transaction(EXPENSES_STORE, "readwrite")
+    const transaction = db.transaction(withChangeLog(EXPENSES_STORE), "readwrite")
     const store = transaction.objectStore(EXPENSES_STORE)
+    const request = store.getAll()
 
-    // Clear existing expenses
-    store.clear()
-
-    // Add all expenses
-    expenses.forEach((expense) => {
-      store.add(expense)
-    })
-
-    return new Promise((resolve, reject) => {
-      transaction.oncomplete = () => {
-        db.close()
-        resolve()
-      }
+    request.onsuccess = () => {
+      // Diff against the rows that parse: malformed ones were never loaded, so they are never deleted
+      const existing = parseRecords(EXPENSES_STORE, request.result)
+      const existingById = new Map(existing.map((expense) => [expense.id, expense]))
+      const { upserts, deletes } = diffExpenses(existing, validExpenses)
+
+      upserts.forEach((expense) => {
+        store.put(expense)
+        logChange(transaction, EXPENSES_STORE, expense.id, existingById.get(expense.id), expense)
+      })
+
+      deletes.forEach((id) => {
+        store.delete(id)
+        logChange(transaction, EXPENSES_STORE, id, existingById.get(id), undefined)
+      })
+    }
 
-      transaction.onerror = (event) => {
-        console.error("Transaction error:", transaction.error)
-        reject(transaction.error)
-      }
-    })
+    return completeTransaction(db, transaction)
   } catch (error) {
     console.error("Error saving expenses:", error)
     throw error
@@ -102,50 +356,99 @@ export const saveExpenses = async (expenses: any[]): Promise<void> => {
 }
 
 // Add a single expense
-export const addExpense = async (expense: any): Promise<void> => {
+export const addExpense = async (expense: Expense): Promise<void> => {
   try {
+    const validExpense = ExpenseSchema.parse(expense)
     const db = await openDB()
-    const transaction = db.transaction(EXPENSES_STORE, "readwrite")
-    const store = transaction.objectStore(EXPENSES_STORE)
+    const transaction = db.transaction(withChangeLog(EXPENSES_STORE), "readwrite")
 
-    store.add(expense)
+    transaction.objectStore(EXPENSES_STORE).add(validExpense)
+    logChange(transaction, EXPENSES_STORE, validExpense.id, undefined, validExpense)
 
-    return new Promise((resolve, reject) => {
-      transaction.oncomplete = () => {
-        db.close()
-        resolve()
-      }
+    return completeTransaction(db, transaction)
+  } catch (error) {
+    console.error("Error adding expense:", error)
+    throw error
+  }
+}
 
-      transaction.onerror = (event) => {
-        console.error("Transaction error:", transaction.error)
-        reject(transaction.error)
-      }
+// Add a batch of expenses (e.g. from an import) in a single transaction,
+// so either every record is written or, if one fails, none are
+export const importExpenses = async (expenses: Expense[]): Promise<void> => {
+  try {
+    const validExpenses = expenses.map((expense) => ExpenseSchema.parse(expense))
+    const db = await openDB()
+    const transaction = db.transaction(withChangeLog(EXPENSES_STORE), "readwrite")
+    const store = transaction.objectStore(EXPENSES_STORE)
+
+    validExpenses.forEach((expense) => {
+      store.add(expense)
+      logChange(transaction, EXPENSES_STORE, expense.id, undefined, expense)
     })
+
+    return completeTransaction(db, transaction)
   } catch (error) {
-    console.error("Error adding expense:", error)
+    console.error("Error importing expenses:", error)
     throw error
   }
 }
 
-// Get all expenses
-export const getExpenses = async (): Promise<any[]> => {
+// Update a batch of existing expenses (e.g. after applying rules) in a single transaction
+// Expenses deleted in the meantime are skipped rather than recreated
+export const updateExpenses = async (expenses: Expense[]): Promise<void> => {
   try {
+    const validExpenses = expenses.map((expense) => ExpenseSchema.parse(expense))
     const db = await openDB()
-    const transaction = db.transaction(EXPENSES_STORE, "readonly")
+    const transaction = db.transaction(withChangeLog(EXPENSES_STORE), "readwrite")
     const store = transaction.objectStore(EXPENSES_STORE)
-    const request = store.getAll()
 
-    return new Promise((resolve, reject) => {
+    validExpenses.forEach((expense) => {
+      const request = store.get(expense.id)
       request.onsuccess = () => {
-        db.close()
-        resolve(request.result)
+        if (request.result) {
+          store.put(expense)
+          logChange(transaction, EXPENSES_STORE, expense.id, request.result, expense)
+        }
       }
+    })
 
-      request.onerror = () => {
-        console.error("Error getting expenses:", request.error)
-        reject(request.error)
+    return completeTransaction(db, transaction)
+  } catch (error) {
+    console.error("Error updating expenses:", error)
+    throw error
+  }
+}
+
+// Update an existing expense
+export const updateExpense = async (expense: Expense): Promise<void> => {
+  try {
+    const validExpense = ExpenseSchema.parse(expense)
+    const db = await openDB()
+    const transaction = db.transaction(withChangeLog(EXPENSES_STORE), "readwrite")
+    const store = transaction.objectStore(EXPENSES_STORE)
+    const request = store.get(validExpense.id)
+
+    // Only overwrite an expense that still exists, so an edit can't resurrect a deleted one
+    request.onsuccess = () => {
+      if (request.result) {
+        store.put(validExpense)
+        logChange(transaction, EXPENSES_STORE, validExpense.id, request.result, validExpense)
+      } else {
+        transaction.abort()
       }
-    })
+    }
+
+    return completeTransaction(db, transaction)
+  } catch (error) {
+    console.error("Error updating expense:", error)
+    throw error
+  }
+}
+
+// Get all expenses
+export const getExpenses = async (): Promise<Expense[]> => {
+  try {
+    return await getAllRecords(EXPENSES_STORE)
   } catch (error) {
     console.error("Error retrieving expenses:", error)
     return []
@@ -153,54 +456,200 @@ export const getExpenses = async (): Promise<any[]> => {
 }
 
 // Get expenses for a specific time period
-export const getExpensesByPeriod = async (startTime: number, endTime: number): Promise<any[]> => {
+export const getExpensesByPeriod = async (startTime: number, endTime: number): Promise<Expense[]> => {
   try {
-    const db = await openDB()
-    const transaction = db.transaction(EXPENSES_STORE, "readonly")
-    const store = transaction.objectStore(EXPENSES_STORE)
-    const index = store.index("timestamp")
-
     // Use IDBKeyRange to get expenses within the time range
-    const range = IDBKeyRange.bound(startTime, endTime)
-    const request = index.getAll(range)
+    return await queryRecords(EXPENSES_STORE, "timestamp", IDBKeyRange.bound(startTime, endTime))
+  } catch (error) {
+    console.error("Error retrieving expenses by period:", error)
+    return []
+  }
+}
 
-    return new Promise((resolve, reject) => {
-      request.onsuccess = () => {
-        db.close()
-        resolve(request.result)
+// Order expenses are read in, with the index that keeps them in it
+export type ExpenseOrder = "newest" | "oldest" | "largest" | "smallest"
+
+const EXPENSE_ORDERS: Record<ExpenseOrder, { index: string; direction: IDBCursorDirection }> = {
+  newest: { index: "timestamp", direction: "prev" },
+  oldest: { index: "timestamp", direction: "next" },
+  largest: { index: "amount", direction: "prev" },
+  smallest: { index: "amount", direction: "next" },
+}
+
+// Which expenses to read: an order, inclusive bounds on the field it sorts by (timestamp or amount),
+// and a check applied to each expense while walking the index
+export interface ExpenseQuery {
+  order: ExpenseOrder
+  min?: number | null
+  max?: number | null
+  filter?: (expense: Expense) => boolean
+}
+
+// Position in an index a page of expenses ends at; the id orders expenses with the same index key
+export interface ExpenseCursor {
+  key: IDBValidKey
+  id: string
+}
+
+export interface ExpensePage {
+  expenses: Expense[]
+  next: ExpenseCursor | null // Where the following page starts, or null after the last page
+}
+
+// Key range of a query on its index, starting at a cursor; undefined when nothing can match
+const getQueryRange = (query: ExpenseQuery, after: ExpenseCursor | null): IDBKeyRange | null | undefined => {
+  const { direction } = EXPENSE_ORDERS[query.order]
+  // The amount index is on [amount, timestamp], so equal amounts stay in date order
+  const byAmount = EXPENSE_ORDERS[query.order].index === "amount"
+  const min = query.min ?? null
+  const max = query.max ?? null
+  let lower: IDBValidKey | null = min === null ? null : byAmount ? [min, -Infinity] : min
+  let upper: IDBValidKey | null = max === null ? null : byAmount ? [max, Infinity] : max
+
+  if (after && direction === "prev") {
+    upper = upper === null || indexedDB.cmp(after.key, upper) < 0 ? after.key : upper
+  } else if (after) {
+    lower = lower === null || indexedDB.cmp(after.key, lower) > 0 ? after.key : lower
+  }
+
+  if (lower !== null && upper !== null) {
+    return indexedDB.cmp(lower, upper) > 0 ? undefined : IDBKeyRange.bound(lower, upper)
+  }
+  if (lower !== null) return IDBKeyRange.lowerBound(lower)
+  if (upper !== null) return IDBKeyRange.upperBound(upper)
+  return null
+}
+
+// Walk the expenses matching a query in its order, starting after a cursor, until `visit` returns false
+const walkExpenses = async (
+  query: ExpenseQuery,
+  after: ExpenseCursor | null,
+  visit: (expense: Expense, position: ExpenseCursor) => boolean,
+): Promise<void> => {
+  const range = getQueryRange(query, after)
+  if (range === undefined) return
+
+  const { index, direction } = EXPENSE_ORDERS[query.order]
+  const db = await openDB()
+  const transaction = db.transaction(EXPENSES_STORE, "readonly")
+  const request = transaction.objectStore(EXPENSES_STORE).index(index).openCursor(range, direction)
+
+  request.onsuccess = () => {
+    const cursor = request.result
+    if (!cursor) return
+
+    // Expenses at the cursor's own key come in id order; skip the ones already read
+    if (after && indexedDB.cmp(cursor.key, after.key) === 0) {
+      const comparison = indexedDB.cmp(cursor.primaryKey, after.id)
+      if (direction === "prev" ? comparison >= 0 : comparison <= 0) {
+        cursor.continue()
+        return
       }
+    }
+
+    // Rows that fail validation are skipped, as getExpenses does
+    const expense = parseRecord(EXPENSES_STORE, cursor.value)
+    if (expense && (!query.filter || query.filter(expense))) {
+      if (!visit(expense, { key: cursor.key, id: expense.id })) return
+    }
+
+    cursor.continue()
+  }
+
+  await completeTransaction(db, transaction)
+}
 
-      request.onerror = () => {
-        console.error("Error getting expenses by period:", request.error)
-        reject(request.error)
+// Get a page of the expenses matching a query by walking an index from a cursor, so long histories
+// load in slices whatever the filters; a limit of Infinity reads every match
+export const getExpensesPage = async (
+  after: ExpenseCursor | null,
+  limit: number,
+  query: ExpenseQuery = { order: "newest" },
+): Promise<ExpensePage> => {
+  try {
+    const expenses: Expense[] = []
+    const positions: ExpenseCursor[] = []
+    let hasMore = false
+
+    await walkExpenses(query, after, (expense, position) => {
+      // Stop one past the page to know whether another page follows
+      if (expenses.length === limit) {
+        hasMore = true
+        return false
       }
+
+      expenses.push(expense)
+      positions.push(position)
+      return true
     })
+
+    return { expenses, next: hasMore ? positions[positions.length - 1] : null }
   } catch (error) {
-    console.error("Error retrieving expenses by period:", error)
+    console.error("Error retrieving a page of expenses:", error)
+    return { expenses: [], next: null }
+  }
+}
+
+export interface ExpenseSummary extends CashFlow {
+  count: number
+}
+
+// Count and cash flow of every expense matching a query, without keeping them in memory
+export const summarizeExpenses = async (query: ExpenseQuery): Promise<ExpenseSummary> => {
+  const summary: ExpenseSummary = { count: 0, spent: 0, income: 0, net: 0 }
+
+  try {
+    await walkExpenses(query, null, (expense) => {
+      summary.count++
+      if (isSpending(expense)) summary.spent += expense.amount
+      if (isIncome(expense)) summary.income += expense.amount
+      return true
+    })
+  } catch (error) {
+    console.error("Error summarizing expenses:", error)
+  }
+
+  return { ...summary, net: summary.income - summary.spent }
+}
+
+// Get expenses with a tag, using the multiEntry tags index
+export const getExpensesByTag = async (tag: string): Promise<Expense[]> => {
+  try {
+    return await queryRecords(EXPENSES_STORE, "tags", tag)
+  } catch (error) {
+    console.error("Error retrieving expenses by tag:", error)
     return []
   }
 }
 
-// Save a setting
-export const saveSetting = async (name: string, value: any): Promise<void> => {
+// Get every tag in use, sorted, by walking the unique keys of the tags index
+export const getAllTags = async (): Promise<string[]> => {
   try {
     const db = await openDB()
-    const transaction = db.transaction(SETTINGS_STORE, "readwrite")
-    const store = transaction.objectStore(SETTINGS_STORE)
+    const transaction = db.transaction(EXPENSES_STORE, "readonly")
+    const request = transaction.objectStore(EXPENSES_STORE).index("tags").openKeyCursor(null, "nextunique")
+    const tags: string[] = []
 
-    store.put({ name, value })
+    request.onsuccess = () => {
+      const cursor = request.result
+      if (!cursor) return
 
-    return new Promise((resolve, reject) => {
-      transaction.oncomplete = () => {
-        db.close()
-        resolve()
-      }
+      tags.push(String(cursor.key))
+      cursor.continue()
+    }
 
-      transaction.onerror = () => {
-        console.error("Transaction error:", transaction.error)
-        reject(transaction.error)
-      }
-    })
+    await completeTransaction(db, transaction)
+    return tags
+  } catch (error) {
+    console.error("Error retrieving tags:", error)
+    return []
+  }
+}
+
+// Save a setting
+export const saveSetting = async (name: string, value: unknown): Promise<void> => {
+  try {
+    await putRecord(SETTINGS_STORE, { name, value })
   } catch (error) {
     console.error(`Error saving setting ${name}:`, error)
     throw error
@@ -208,24 +657,10 @@ export const saveSetting = async (name: string, value: any): Promise<void> => {
 }
 
 // Get a setting
-export const getSetting = async (name: string, defaultValue: any = null): Promise<any> => {
+export const getSetting = async <T>(name: string, defaultValue: T): Promise<T> => {
   try {
-    const db = await openDB()
-    const transaction = db.transaction(SETTINGS_STORE, "readonly")
-    const store = transaction.objectStore(SETTINGS_STORE)
-    const request = store.get(name)
-
-    return new Promise((resolve, reject) => {
-      request.onsuccess = () => {
-        db.close()
-        resolve(request.result ? request.result.value : defaultValue)
-      }
-
-      request.onerror = () => {
-        console.error(`Error getting setting ${name}:`, request.error)
-        reject(request.error)
-      }
-    })
+    const setting = await getRecord(SETTINGS_STORE, name)
+    return setting ? (setting.value as T) : defaultValue
   } catch (error) {
     console.error(`Error retrieving setting ${name}:`, error)
     return defaultValue
@@ -233,266 +668,824 @@ export const getSetting = async (name: string, defaultValue: any = null): Promis
 }
 
 // Save a category
-export const saveCategory = async (category: any): Promise<void> => {
+export const saveCategory = async (category: Category): Promise<void> => {
+  try {
+    await putRecord(CATEGORIES_STORE, category)
+  } catch (error) {
+    console.error(`Error saving category:`, error)
+    throw error
+  }
+}
+
+// Get all categories
+export const getCategories = async (): Promise<Category[]> => {
   try {
+    return await getAllRecords(CATEGORIES_STORE)
+  } catch (error) {
+    console.error("Error retrieving categories:", error)
+    return []
+  }
+}
+
+// Get custom categories (only user-created categories are stored)
+export const getCustomCategories = getCategories
+
+// Add a custom category
+export const addCustomCategory = async (category: Category): Promise<void> => {
+  try {
+    const validCategory = CategorySchema.parse(category)
     const db = await openDB()
-    const transaction = db.transaction(CATEGORIES_STORE, "readwrite")
+    const transaction = db.transaction(withChangeLog(CATEGORIES_STORE), "readwrite")
     const store = transaction.objectStore(CATEGORIES_STORE)
+    const request = store.get(validCategory.id)
 
-    store.put(category)
-
-    return new Promise((resolve, reject) => {
-      transaction.oncomplete = () => {
-        db.close()
-        resolve()
+    // A deleted built-in category leaves a marker with its id behind, which the new category replaces
+    request.onsuccess = () => {
+      if (request.result && !request.result.deleted) {
+        transaction.abort()
+        return
       }
 
-      transaction.onerror = () => {
-        console.error("Transaction error:", transaction.error)
-        reject(transaction.error)
-      }
-    })
+      store.put(validCategory)
+      logChange(transaction, CATEGORIES_STORE, validCategory.id, request.result, validCategory)
+    }
+
+    return completeTransaction(db, transaction)
   } catch (error) {
-    console.error(`Error saving category:`, error)
+    console.error("Error adding custom category:", error)
     throw error
   }
 }
 
-// Get all categories
-export const getCategories = async (): Promise<any[]> => {
+// Number of records that refer to a category
+export interface CategoryUsage {
+  transactions: number
+  budgetGoals: number
+  recurringRules: number
+  categoryRules: number
+}
+
+// Count the transactions, budget goals, recurring rules and categorization rules using a category
+export const getCategoryUsage = async (id: string): Promise<CategoryUsage> => {
+  try {
+    // Splits aren't indexed, so every transaction is checked
+    const [transactions, budgetGoals, recurringRules, categoryRules] = await Promise.all([
+      getAllRecords(EXPENSES_STORE),
+      queryRecords(BUDGET_GOALS_STORE, "category", id),
+      getAllRecords(RECURRING_RULES_STORE),
+      getAllRecords(CATEGORY_RULES_STORE),
+    ])
+
+    return {
+      transactions: transactions.filter(
+        (transaction) =>
+          transaction.category === id || getCategoryAmounts(transaction).some((split) => split.id === id),
+      ).length,
+      budgetGoals: budgetGoals.length,
+      recurringRules: recurringRules.filter((rule) => rule.category === id).length,
+      categoryRules: categoryRules.filter((rule) => rule.category === id).length,
+    }
+  } catch (error) {
+    console.error("Error counting category usage:", error)
+    throw error
+  }
+}
+
+// Move everything using one category to another, then remove the old category, in a single transaction
+// Budget goals are either combined with the target's goal for the same period or deleted.
+// `replacement` is stored in place of the old category (a built-in tombstone); null deletes the record.
+// Without a target the transaction is aborted if anything still uses the category, except
+// categorization rules, which stop setting a category (and are removed if that was all they did).
+export const reassignCategory = async (
+  sourceId: string,
+  targetId: string | null,
+  budgetGoals: "merge" | "delete",
+  replacement: Category | null,
+): Promise<void> => {
   try {
     const db = await openDB()
-    const transaction = db.transaction(CATEGORIES_STORE, "readonly")
-    const store = transaction.objectStore(CATEGORIES_STORE)
-    const request = store.getAll()
+    const transaction = db.transaction(
+      withChangeLog(CATEGORIES_STORE, EXPENSES_STORE, BUDGET_GOALS_STORE, RECURRING_RULES_STORE, CATEGORY_RULES_STORE),
+      "readwrite",
+    )
+    const now = Date.now()
+
+    // Transactions, including splits (which aren't indexed, so every transaction is checked)
+    const expenseRequest = transaction.objectStore(EXPENSES_STORE).openCursor()
+    expenseRequest.onsuccess = () => {
+      const cursor = expenseRequest.result
+      if (!cursor) return
+
+      const expense = parseRecord(EXPENSES_STORE, cursor.value)
+      const usesCategory =
+        expense && (expense.category === sourceId || expense.splits?.some((split) => split.category === sourceId))
+
+      if (expense && usesCategory) {
+        if (targetId === null) {
+          transaction.abort()
+          return
+        }
 
-    return new Promise((resolve, reject) => {
-      request.onsuccess = () => {
-        db.close()
-        resolve(request.result)
+        const splits = expense.splits ? reassignSplits(expense.splits, sourceId, targetId) : undefined
+        const updated = {
+          ...expense,
+          category: splits ? getMainCategory(splits) : expense.category === sourceId ? targetId : expense.category,
+          splits,
+        }
+        cursor.update(updated)
+        logChange(transaction, EXPENSES_STORE, expense.id, cursor.value, updated)
       }
 
-      request.onerror = () => {
-        console.error("Error getting categories:", request.error)
-        reject(request.error)
+      cursor.continue()
+    }
+
+    // Budget goals
+    const goalStore = transaction.objectStore(BUDGET_GOALS_STORE)
+    const goalRequest = goalStore.getAll()
+    goalRequest.onsuccess = () => {
+      const goals = parseRecords(BUDGET_GOALS_STORE, goalRequest.result)
+
+      goals
+        .filter((goal) => goal.category === sourceId)
+        .forEach((goal) => {
+          if (budgetGoals === "delete" || targetId === null) {
+            goalStore.delete(goal.id)
+            logChange(transaction, BUDGET_GOALS_STORE, goal.id, goal, undefined)
+            return
+          }
+
+          const targetGoal = goals.find((other) => other.category === targetId && other.period === goal.period)
+          if (targetGoal) {
+            const merged = { ...targetGoal, amount: targetGoal.amount + goal.amount, updatedAt: now }
+            goalStore.put(merged)
+            goalStore.delete(goal.id)
+            logChange(transaction, BUDGET_GOALS_STORE, targetGoal.id, targetGoal, merged)
+            logChange(transaction, BUDGET_GOALS_STORE, goal.id, goal, undefined)
+          } else {
+            const moved = { ...goal, category: targetId, updatedAt: now }
+            goalStore.put(moved)
+            logChange(transaction, BUDGET_GOALS_STORE, goal.id, goal, moved)
+          }
+        })
+    }
+
+    // Recurring rules, including categories changed on single occurrences
+    const ruleStore = transaction.objectStore(RECURRING_RULES_STORE)
+    const ruleRequest = ruleStore.getAll()
+    ruleRequest.onsuccess = () => {
+      for (const rule of parseRecords(RECURRING_RULES_STORE, ruleRequest.result)) {
+        const usesCategory =
+          rule.category === sourceId || Object.values(rule.overrides).some((override) => override.category === sourceId)
+        if (!usesCategory) continue
+
+        // Abort once; the transaction can't be aborted again for a second rule
+        if (targetId === null) {
+          transaction.abort()
+          return
+        }
+
+        const overrides = Object.fromEntries(
+          Object.entries(rule.overrides).map(([key, override]) => [
+            key,
+            override.category === sourceId ? { ...override, category: targetId } : override,
+          ]),
+        )
+
+        ruleStore.put({
+          ...rule,
+          category: rule.category === sourceId ? targetId : rule.category,
+          overrides,
+          updatedAt: now,
+        })
       }
-    })
+    }
+
+    // Categorization rules
+    const categoryRuleStore = transaction.objectStore(CATEGORY_RULES_STORE)
+    const categoryRuleRequest = categoryRuleStore.getAll()
+    categoryRuleRequest.onsuccess = () => {
+      parseRecords(CATEGORY_RULES_STORE, categoryRuleRequest.result)
+        .filter((rule) => rule.category === sourceId)
+        .forEach((rule) => {
+          if (targetId === null && !rule.tags?.length) {
+            categoryRuleStore.delete(rule.id)
+            return
+          }
+
+          categoryRuleStore.put({ ...rule, category: targetId ?? undefined, updatedAt: now })
+        })
+    }
+
+    // Sub-categories move under the target's top-level category, or become top-level without a target
+    const categoryStore = transaction.objectStore(CATEGORIES_STORE)
+    const categoryRequest = categoryStore.getAll()
+    categoryRequest.onsuccess = () => {
+      const categories = parseRecords(CATEGORIES_STORE, categoryRequest.result)
+      const target = categories.find((category) => category.id === targetId)
+      const newParentId =
+        targetId === null ? undefined : target?.parentId && target.parentId !== sourceId ? target.parentId : targetId
+
+      categories
+        .filter((category) => category.parentId === sourceId)
+        .forEach((child) => {
+          const moved = { ...child, parentId: child.id === newParentId ? undefined : newParentId }
+          categoryStore.put(moved)
+          logChange(transaction, CATEGORIES_STORE, child.id, child, moved)
+        })
+
+      // The category itself
+      const source = categories.find((category) => category.id === sourceId)
+      if (replacement) {
+        const validReplacement = CategorySchema.parse(replacement)
+        categoryStore.put(validReplacement)
+        logChange(transaction, CATEGORIES_STORE, sourceId, source, validReplacement)
+      } else {
+        categoryStore.delete(sourceId)
+        logChange(transaction, CATEGORIES_STORE, sourceId, source, undefined)
+      }
+    }
+
+    return completeTransaction(db, transaction)
   } catch (error) {
-    console.error("Error retrieving categories:", error)
-    return []
+    console.error("Error reassigning category:", error)
+    throw error
   }
 }
 
-// Add this function to get custom categories
-export const getCustomCategories = async (): Promise<any[]> => {
+// Move an expense to the trash; returns the trash entry to restore it from
+export const deleteExpense = async (id: string): Promise<string | null> => {
   try {
+    return await moveToTrash(EXPENSES_STORE, [id])
+  } catch (error) {
+    console.error(`Error deleting expense:`, error)
+    throw error
+  }
+}
+
+// Move several expenses to the trash as one entry, so they are restored together
+export const deleteExpenses = async (ids: string[], description?: string): Promise<string | null> => {
+  try {
+    return await moveToTrash(EXPENSES_STORE, ids, description)
+  } catch (error) {
+    console.error("Error deleting expenses:", error)
+    throw error
+  }
+}
+
+// Save the transaction kept from a group of duplicates and move the others to the trash, in a single
+// transaction so a failure leaves neither half done. Returns the trash entry's id, or null if none of the others exist
+export const mergeExpenses = async (kept: Expense, removedIds: string[]): Promise<string | null> => {
+  try {
+    const validExpense = ExpenseSchema.parse(kept)
     const db = await openDB()
-    const transaction = db.transaction(CATEGORIES_STORE, "readonly")
-    const store = transaction.objectStore(CATEGORIES_STORE)
-    const request = store.getAll()
+    const transaction = db.transaction(withChangeLog(EXPENSES_STORE, TRASH_STORE), "readwrite")
+    const store = transaction.objectStore(EXPENSES_STORE)
+    const request = store.get(validExpense.id)
 
-    return new Promise((resolve, reject) => {
-      request.onsuccess = () => {
-        db.close()
-        resolve(request.result)
+    // As with updateExpense, only merge into an expense that still exists
+    request.onsuccess = () => {
+      if (request.result) {
+        store.put(validExpense)
+        logChange(transaction, EXPENSES_STORE, validExpense.id, request.result, validExpense)
+      } else {
+        transaction.abort()
       }
+    }
+    const entry = trashRecords(transaction, EXPENSES_STORE, removedIds)
 
-      request.onerror = () => {
-        console.error("Error getting custom categories:", request.error)
-        reject(request.error)
-      }
+    await completeTransaction(db, transaction)
+    return entry.records.length > 0 ? entry.id : null
+  } catch (error) {
+    console.error("Error merging expenses:", error)
+    throw error
+  }
+}
+
+// Budget Goals Functions
+
+// Save a budget goal
+export const saveBudgetGoal = async (goal: BudgetGoal): Promise<void> => {
+  try {
+    // Add timestamps if not present
+    await putRecord(BUDGET_GOALS_STORE, {
+      ...goal,
+      createdAt: goal.createdAt || Date.now(),
+      updatedAt: Date.now(),
     })
   } catch (error) {
-    console.error("Error retrieving custom categories:", error)
+    console.error(`Error saving budget goal:`, error)
+    throw error
+  }
+}
+
+// Get all budget goals
+export const getBudgetGoals = async (): Promise<BudgetGoal[]> => {
+  try {
+    return await getAllRecords(BUDGET_GOALS_STORE)
+  } catch (error) {
+    console.error("Error retrieving budget goals:", error)
     return []
   }
 }
 
-// Add this function to add a custom category
-export const addCustomCategory = async (category: { id: string; name: string; color: string }): Promise<void> => {
+// Get budget goals by category
+export const getBudgetGoalsByCategory = async (category: string): Promise<BudgetGoal[]> => {
   try {
-    const db = await openDB()
-    const transaction = db.transaction(CATEGORIES_STORE, "readwrite")
-    const store = transaction.objectStore(CATEGORIES_STORE)
+    return await queryRecords(BUDGET_GOALS_STORE, "category", category)
+  } catch (error) {
+    console.error("Error retrieving budget goals by category:", error)
+    return []
+  }
+}
 
-    store.add(category)
+// Get budget goals by period
+export const getBudgetGoalsByPeriod = async (period: BudgetGoal["period"]): Promise<BudgetGoal[]> => {
+  try {
+    return await queryRecords(BUDGET_GOALS_STORE, "period", period)
+  } catch (error) {
+    console.error("Error retrieving budget goals by period:", error)
+    return []
+  }
+}
 
-    return new Promise((resolve, reject) => {
-      transaction.oncomplete = () => {
-        db.close()
-        resolve()
-      }
+// Move a budget goal to the trash; returns the trash entry to restore it from
+export const deleteBudgetGoal = async (id: string): Promise<string | null> => {
+  try {
+    return await moveToTrash(BUDGET_GOALS_STORE, [id])
+  } catch (error) {
+    console.error(`Error deleting budget goal:`, error)
+    throw error
+  }
+}
 
-      transaction.onerror = () => {
-        console.error("Transaction error:", transaction.error)
-        reject(transaction.error)
-      }
-    })
+// Account Functions
+
+// Save an account
+export const saveAccount = async (account: Account): Promise<void> => {
+  try {
+    await putRecord(ACCOUNTS_STORE, account)
   } catch (error) {
-    console.error("Error adding custom category:", error)
+    console.error(`Error saving account:`, error)
     throw error
   }
 }
 
-// Delete an expense by ID
-export const deleteExpense = async (id: string): Promise<void> => {
+// Get all accounts
+export const getAccounts = async (): Promise<Account[]> => {
   try {
-    const db = await openDB()
-    const transaction = db.transaction(EXPENSES_STORE, "readwrite")
-    const store = transaction.objectStore(EXPENSES_STORE)
+    const accounts = await getAllRecords(ACCOUNTS_STORE)
+    return accounts.sort((a, b) => a.createdAt - b.createdAt)
+  } catch (error) {
+    console.error("Error retrieving accounts:", error)
+    return []
+  }
+}
 
-    store.delete(id)
+// Delete an account by ID (only allowed once no transaction references it)
+export const deleteAccount = async (id: string): Promise<void> => {
+  try {
+    const [fromAccount, toAccount] = await Promise.all([
+      queryRecords(EXPENSES_STORE, "accountId", id),
+      getExpenses().then((expenses) => expenses.filter((expense) => expense.toAccountId === id)),
+    ])
 
-    return new Promise((resolve, reject) => {
-      transaction.oncomplete = () => {
-        db.close()
-        resolve()
-      }
+    if (fromAccount.length > 0 || toAccount.length > 0) {
+      throw new Error("Account still has transactions")
+    }
 
-      transaction.onerror = () => {
-        console.error("Transaction error:", transaction.error)
-        reject(transaction.error)
-      }
+    await deleteRecord(ACCOUNTS_STORE, id)
+  } catch (error) {
+    console.error(`Error deleting account:`, error)
+    throw error
+  }
+}
+
+// Recurring Rule Functions
+
+// Save a recurring rule
+export const saveRecurringRule = async (rule: RecurringRule): Promise<void> => {
+  try {
+    await putRecord(RECURRING_RULES_STORE, {
+      ...rule,
+      createdAt: rule.createdAt || Date.now(),
+      updatedAt: Date.now(),
     })
   } catch (error) {
-    console.error(`Error deleting expense:`, error)
+    console.error(`Error saving recurring rule:`, error)
     throw error
   }
 }
 
-// Budget Goals Functions
+// Get all recurring rules
+export const getRecurringRules = async (): Promise<RecurringRule[]> => {
+  try {
+    const rules = await getAllRecords(RECURRING_RULES_STORE)
+    return rules.sort((a, b) => a.createdAt - b.createdAt)
+  } catch (error) {
+    console.error("Error retrieving recurring rules:", error)
+    return []
+  }
+}
 
-// Save a budget goal
-export const saveBudgetGoal = async (goal: any): Promise<void> => {
+// Delete a recurring rule by ID (transactions it already generated are kept)
+export const deleteRecurringRule = async (id: string): Promise<void> => {
+  try {
+    await deleteRecord(RECURRING_RULES_STORE, id)
+  } catch (error) {
+    console.error(`Error deleting recurring rule:`, error)
+    throw error
+  }
+}
+
+// Turn every occurrence that has come due into a real transaction, catching up on any
+// missed while the app was closed. Each rule's cursor moves forward in the same transaction
+// as the records it generated, so an interrupted run is simply repeated next time.
+// Resolves with the number of transactions added.
+export const materializeRecurringRules = async (now: number = Date.now()): Promise<number> => {
   try {
     const db = await openDB()
-    const transaction = db.transaction(BUDGET_GOALS_STORE, "readwrite")
-    const store = transaction.objectStore(BUDGET_GOALS_STORE)
+    const transaction = db.transaction(withChangeLog(RECURRING_RULES_STORE, EXPENSES_STORE), "readwrite")
+    const ruleStore = transaction.objectStore(RECURRING_RULES_STORE)
+    const request = ruleStore.getAll()
+    let added = 0
+
+    request.onsuccess = () => {
+      parseRecords(RECURRING_RULES_STORE, request.result).forEach((rule) => {
+        const due: Expense[] = []
+
+        // A rule producing an invalid transaction is left for the next run rather than stopping the others
+        for (const expense of getDueTransactions(rule, now)) {
+          const result = ExpenseSchema.safeParse(expense)
+          if (!result.success) {
+            console.error(`Skipping recurring rule "${rule.name}", invalid transaction:`, expense, result.error.issues)
+            return
+          }
+          due.push(result.data)
+        }
 
-    // Add timestamps if not present
-    if (!goal.createdAt) {
-      goal.createdAt = Date.now()
+        due.forEach((expense) => putLogged(transaction, EXPENSES_STORE, expense))
+        added += due.length
+        ruleStore.put({ ...rule, materializedUntil: now })
+      })
     }
-    goal.updatedAt = Date.now()
 
-    store.put(goal)
+    await completeTransaction(db, transaction)
+    return added
+  } catch (error) {
+    console.error("Error materializing recurring rules:", error)
+    throw error
+  }
+}
+
+// Categorization Rule Functions
+
+// Save a categorization rule
+export const saveCategoryRule = async (rule: CategoryRule): Promise<void> => {
+  try {
+    await putRecord(CATEGORY_RULES_STORE, {
+      ...rule,
+      createdAt: rule.createdAt || Date.now(),
+      updatedAt: Date.now(),
+    })
+  } catch (error) {
+    console.error(`Error saving categorization rule:`, error)
+    throw error
+  }
+}
+
+// Get all categorization rules, in the order they are applied (oldest first)
+export const getCategoryRules = async (): Promise<CategoryRule[]> => {
+  try {
+    const rules = await getAllRecords(CATEGORY_RULES_STORE)
+    return rules.sort((a, b) => a.createdAt - b.createdAt)
+  } catch (error) {
+    console.error("Error retrieving categorization rules:", error)
+    return []
+  }
+}
 
-    return new Promise((resolve, reject) => {
-      transaction.oncomplete = () => {
-        db.close()
-        resolve()
+// Delete a categorization rule by ID (transactions it already categorized are kept as they are)
+export const deleteCategoryRule = async (id: string): Promise<void> => {
+  try {
+    await deleteRecord(CATEGORY_RULES_STORE, id)
+  } catch (error) {
+    console.error(`Error deleting categorization rule:`, error)
+    throw error
+  }
+}
+
+// Trash Functions
+
+// Remove records from a store and keep them in a trash entry, as part of a transaction that includes
+// the store, the trash and the change log. The entry's records fill in as the transaction runs,
+// and it is only saved if any of them exist
+const trashRecords = (
+  transaction: IDBTransaction,
+  storeName: TrashEntry["store"],
+  ids: string[],
+  description?: string,
+): { id: string; records: unknown[] } => {
+  const store = transaction.objectStore(storeName)
+  const entry = { id: crypto.randomUUID(), store: storeName, description, deletedAt: Date.now(), records: [] as unknown[] }
+  let pending = ids.length
+
+  ids.forEach((id) => {
+    const request = store.get(id)
+    request.onsuccess = () => {
+      // Kept exactly as stored, so restoring puts back the same record
+      if (request.result) {
+        entry.records.push(request.result)
+        store.delete(id)
+        logChange(transaction, storeName, id, request.result, undefined)
       }
 
-      transaction.onerror = () => {
-        console.error("Transaction error:", transaction.error)
-        reject(transaction.error)
+      pending--
+      if (pending === 0 && entry.records.length > 0) {
+        transaction.objectStore(TRASH_STORE).put(entry)
       }
-    })
+    }
+  })
+
+  return entry
+}
+
+// Remove records from a store and keep them in a trash entry, in a single transaction
+// Returns the entry's id, or null if none of the records exist
+const moveToTrash = async (
+  storeName: TrashEntry["store"],
+  ids: string[],
+  description?: string,
+): Promise<string | null> => {
+  if (ids.length === 0) return null
+
+  const db = await openDB()
+  const transaction = db.transaction(withChangeLog(storeName, TRASH_STORE), "readwrite")
+  const entry = trashRecords(transaction, storeName, ids, description)
+
+  await completeTransaction(db, transaction)
+  return entry.records.length > 0 ? entry.id : null
+}
+
+// Get everything in the trash, most recently deleted first
+export const getTrashEntries = async (): Promise<TrashEntry[]> => {
+  try {
+    const entries = await getAllRecords(TRASH_STORE)
+    return entries.sort((a, b) => b.deletedAt - a.deletedAt)
   } catch (error) {
-    console.error(`Error saving budget goal:`, error)
+    console.error("Error retrieving trash:", error)
+    return []
+  }
+}
+
+// Put a trash entry's records back into their store and remove the entry, in a single transaction
+// Returns the restored entry, or null if it was already restored or purged
+export const restoreTrashEntry = async (id: string): Promise<TrashEntry | null> => {
+  try {
+    const db = await openDB()
+    const transaction = db.transaction(withChangeLog(TRASH_STORE, EXPENSES_STORE, BUDGET_GOALS_STORE), "readwrite")
+    const trashStore = transaction.objectStore(TRASH_STORE)
+    const request = trashStore.get(id)
+    let restored: TrashEntry | null = null
+
+    request.onsuccess = () => {
+      if (!request.result) return
+
+      const entry = parseRecord(TRASH_STORE, request.result)
+      if (!entry) return
+
+      request.result.records.forEach((record: { id: string }) => putLogged(transaction, entry.store, record, "restore"))
+      trashStore.delete(id)
+      restored = entry
+    }
+
+    await completeTransaction(db, transaction)
+    return restored
+  } catch (error) {
+    console.error("Error restoring from trash:", error)
     throw error
   }
 }
 
-// Get all budget goals
-export const getBudgetGoals = async (): Promise<any[]> => {
+// Permanently delete a trash entry
+export const deleteTrashEntry = async (id: string): Promise<void> => {
+  try {
+    await deleteRecord(TRASH_STORE, id)
+  } catch (error) {
+    console.error("Error deleting trash entry:", error)
+    throw error
+  }
+}
+
+// Permanently delete everything in the trash
+export const emptyTrash = async (): Promise<void> => {
   try {
     const db = await openDB()
-    const transaction = db.transaction(BUDGET_GOALS_STORE, "readonly")
-    const store = transaction.objectStore(BUDGET_GOALS_STORE)
-    const request = store.getAll()
+    const transaction = db.transaction(TRASH_STORE, "readwrite")
+    transaction.objectStore(TRASH_STORE).clear()
+    return completeTransaction(db, transaction)
+  } catch (error) {
+    console.error("Error emptying trash:", error)
+    throw error
+  }
+}
 
-    return new Promise((resolve, reject) => {
-      request.onsuccess = () => {
-        db.close()
-        resolve(request.result)
-      }
+// Permanently delete trash entries older than the retention period in settings; returns how many went
+export const purgeExpiredTrash = async (now: number = Date.now()): Promise<number> => {
+  try {
+    const retentionDays = parseRetentionDays(await getSetting<unknown>(TRASH_RETENTION_SETTING, null))
+    const db = await openDB()
+    const transaction = db.transaction(TRASH_STORE, "readwrite")
+    const request = transaction
+      .objectStore(TRASH_STORE)
+      .index("deletedAt")
+      .openCursor(IDBKeyRange.upperBound(getPurgeCutoff(retentionDays, now), true))
+    let purged = 0
+
+    request.onsuccess = () => {
+      const cursor = request.result
+      if (!cursor) return
+
+      cursor.delete()
+      purged++
+      cursor.continue()
+    }
+
+    await completeTransaction(db, transaction)
+    return purged
+  } catch (error) {
+    console.error("Error purging trash:", error)
+    return 0
+  }
+}
+
+// Change Log Functions
+
+// Get every change made to a record, oldest first
+export const getRecordHistory = async (recordId: string): Promise<ChangeLogEntry[]> => {
+  try {
+    const changes = await queryRecords(CHANGE_LOG_STORE, "recordId", recordId)
+    return changes.sort((a, b) => a.timestamp - b.timestamp)
+  } catch (error) {
+    console.error("Error retrieving record history:", error)
+    return []
+  }
+}
 
-      request.onerror = () => {
-        console.error("Error getting budget goals:", request.error)
-        reject(request.error)
+// Get the latest changes across all records, newest first, walking the timestamp index
+// Pass the last change shown so far to get the ones before it
+export const getRecentChanges = async (limit: number, after: ChangeLogEntry | null = null): Promise<ChangeLogEntry[]> => {
+  try {
+    const db = await openDB()
+    const transaction = db.transaction(CHANGE_LOG_STORE, "readonly")
+    const range = after ? IDBKeyRange.upperBound(after.timestamp) : null
+    const request = transaction.objectStore(CHANGE_LOG_STORE).index("timestamp").openCursor(range, "prev")
+    const rows: unknown[] = []
+
+    request.onsuccess = () => {
+      const cursor = request.result
+      if (!cursor || rows.length === limit) return
+
+      // Changes made at the same time (e.g. a bulk edit) come in id order; skip the ones already shown
+      if (after && cursor.key === after.timestamp && indexedDB.cmp(cursor.primaryKey, after.id) >= 0) {
+        cursor.continue()
+        return
       }
-    })
+
+      rows.push(cursor.value)
+      cursor.continue()
+    }
+
+    await completeTransaction(db, transaction)
+    return parseRecords(CHANGE_LOG_STORE, rows)
   } catch (error) {
-    console.error("Error retrieving budget goals:", error)
+    console.error("Error retrieving recent changes:", error)
     return []
   }
 }
 
-// Get budget goals by category
-export const getBudgetGoalsByCategory = async (category: string): Promise<any[]> => {
+// A stored row that doesn't match its store's schema; reads skip it, and it stays in the store until fixed
+export interface MalformedRecord {
+  storeName: StoreName
+  key: IDBValidKey
+  row: unknown
+  issues: string[]
+}
+
+// Find the rows every read skips, so they can be reported and saved instead of going unnoticed
+export const getMalformedRecords = async (): Promise<MalformedRecord[]> => {
   try {
     const db = await openDB()
-    const transaction = db.transaction(BUDGET_GOALS_STORE, "readonly")
-    const store = transaction.objectStore(BUDGET_GOALS_STORE)
-    const index = store.index("category")
-    const request = index.getAll(category)
+    const transaction = db.transaction(STORE_NAMES, "readonly")
+    const malformed: MalformedRecord[] = []
+
+    STORE_NAMES.forEach((storeName) => {
+      const request = transaction.objectStore(storeName).openCursor()
 
-    return new Promise((resolve, reject) => {
       request.onsuccess = () => {
-        db.close()
-        resolve(request.result)
-      }
+        const cursor = request.result
+        if (!cursor) return
+
+        const result = STORE_SCHEMAS[storeName].safeParse(cursor.value)
+        if (!result.success) {
+          malformed.push({
+            storeName,
+            key: cursor.primaryKey,
+            row: cursor.value,
+            issues: result.error.issues.map((issue) => `${issue.path.join(".") || "record"}: ${issue.message}`),
+          })
+        }
 
-      request.onerror = () => {
-        console.error("Error getting budget goals by category:", request.error)
-        reject(request.error)
+        cursor.continue()
       }
     })
+
+    await completeTransaction(db, transaction)
+    return malformed
   } catch (error) {
-    console.error("Error retrieving budget goals by category:", error)
+    console.error("Error checking for malformed records:", error)
     return []
   }
 }
 
-// Get budget goals by period
-export const getBudgetGoalsByPeriod = async (period: string): Promise<any[]> => {
+// Backup Functions
+
+// Read every record from every store in a single transaction, so the snapshot is consistent
+export const exportAllStores = async (): Promise<StoreContents> => {
   try {
     const db = await openDB()
-    const transaction = db.transaction(BUDGET_GOALS_STORE, "readonly")
-    const store = transaction.objectStore(BUDGET_GOALS_STORE)
-    const index = store.index("period")
-    const request = index.getAll(period)
+    const transaction = db.transaction(STORE_NAMES, "readonly")
+    const snapshot = {} as StoreContents
 
-    return new Promise((resolve, reject) => {
+    STORE_NAMES.forEach((storeName) => {
+      const request = transaction.objectStore(storeName).getAll()
       request.onsuccess = () => {
-        db.close()
-        resolve(request.result)
-      }
-
-      request.onerror = () => {
-        console.error("Error getting budget goals by period:", request.error)
-        reject(request.error)
+        Object.assign(snapshot, { [storeName]: parseRecords(storeName, request.result) })
       }
     })
+
+    await completeTransaction(db, transaction)
+    return snapshot
   } catch (error) {
-    console.error("Error retrieving budget goals by period:", error)
-    return []
+    console.error("Error exporting stores:", error)
+    throw error
   }
 }
 
-// Delete a budget goal by ID
-export const deleteBudgetGoal = async (id: string): Promise<void> => {
+// Write a snapshot back into the database in a single transaction
+// "replace" clears each store in the snapshot first; "merge" keeps existing records and
+// overwrites those with the same key. Stores missing from the snapshot are left alone.
+// Writes to logged stores are recorded as restores, and the change log itself is always merged
+// so a restore never erases the history of what it replaced.
+export const restoreStores = async (snapshot: StoreSnapshot, mode: "merge" | "replace"): Promise<void> => {
   try {
+    const storeNames = STORE_NAMES.filter((storeName) => snapshot[storeName] !== undefined)
+    if (storeNames.length === 0) return
+
+    const validSnapshot = Object.fromEntries(
+      storeNames.map((storeName) => [
+        storeName,
+        (snapshot[storeName] as unknown[]).map((record) => STORE_SCHEMAS[storeName].parse(record)),
+      ]),
+    )
+
     const db = await openDB()
-    const transaction = db.transaction(BUDGET_GOALS_STORE, "readwrite")
-    const store = transaction.objectStore(BUDGET_GOALS_STORE)
+    const transaction = db.transaction(withChangeLog(...storeNames), "readwrite")
 
-    store.delete(id)
+    storeNames.forEach((storeName) => {
+      const store = transaction.objectStore(storeName)
+      const records = validSnapshot[storeName]
+      const clear = mode === "replace" && storeName !== CHANGE_LOG_STORE
 
-    return new Promise((resolve, reject) => {
-      transaction.oncomplete = () => {
-        db.close()
-        resolve()
+      if (!isLoggedStore(storeName)) {
+        if (clear) store.clear()
+        records.forEach((record) => store.put(record))
+        return
       }
 
-      transaction.onerror = () => {
-        console.error("Transaction error:", transaction.error)
-        reject(transaction.error)
+      // Read the current records first, so each write is logged against the one it replaces
+      const restored = records as { id: string }[]
+      const request = store.getAll()
+      request.onsuccess = () => {
+        const existing = new Map<string, unknown>(request.result.map((record: { id: string }) => [record.id, record]))
+        const restoredIds = new Set(restored.map((record) => record.id))
+
+        if (clear) {
+          store.clear()
+          existing.forEach((record, id) => {
+            if (!restoredIds.has(id)) logChange(transaction, storeName, id, record, undefined)
+          })
+        }
+
+        restored.forEach((record) => {
+          store.put(record)
+          logChange(transaction, storeName, record.id, existing.get(record.id), record, "restore")
+        })
       }
     })
+
+    return completeTransaction(db, transaction)
   } catch (error) {
-    console.error(`Error deleting budget goal:`, error)
+    console.error("Error restoring stores:", error)
     throw error
   }
 }
@@ -0,0 +1,222 @@
+import { describe, expect, it } from "vitest"
+import {
+  DUPLICATE_NOTE_WINDOW_MS,
+  DUPLICATE_TIME_WINDOW_MS,
+  findDuplicateGroups,
+  getDuplicateReason,
+  getGroupPairKeys,
+  getNoteSimilarity,
+  getPairKey,
+  mergeDuplicates,
+} from "./duplicate-detector"
+import type { Expense } from "./models"
+
+const NOON = new Date(2026, 9, 19, 12, 0).getTime()
+const MINUTE_MS = 60 * 1000
+
+const expense = (id: string, minutes: number, fields: Partial<Expense> = {}): Expense => ({
+  id,
+  type: "expense",
+  amount: 25,
+  timestamp: NOON + minutes * MINUTE_MS,
+  category: "food",
+  ...fields,
+})
+
+const transfer = (id: string, minutes: number, fields: Partial<Expense> = {}): Expense =>
+  expense(id, minutes, {
+    type: "transfer",
+    category: "transfer",
+    accountId: "checking",
+    toAccountId: "savings",
+    ...fields,
+  })
+
+const groupIds = (groups: { expenses: Expense[] }[]) => groups.map((group) => group.expenses.map(({ id }) => id))
+
+describe("getNoteSimilarity", () => {
+  it("ignores case, spacing and punctuation", () => {
+    expect(getNoteSimilarity("Coffee, Blue Bottle", "coffee blue-bottle")).toBe(1)
+  })
+
+  it("is 0 when either note is missing", () => {
+    expect(getNoteSimilarity("coffee", undefined)).toBe(0)
+    expect(getNoteSimilarity("", "")).toBe(0)
+    expect(getNoteSimilarity("!!", "??")).toBe(0)
+  })
+
+  it("is 0 for single letters that differ", () => {
+    expect(getNoteSimilarity("a", "b")).toBe(0)
+  })
+
+  it("scores shared letter pairs", () => {
+    // 4 of 5 letter pairs shared on each side
+    expect(getNoteSimilarity("abcdef", "abcdeg")).toBe(0.8)
+    // 3 of 4
+    expect(getNoteSimilarity("abcde", "abcdf")).toBe(0.75)
+  })
+})
+
+describe("getDuplicateReason", () => {
+  it("matches the same amount and category within the time window", () => {
+    expect(getDuplicateReason(expense("a", 0), expense("b", 10))).toBe("time")
+    expect(getDuplicateReason(expense("b", 10), expense("a", 0))).toBe("time")
+  })
+
+  it("doesn't match by time just past the window", () => {
+    const later = expense("b", 0, { timestamp: NOON + DUPLICATE_TIME_WINDOW_MS + 1 })
+
+    expect(getDuplicateReason(expense("a", 0), later)).toBeNull()
+  })
+
+  it("doesn't match by time across categories", () => {
+    expect(getDuplicateReason(expense("a", 0), expense("b", 1, { category: "transport" }))).toBeNull()
+  })
+
+  it("matches a similar note within a day", () => {
+    const a = expense("a", 0, { note: "Amazon order 1234" })
+    const b = expense("b", 0, {
+      timestamp: NOON + DUPLICATE_NOTE_WINDOW_MS,
+      note: "AMAZON ORDER #1234",
+      category: "shopping",
+    })
+
+    expect(getDuplicateReason(a, b)).toBe("note")
+  })
+
+  it("doesn't match a note just under the similarity threshold", () => {
+    const a = expense("a", 0, { note: "abcde" })
+    const b = expense("b", 2 * 60, { note: "abcdf" })
+
+    expect(getDuplicateReason(a, b)).toBeNull()
+    expect(getDuplicateReason(a, { ...b, note: "abcde" })).toBe("note")
+  })
+
+  it("doesn't match the same note on different days", () => {
+    const a = expense("a", 0, { note: "Gym membership" })
+    const b = expense("b", 0, { timestamp: NOON + DUPLICATE_NOTE_WINDOW_MS + 1, note: "Gym membership" })
+
+    expect(getDuplicateReason(a, b)).toBeNull()
+  })
+
+  it("matches across midnight when close enough", () => {
+    const a = expense("a", 0, { timestamp: new Date(2026, 9, 19, 23, 58).getTime() })
+    const b = expense("b", 0, { timestamp: new Date(2026, 9, 20, 0, 3).getTime() })
+
+    expect(getDuplicateReason(a, b)).toBe("time")
+  })
+
+  it("compares amounts to the cent", () => {
+    expect(getDuplicateReason(expense("a", 0, { amount: 0.1 + 0.2 }), expense("b", 1, { amount: 0.3 }))).toBe("time")
+    expect(getDuplicateReason(expense("a", 0, { amount: 25 }), expense("b", 1, { amount: 25.01 }))).toBeNull()
+  })
+
+  it("never matches a transaction with itself or one of another type", () => {
+    const a = expense("a", 0)
+
+    expect(getDuplicateReason(a, { ...a })).toBeNull()
+    expect(getDuplicateReason(a, expense("b", 1, { type: "income" }))).toBeNull()
+  })
+
+  it("matches transfers only with transfers", () => {
+    expect(getDuplicateReason(transfer("a", 0), transfer("b", 2))).toBe("time")
+    expect(getDuplicateReason(transfer("a", 0), expense("b", 2, { category: "transfer" }))).toBeNull()
+  })
+})
+
+describe("findDuplicateGroups", () => {
+  it("joins a chain of matches into one group", () => {
+    // a~b and b~c by time, although a and c are too far apart to match directly
+    const expenses = [expense("c", 16), expense("a", 0), expense("b", 8)]
+
+    expect(getDuplicateReason(expenses[1], expenses[0])).toBeNull()
+    expect(findDuplicateGroups(expenses)).toEqual([{ id: "a,b,c", expenses: [expenses[1], expenses[2], expenses[0]] }])
+  })
+
+  it("joins matches of different kinds", () => {
+    // a~b by time, b~c by note
+    const expenses = [
+      expense("a", 0, { note: "lunch" }),
+      expense("b", 5, { note: "Sandwich shop" }),
+      expense("c", 5 * 60, { note: "sandwich shop", category: "shopping" }),
+    ]
+
+    expect(groupIds(findDuplicateGroups(expenses))).toEqual([["a", "b", "c"]])
+  })
+
+  it("keeps dismissed pairs apart", () => {
+    const expenses = [expense("a", 0), expense("b", 5)]
+
+    expect(findDuplicateGroups(expenses, new Set([getPairKey("b", "a")]))).toEqual([])
+  })
+
+  it("still joins a dismissed pair through a third match", () => {
+    const expenses = [expense("a", 0), expense("b", 5), expense("c", 9)]
+
+    expect(groupIds(findDuplicateGroups(expenses, new Set([getPairKey("a", "b")])))).toEqual([["a", "b", "c"]])
+  })
+
+  it("leaves out transactions with different amounts or days", () => {
+    const expenses = [
+      expense("a", 0, { note: "Rent" }),
+      expense("b", 1, { note: "Rent", amount: 26 }),
+      expense("c", 25 * 60, { note: "Rent" }),
+    ]
+
+    expect(findDuplicateGroups(expenses)).toEqual([])
+  })
+
+  it("groups transfers apart from expenses", () => {
+    const expenses = [transfer("t1", 0), expense("e1", 1, { category: "transfer" }), transfer("t2", 2)]
+
+    expect(groupIds(findDuplicateGroups(expenses))).toEqual([["t1", "t2"]])
+  })
+
+  it("lists the newest group first", () => {
+    const expenses = [
+      expense("a", 0),
+      expense("b", 3),
+      expense("c", 2 * 60, { amount: 9 }),
+      expense("d", 2 * 60 + 1, { amount: 9 }),
+    ]
+
+    expect(groupIds(findDuplicateGroups(expenses))).toEqual([
+      ["c", "d"],
+      ["a", "b"],
+    ])
+  })
+})
+
+describe("getGroupPairKeys", () => {
+  it("lists every pair in the group once", () => {
+    const group = { id: "a,b,c", expenses: [expense("b", 0), expense("a", 1), expense("c", 2)] }
+
+    expect(getGroupPairKeys(group)).toEqual(["a:b", "b:c", "a:c"])
+  })
+})
+
+describe("mergeDuplicates", () => {
+  it("fills in what only the duplicates had", () => {
+    const kept = expense("a", 0, { tags: ["work"] })
+    const duplicates = [
+      kept,
+      expense("b", 1, { note: "Team lunch", tags: ["work", "client"] }),
+      expense("c", 2, { accountId: "card" }),
+    ]
+
+    expect(mergeDuplicates(kept, duplicates)).toEqual({
+      ...kept,
+      note: "Team lunch",
+      accountId: "card",
+      tags: ["work", "client"],
+    })
+  })
+
+  it("keeps the kept transaction's own details", () => {
+    const kept = expense("a", 0, { note: "Lunch", accountId: "cash" })
+
+    const merged = mergeDuplicates(kept, [expense("b", 1, { note: "Other", accountId: "card" })])
+
+    expect(merged).toMatchObject({ note: "Lunch", accountId: "cash", tags: undefined })
+  })
+})
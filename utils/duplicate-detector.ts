@@ -0,0 +1,138 @@
+import type { Expense } from "./models"
+
+// Suspected duplicate transactions: the same amount entered twice in quick succession (a double tap),
+// or the same amount with a near-identical note on the same day (overlapping imports)
+
+const MINUTE_MS = 60 * 1000
+
+// Same amount and category this close together counts as a duplicate
+export const DUPLICATE_TIME_WINDOW_MS = 10 * MINUTE_MS
+
+// Same amount and a matching note this close together counts as a duplicate
+export const DUPLICATE_NOTE_WINDOW_MS = 24 * 60 * MINUTE_MS
+
+// How similar two notes must be (0 to 1) to count as the same
+const NOTE_SIMILARITY_THRESHOLD = 0.8
+
+// Setting holding the pairs of transactions marked as not duplicates
+export const DISMISSED_DUPLICATES_SETTING = "dismissedDuplicates"
+
+export type DuplicateReason = "time" | "note"
+
+export interface DuplicateGroup {
+  id: string // Ids of the transactions in the group, so it keeps its identity across scans
+  expenses: Expense[] // Oldest first
+}
+
+// Lowercase letters and digits only, so punctuation and spacing don't matter
+const normalizeNote = (note: string | undefined): string => (note ?? "").toLowerCase().replace(/[^a-z0-9\u00c0-\uffff]+/g, "")
+
+const getBigrams = (text: string): string[] => {
+  return Array.from({ length: Math.max(text.length - 1, 0) }, (_, i) => text.slice(i, i + 2))
+}
+
+// Similarity of two notes from the letter pairs they share (Dice coefficient), 0 when either is empty
+export const getNoteSimilarity = (a: string | undefined, b: string | undefined): number => {
+  const left = normalizeNote(a)
+  const right = normalizeNote(b)
+  if (!left || !right) return 0
+  if (left === right) return 1
+
+  const leftBigrams = getBigrams(left)
+  const rightBigrams = getBigrams(right)
+  if (leftBigrams.length === 0 || rightBigrams.length === 0) return 0
+
+  const remaining = new Map<string, number>()
+  rightBigrams.forEach((bigram) => remaining.set(bigram, (remaining.get(bigram) ?? 0) + 1))
+
+  let shared = 0
+  leftBigrams.forEach((bigram) => {
+    const count = remaining.get(bigram) ?? 0
+    if (count > 0) {
+      shared++
+      remaining.set(bigram, count - 1)
+    }
+  })
+
+  return (2 * shared) / (leftBigrams.length + rightBigrams.length)
+}
+
+// Why two transactions look like the same one recorded twice, or null if they don't
+export const getDuplicateReason = (a: Expense, b: Expense): DuplicateReason | null => {
+  if (a.id === b.id || a.type !== b.type || Math.round(a.amount * 100) !== Math.round(b.amount * 100)) return null
+
+  const gap = Math.abs(a.timestamp - b.timestamp)
+  if (a.category === b.category && gap <= DUPLICATE_TIME_WINDOW_MS) return "time"
+  if (gap <= DUPLICATE_NOTE_WINDOW_MS && getNoteSimilarity(a.note, b.note) >= NOTE_SIMILARITY_THRESHOLD) return "note"
+
+  return null
+}
+
+// Existing transactions a new one looks like a duplicate of, closest in time first
+export const findDuplicatesOf = (expense: Expense, expenses: Expense[]): Expense[] => {
+  return expenses
+    .filter((other) => getDuplicateReason(expense, other) !== null)
+    .sort((a, b) => Math.abs(a.timestamp - expense.timestamp) - Math.abs(b.timestamp - expense.timestamp))
+}
+
+// Key of a pair of transactions, the same whichever way round they are given
+export const getPairKey = (a: string, b: string): string => (a < b ? `${a}:${b}` : `${b}:${a}`)
+
+// Every pair within a group, for marking the whole group as not duplicates
+export const getGroupPairKeys = (group: DuplicateGroup): string[] => {
+  return group.expenses.flatMap((a, i) => group.expenses.slice(i + 1).map((b) => getPairKey(a.id, b.id)))
+}
+
+// Read the dismissed pairs setting, ignoring anything malformed
+export const parseDismissedPairs = (value: unknown): Set<string> => {
+  return new Set(Array.isArray(value) ? value.filter((key): key is string => typeof key === "string") : [])
+}
+
+// Group suspected duplicates together, newest group first
+// Pairs marked as not duplicates are left apart; a transaction matching two others joins them into one group
+export const findDuplicateGroups = (expenses: Expense[], dismissed: Set<string> = new Set()): DuplicateGroup[] => {
+  const sorted = [...expenses].sort((a, b) => a.timestamp - b.timestamp)
+  const parents = new Map<string, string>()
+
+  const findRoot = (id: string): string => {
+    let root = id
+    while (parents.has(root) && parents.get(root) !== root) root = parents.get(root)!
+    parents.set(id, root)
+    return root
+  }
+
+  // Only transactions within the widest window of each other can match
+  sorted.forEach((expense, i) => {
+    for (let j = i + 1; j < sorted.length && sorted[j].timestamp - expense.timestamp <= DUPLICATE_NOTE_WINDOW_MS; j++) {
+      const other = sorted[j]
+      if (dismissed.has(getPairKey(expense.id, other.id)) || !getDuplicateReason(expense, other)) continue
+
+      parents.set(findRoot(other.id), findRoot(expense.id))
+    }
+  })
+
+  const groups = new Map<string, Expense[]>()
+  sorted.forEach((expense) => {
+    if (!parents.has(expense.id)) return
+    const root = findRoot(expense.id)
+    groups.set(root, [...(groups.get(root) ?? []), expense])
+  })
+
+  return Array.from(groups.values())
+    .filter((group) => group.length > 1)
+    .map((group) => ({ id: group.map((expense) => expense.id).join(","), expenses: group }))
+    .sort((a, b) => b.expenses[b.expenses.length - 1].timestamp - a.expenses[a.expenses.length - 1].timestamp)
+}
+
+// The kept transaction with details only the duplicates had: a note, an account, and all their tags
+export const mergeDuplicates = (kept: Expense, duplicates: Expense[]): Expense => {
+  const others = duplicates.filter((expense) => expense.id !== kept.id)
+  const tags = Array.from(new Set([kept, ...others].flatMap((expense) => expense.tags ?? [])))
+
+  return {
+    ...kept,
+    note: kept.note || others.find((expense) => expense.note)?.note,
+    accountId: kept.accountId ?? others.find((expense) => expense.accountId)?.accountId,
+    tags: tags.length > 0 ? tags : undefined,
+  }
+}
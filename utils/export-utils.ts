@@ -3,18 +3,20 @@
 import { jsPDF } from "jspdf"
 import autoTable from "jspdf-autotable"
 import { formatDate } from "./date-utils"
+import type { Expense } from "./models"
+import { formatTag, formatTags, getTagTotals } from "./tags"
 
-interface Expense {
-  timestamp: number
-  category: string
-  amount: number
-  note?: string
+interface PeriodIncomeTotals {
+  daily: number
+  weekly: number
+  monthly: number
 }
 
 interface CategoryDataItem {
   name: string
   value: number
   percentage: number
+  isSubcategory?: boolean // Listed under its parent, whose row already includes it
 }
 
 /**
@@ -23,7 +25,7 @@ interface CategoryDataItem {
 export function formatExpensesAsCSV(expenses: Expense[], currentCurrency: string): string {
   const today = new Date().toISOString().split('T')[0]
   let csv = `Spenders Expense Report - ${today}\n`
-  csv += "Date,Time,Category,Amount,Note\n"
+  csv += "Date,Time,Type,Category,Amount,Note,Tags\n"
 
   // Sort expenses by date (newest first)
   const sortedExpenses = [...expenses].sort((a, b) => b.timestamp - a.timestamp)
@@ -33,14 +35,34 @@ export function formatExpensesAsCSV(expenses: Expense[], currentCurrency: string
     // Use the same date/time formatting as in the PDF export
     const date = formatDate(expense.timestamp)
     const time = new Date(expense.timestamp).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })
+    const type = expense.type === "income" ? "Income" : expense.type === "transfer" ? "Transfer" : "Expense"
     const category = expense.category || "Other"
     const amount = formatAmount(expense.amount, currentCurrency)
     const note = expense.note || ""
+    const tags = formatTags(expense.tags)
 
     // Escape notes that might contain commas
     const escapedNote = note.includes(",") ? `"${note}"` : note
 
-    csv += `${date},${time},${category},${amount},${escapedNote}\n`
+    csv += `${date},${time},${type},${category},${amount},${escapedNote},${tags}\n`
+  })
+
+  return csv
+}
+
+/**
+ * Format the per-tag spending report as CSV
+ */
+export function formatTagReportAsCSV(expenses: Expense[], currentCurrency: string): string {
+  const today = new Date().toISOString().split('T')[0]
+  let csv = `Spenders Tag Report - ${today}\n`
+  csv += "Tag,Spent,Income,Transactions\n"
+
+  getTagTotals(expenses).forEach((total) => {
+    const spent = formatAmount(total.spent, currentCurrency)
+    const income = formatAmount(total.income, currentCurrency)
+
+    csv += `${formatTag(total.tag)},${spent},${income},${total.count}\n`
   })
 
   return csv
@@ -66,6 +88,21 @@ export function downloadCSV(data: string, filename: string): void {
   document.body.removeChild(link)
 }
 
+// Red, green and blue, as jsPDF and jspdf-autotable take colors
+type RGBColor = [number, number, number]
+
+// jspdf-autotable records where the last table ended on the document, but doesn't add it to jsPDF's type
+interface DocWithAutoTable extends jsPDF {
+  lastAutoTable: { finalY: number }
+}
+
+/**
+ * Get the position just below the last table drawn on a document
+ */
+function getLastTableEnd(doc: jsPDF): number {
+  return (doc as DocWithAutoTable).lastAutoTable.finalY
+}
+
 /**
  * Generate PDF report of expenses
  */
@@ -75,6 +112,7 @@ export function generateExpensesPDF(
   dailyTotal: number,
   weeklyTotal: number,
   monthlyTotal: number,
+  incomeTotals: PeriodIncomeTotals,
   categoryData: CategoryDataItem[],
   currentTheme: any,
 ): void {
@@ -88,7 +126,7 @@ export function generateExpensesPDF(
   const pageHeight = doc.internal.pageSize.getHeight()
   
   // Get theme colors based on current theme
-  const primaryColor = getThemeColor(currentTheme.text.primary) || [20, 120, 80]
+  const primaryColor: RGBColor = getThemeColor(currentTheme.text.primary) || [20, 120, 80]
   
   // Document margins
   const margin = 15
@@ -132,16 +170,23 @@ export function generateExpensesPDF(
   // Add space before table
   yPosition += 10
   
-  // Create summary table
+  // Create summary table with spending, income and net cash flow per period
+  const summaryRows = [
+    ["Daily", dailyTotal, incomeTotals.daily],
+    ["Weekly", weeklyTotal, incomeTotals.weekly],
+    ["Monthly", monthlyTotal, incomeTotals.monthly],
+  ] as const
+
   autoTable(doc, {
     startY: yPosition,
     margin: { left: margin, right: margin },
-    head: [["Period", "Total Amount"]],
-    body: [
-      ["Daily", formatAmount(dailyTotal, currentCurrency)],
-      ["Weekly", formatAmount(weeklyTotal, currentCurrency)],
-      ["Monthly", formatAmount(monthlyTotal, currentCurrency)],
-    ],
+    head: [["Period", "Spent", "Income", "Net Cash Flow"]],
+    body: summaryRows.map(([period, spent, income]) => [
+      period,
+      formatAmount(spent, currentCurrency),
+      formatAmount(income, currentCurrency),
+      formatSignedAmount(income - spent, currentCurrency),
+    ]),
     theme: "grid",
     headStyles: { 
       fillColor: primaryColor, 
@@ -157,14 +202,16 @@ export function generateExpensesPDF(
     },
     columnStyles: {
       0: { fontStyle: 'bold', halign: "left", cellWidth: 40 },
-      1: { halign: "right", cellWidth: 60 },
+      1: { halign: "right", cellWidth: 45 },
+      2: { halign: "right", cellWidth: 45 },
+      3: { halign: "right", cellWidth: 50 },
     },
   })
   
   // ===== CATEGORY SECTION =====
   
   // Calculate position for next section (properly spaced)
-  yPosition = doc.lastAutoTable.finalY + 20
+  yPosition = getLastTableEnd(doc) + 20
   
   // Add category section heading
   doc.setFontSize(16)
@@ -180,7 +227,7 @@ export function generateExpensesPDF(
 
   // Prepare category data
   const categoryTableData = categoryData.map((category) => [
-    category.name,
+    category.isSubcategory ? `    ${category.name}` : category.name,
     formatAmount(category.value, currentCurrency),
     `${category.percentage.toFixed(1)}%`,
   ])
@@ -214,12 +261,90 @@ export function generateExpensesPDF(
     alternateRowStyles: {
       fillColor: [248, 248, 248]
     },
+    didParseCell: (data) => {
+      // Sub-category rows are indented and not bold
+      if (data.section === "body" && categoryData[data.row.index]?.isSubcategory) {
+        data.cell.styles.fontStyle = "normal"
+        data.cell.styles.textColor = [100, 100, 100]
+      }
+    },
   })
   
+  // ===== TAGS SECTION =====
+
+  const tagTotals = getTagTotals(expenses)
+
+  if (tagTotals.length > 0) {
+    yPosition = getLastTableEnd(doc) + 20
+
+    // Check if we need a page break
+    if (yPosition > pageHeight - 80) {
+      doc.addPage()
+
+      // Add header to new page
+      doc.setFillColor(primaryColor[0], primaryColor[1], primaryColor[2])
+      doc.rect(0, 0, pageWidth, 20, 'F')
+
+      doc.setFontSize(16)
+      doc.setTextColor(255, 255, 255)
+      doc.text("Expense Report", margin, 15)
+      doc.text("Spenders", pageWidth - margin, 15, { align: "right" })
+
+      yPosition = 30
+    }
+
+    // Add tags section heading
+    doc.setFontSize(16)
+    doc.setTextColor(primaryColor[0], primaryColor[1], primaryColor[2])
+    doc.text("Tag Breakdown", margin, yPosition)
+
+    // Add horizontal divider
+    doc.setDrawColor(220, 220, 220)
+    doc.line(margin, yPosition + 3, pageWidth - margin, yPosition + 3)
+
+    // Add space before table
+    yPosition += 10
+
+    autoTable(doc, {
+      startY: yPosition,
+      margin: { left: margin, right: margin },
+      head: [["Tag", "Spent", "Income", "Transactions"]],
+      body: tagTotals.map((total) => [
+        formatTag(total.tag),
+        formatAmount(total.spent, currentCurrency),
+        formatAmount(total.income, currentCurrency),
+        total.count.toString(),
+      ]),
+      theme: "grid",
+      headStyles: {
+        fillColor: primaryColor,
+        textColor: [255, 255, 255],
+        fontStyle: 'bold',
+        fontSize: 12,
+        cellPadding: 7,
+      },
+      styles: {
+        fontSize: 11,
+        cellPadding: 5,
+        lineColor: [220, 220, 220],
+        overflow: 'ellipsize'
+      },
+      columnStyles: {
+        0: { fontStyle: 'bold', halign: "left", cellWidth: 55 },
+        1: { halign: "right", cellWidth: 45 },
+        2: { halign: "right", cellWidth: 45 },
+        3: { halign: "right", cellWidth: "auto" },
+      },
+      alternateRowStyles: {
+        fillColor: [248, 248, 248]
+      },
+    })
+  }
+
   // ===== TRANSACTIONS SECTION =====
   
   // Calculate position for next section (properly spaced)
-  yPosition = doc.lastAutoTable.finalY + 20
+  yPosition = getLastTableEnd(doc) + 20
   
   // Check if we need a page break
   if (yPosition > pageHeight - 100) {
@@ -257,7 +382,9 @@ export function generateExpensesPDF(
       formatDate(expense.timestamp),
       new Date(expense.timestamp).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" }),
       expense.category || "Other",
-      formatAmount(expense.amount, currentCurrency),
+      expense.type === "income"
+        ? formatSignedAmount(expense.amount, currentCurrency)
+        : formatAmount(expense.amount, currentCurrency),
       (expense.note || "").substring(0, 25) + ((expense.note || "").length > 25 ? "..." : ""),
     ])
 
@@ -341,6 +468,13 @@ function formatAmount(amount: number, currencyCode: string): string {
   return `${getCurrencySymbol(currencyCode)} ${amount.toFixed(2)}`;
 }
 
+/**
+ * Format amount with an explicit sign, used for income and net cash flow
+ */
+function formatSignedAmount(amount: number, currencyCode: string): string {
+  return `${amount < 0 ? "-" : "+"}${formatAmount(Math.abs(amount), currencyCode)}`
+}
+
 /**
  * Get the proper currency symbol for display
  */
@@ -366,7 +500,7 @@ function getCurrencySymbol(currencyCode: string): string {
 /**
  * Get theme color from CSS classes
  */
-function getThemeColor(colorClass: string): number[] | null {
+function getThemeColor(colorClass: string): RGBColor | null {
   if (colorClass.includes('green')) return [20, 120, 80]
   if (colorClass.includes('blue')) return [59, 130, 246]
   if (colorClass.includes('purple')) return [147, 51, 234]
@@ -0,0 +1,164 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import {
+  type ColumnMapping,
+  type ImportOptions,
+  buildImportRows,
+  parseAmount,
+  parseCSV,
+  parseDate,
+  parseTime,
+} from "./import-utils"
+import { BUILT_IN_CATEGORIES } from "./categories"
+import { formatDate, toTimeInputValue } from "./date-utils"
+import type { Expense } from "./models"
+
+describe("parseAmount", () => {
+  it("reads plain and negative numbers", () => {
+    expect(parseAmount("12")).toBe(12)
+    expect(parseAmount("12.50")).toBe(12.5)
+    expect(parseAmount("-12")).toBe(-12)
+  })
+
+  it("drops a leading currency symbol or code", () => {
+    expect(parseAmount("$ 1,234.50")).toBe(1234.5)
+    expect(parseAmount("€12,50")).toBe(12.5)
+    expect(parseAmount("Rs. 250")).toBe(250)
+  })
+
+  it("reads a decimal comma with dots grouping thousands", () => {
+    expect(parseAmount("1.234,50")).toBe(1234.5)
+    expect(parseAmount("12,5")).toBe(12.5)
+  })
+
+  it("reads a comma before three digits as grouping", () => {
+    expect(parseAmount("1,000")).toBe(1000)
+    expect(parseAmount("1,234,567.89")).toBe(1234567.89)
+  })
+
+  it("reads accounting style negatives", () => {
+    expect(parseAmount("(12.00)")).toBe(-12)
+    expect(parseAmount("($1,200.00)")).toBe(-1200)
+  })
+
+  it("returns null for anything that isn't a number", () => {
+    expect(parseAmount("")).toBeNull()
+    expect(parseAmount("n/a")).toBeNull()
+  })
+})
+
+describe("parseTime", () => {
+  it("reads 24 hour and 12 hour times", () => {
+    expect(parseTime("14:30")).toBe("14:30")
+    expect(parseTime("14:30:15")).toBe("14:30")
+    expect(parseTime("2:30 PM")).toBe("14:30")
+    expect(parseTime("12:05 am")).toBe("00:05")
+    expect(parseTime("12:05 p.m.")).toBe("12:05")
+  })
+
+  it("rejects impossible times and text without one", () => {
+    expect(parseTime("25:00")).toBeNull()
+    expect(parseTime("9.30")).toBeNull()
+    expect(parseTime("")).toBeNull()
+  })
+})
+
+describe("parseDate", () => {
+  const day = (timestamp: number | null) => (timestamp === null ? null : formatDate(timestamp))
+
+  it("reads year-first dates whatever the format", () => {
+    expect(day(parseDate("2025-01-31", "mdy"))).toBe("2025-01-31")
+    expect(day(parseDate("2025/1/5", "dmy"))).toBe("2025-01-05")
+  })
+
+  it("reads day and month in the chosen order", () => {
+    expect(day(parseDate("03/04/2025", "dmy"))).toBe("2025-04-03")
+    expect(day(parseDate("03/04/2025", "mdy"))).toBe("2025-03-04")
+    expect(day(parseDate("31.01.25", "dmy"))).toBe("2025-01-31")
+  })
+
+  it("rejects dates that don't exist", () => {
+    expect(parseDate("31/02/2025", "dmy")).toBeNull()
+    expect(parseDate("13/31/2025", "dmy")).toBeNull()
+    expect(parseDate("not a date", "dmy")).toBeNull()
+  })
+
+  it("uses the time given, then one after the date, then noon", () => {
+    expect(toTimeInputValue(parseDate("2025-01-31", "dmy", "08:15")!)).toBe("08:15")
+    expect(toTimeInputValue(parseDate("2025-01-31 18:45", "dmy")!)).toBe("18:45")
+    expect(toTimeInputValue(parseDate("2025-01-31", "dmy")!)).toBe("12:00")
+  })
+})
+
+describe("buildImportRows", () => {
+  const mapping: ColumnMapping = { date: 0, time: null, amount: 1, type: null, category: 2, note: 3, tags: null }
+  const options: ImportOptions = { dateFormat: "dmy", positiveIsIncome: false }
+
+  const build = (csv: string, existing: Expense[] = [], overrides: Partial<ImportOptions> = {}) =>
+    buildImportRows(parseCSV(csv), mapping, { ...options, ...overrides }, BUILT_IN_CATEGORIES, existing)
+
+  beforeEach(() => {
+    // 08:00 on 19 October 2026, before the noon a row without a time is placed at
+    vi.useFakeTimers({ now: new Date(2026, 9, 19, 8, 0) })
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it("turns rows into transactions", () => {
+    const [row] = build("Date,Amount,Category,Note\n18/10/2026,12.50,food,Lunch")
+
+    expect(row.errors).toEqual([])
+    expect(row.expense).toMatchObject({ type: "expense", amount: 12.5, category: "food", note: "Lunch" })
+    expect(row.line).toBe(2)
+  })
+
+  it("accepts a row dated today without a time, even before noon", () => {
+    const [row] = build("Date,Amount,Category,Note\n19/10/2026,4,food,Coffee")
+
+    expect(row.errors).toEqual([])
+  })
+
+  it("rejects a later day, or a time later today", () => {
+    const [tomorrow, later] = build("Date,Amount,Category,Note\n20/10/2026,4,food,\n19/10/2026 09:30,4,food,")
+
+    expect(tomorrow.errors).toEqual(["Date is in the future"])
+    expect(later.errors).toEqual(["Date is in the future"])
+  })
+
+  it("reports invalid amounts and dates", () => {
+    const [amount, date] = build("Date,Amount,Category,Note\n18/10/2026,abc,food,\n31/02/2026,4,food,")
+
+    expect(amount.errors).toEqual(['Invalid amount "abc"'])
+    expect(date.errors).toEqual(['Invalid date "31/02/2026"'])
+  })
+
+  it("treats positive amounts as income when asked", () => {
+    const [income, spending] = build("Date,Amount,Category,Note\n18/10/2026,2000,,Pay\n18/10/2026,-40,,Shop", [], {
+      positiveIsIncome: true,
+    })
+
+    expect(income.expense).toMatchObject({ type: "income", amount: 2000 })
+    expect(spending.expense).toMatchObject({ type: "expense", amount: 40 })
+  })
+
+  it("falls back to a category of the right kind with a warning", () => {
+    const [row] = build("Date,Amount,Category,Note\n18/10/2026,4,Snacks,")
+
+    expect(row.expense?.category).toBe("food")
+    expect(row.warnings).toEqual(['Unknown category "Snacks", using Food & Dining'])
+  })
+
+  it("matches each existing transaction to one imported row only", () => {
+    const existing: Expense = {
+      id: "a",
+      type: "expense",
+      amount: 4,
+      timestamp: new Date(2026, 9, 18, 9, 0).getTime(),
+      category: "food",
+    }
+    const rows = build("Date,Amount,Category,Note\n18/10/2026,4,food,\n18/10/2026,4,food,", [existing])
+
+    expect(rows.map((row) => row.duplicate)).toEqual([true, false])
+  })
+})
@@ -0,0 +1,356 @@
+import { combineDateAndTime, formatDate, getEndOfDay } from "./date-utils"
+import type { Category, CategoryKind, CategoryRule, Expense } from "./models"
+import { getCategoryKind } from "./categories"
+import { parseTags } from "./tags"
+import { applyRules } from "./rules-engine"
+import { normalizeSeparators } from "./amount-expression"
+
+// Transaction fields a CSV column can be mapped to
+export type ImportField = "date" | "time" | "amount" | "type" | "category" | "note" | "tags"
+
+// Column index for each field, or null when the file has no such column
+export type ColumnMapping = Record<ImportField, number | null>
+
+// Order of the day and month in numeric dates like 03/04/2025 (year-first dates are always recognised)
+export type DateFormat = "dmy" | "mdy"
+
+export interface ImportOptions {
+  dateFormat: DateFormat
+  // Bank statements list money coming in as positive and money going out as negative
+  positiveIsIncome: boolean
+}
+
+export interface ImportRow {
+  line: number // Line number in the file, for error messages
+  expense: Expense | null // null when the row has errors
+  errors: string[]
+  warnings: string[]
+  duplicate: boolean
+}
+
+export interface ParsedCSV {
+  headers: string[]
+  rows: string[][]
+  headerLine: number
+}
+
+// Header names recognised for each field when guessing the mapping
+const FIELD_PATTERNS: Record<ImportField, RegExp> = {
+  date: /date|day|posted|booking/i,
+  time: /time/i,
+  amount: /amount|sum|value|debit|price|total/i,
+  type: /^type$|kind|direction/i,
+  category: /category|group/i,
+  note: /note|description|memo|details|payee|narrative|reference/i,
+  tags: /tag|label/i,
+}
+
+/**
+ * Pick the delimiter used by a CSV file (comma, semicolon or tab)
+ */
+export function detectDelimiter(text: string): string {
+  const firstLines = text.split(/\r?\n/).slice(0, 5).join("\n")
+  const candidates = [",", ";", "\t"]
+  const counts = candidates.map((delimiter) => firstLines.split(delimiter).length)
+  return candidates[counts.indexOf(Math.max(...counts))]
+}
+
+/**
+ * Split CSV text into rows of cells, handling quoted cells with commas, quotes and newlines
+ */
+export function parseCSVRows(text: string, delimiter = detectDelimiter(text)): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ""
+  let inQuotes = false
+
+  // Strip a byte order mark left by spreadsheet apps
+  const input = text.replace(/^\uFEFF/, "")
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === delimiter) {
+      row.push(cell.trim())
+      cell = ""
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++
+      row.push(cell.trim())
+      rows.push(row)
+      row = []
+      cell = ""
+    } else {
+      cell += char
+    }
+  }
+
+  if (cell || row.length > 0) {
+    row.push(cell.trim())
+    rows.push(row)
+  }
+
+  // Drop blank lines
+  return rows.filter((cells) => cells.some((value) => value !== ""))
+}
+
+/**
+ * Parse a CSV file into a header row and data rows
+ * Title lines above the header (like the one in our own CSV export) are skipped
+ */
+export function parseCSV(text: string): ParsedCSV {
+  const rows = parseCSVRows(text)
+  const headerIndex = Math.max(0, rows.findIndex((cells) => cells.length > 1))
+
+  return {
+    headers: rows[headerIndex] ?? [],
+    rows: rows.slice(headerIndex + 1),
+    headerLine: headerIndex + 1,
+  }
+}
+
+/**
+ * Guess which column holds each field from the header names
+ */
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {
+    date: null,
+    time: null,
+    amount: null,
+    type: null,
+    category: null,
+    note: null,
+    tags: null,
+  }
+  const used = new Set<number>()
+
+  // Match the more specific fields first so "Date" isn't taken by "time" or "Type" by "note"
+  const fields: ImportField[] = ["amount", "time", "type", "category", "tags", "date", "note"]
+
+  fields.forEach((field) => {
+    const index = headers.findIndex((header, i) => !used.has(i) && FIELD_PATTERNS[field].test(header))
+    if (index !== -1) {
+      mapping[field] = index
+      used.add(index)
+    }
+  })
+
+  return mapping
+}
+
+/**
+ * Parse an amount like "$ 1,234.50", "1.234,50", "-12" or "(12.00)"
+ * Returns null when the value isn't a number
+ */
+export function parseAmount(value: string): number | null {
+  let text = value.trim()
+  if (!text) return null
+
+  // Accounting style negatives: (12.00)
+  let negative = /^\(.*\)$/.test(text)
+  text = text.replace(/[()]/g, "")
+
+  if (text.includes("-")) negative = true
+
+  // Keep digits and separators only (drops currency symbols and codes like "Rs.")
+  text = text.replace(/[^\d.,]/g, "").replace(/^[.,]+|[.,]+$/g, "")
+  if (!/\d/.test(text)) return null
+
+  const amount = Number.parseFloat(normalizeSeparators(text))
+  if (isNaN(amount)) return null
+
+  return negative ? -amount : amount
+}
+
+/**
+ * Parse a time like "14:30", "2:30 PM" or "14:30:15" into an "HH:mm" value
+ */
+export function parseTime(value: string): string | null {
+  const match = value.trim().match(/(\d{1,2}):(\d{2})(?::\d{2})?\s*([ap])?\.?m?\.?/i)
+  if (!match) return null
+
+  let hours = Number(match[1])
+  const minutes = Number(match[2])
+  const meridiem = match[3]?.toLowerCase()
+
+  if (meridiem === "p" && hours < 12) hours += 12
+  if (meridiem === "a" && hours === 12) hours = 0
+  if (hours > 23 || minutes > 59) return null
+
+  return `${String(hours).padStart(2, "0")}:${String(minutes).padStart(2, "0")}`
+}
+
+/**
+ * Parse a date (optionally followed by a time) into a local timestamp
+ * Numeric dates are read in the given order; anything else falls back to Date.parse
+ */
+export function parseDate(value: string, dateFormat: DateFormat, time?: string | null): number | null {
+  const text = value.trim()
+  if (!text) return null
+
+  // Year first: 2025-01-31, 2025/01/31
+  let match = text.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/)
+  let parts: [number, number, number] | null = match ? [Number(match[1]), Number(match[2]), Number(match[3])] : null
+
+  // Day and month first: 31/01/2025, 01-31-25
+  if (!parts) {
+    match = text.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2,4})/)
+    if (match) {
+      const year = match[3].length === 2 ? 2000 + Number(match[3]) : Number(match[3])
+      const [first, second] = [Number(match[1]), Number(match[2])]
+      parts = dateFormat === "mdy" ? [year, first, second] : [year, second, first]
+    }
+  }
+
+  if (match && parts) {
+    const [year, month, day] = parts
+    const timeOfDay = time ?? parseTime(text.slice(match[0].length)) ?? "12:00"
+    const date = new Date(year, month - 1, day)
+
+    // Reject dates that rolled over, like 31/02
+    if (date.getMonth() !== month - 1 || date.getDate() !== day) return null
+
+    return combineDateAndTime(date, timeOfDay)
+  }
+
+  const parsed = Date.parse(text)
+  return isNaN(parsed) ? null : parsed
+}
+
+/**
+ * Find the category a CSV value refers to, by ID or name (case insensitive)
+ */
+export function matchCategory(value: string, categories: Category[]): Category | undefined {
+  const text = value.trim().toLowerCase()
+  if (!text) return undefined
+
+  return categories.find((category) => category.id.toLowerCase() === text || category.name.toLowerCase() === text)
+}
+
+// Key used to spot the same transaction in the file and the database
+const getDuplicateKey = (expense: Pick<Expense, "timestamp" | "amount" | "type">): string =>
+  `${formatDate(expense.timestamp)}|${Math.round(expense.amount * 100)}|${expense.type}`
+
+/**
+ * Turn the data rows of a CSV file into transactions, validating every row
+ * Rows matching an existing transaction (same day, amount and type) are flagged as duplicates;
+ * each existing transaction only matches one imported row, so repeated purchases still import.
+ * Categorization rules fill in the category of rows without a known one and add their tags.
+ */
+export function buildImportRows(
+  parsed: ParsedCSV,
+  mapping: ColumnMapping,
+  options: ImportOptions,
+  categories: Category[],
+  existing: Expense[],
+  rules: CategoryRule[] = [],
+): ImportRow[] {
+  const existingCounts = new Map<string, number>()
+  existing.forEach((expense) => {
+    const key = getDuplicateKey(expense)
+    existingCounts.set(key, (existingCounts.get(key) ?? 0) + 1)
+  })
+
+  const fallbackCategory = (kind: CategoryKind) => categories.find((category) => getCategoryKind(category) === kind)
+  const cell = (cells: string[], field: ImportField) => {
+    const index = mapping[field]
+    return index === null ? "" : (cells[index] ?? "")
+  }
+
+  return parsed.rows.map((cells, index) => {
+    const line = parsed.headerLine + index + 1
+    const errors: string[] = []
+    const warnings: string[] = []
+
+    // Amount and type
+    const rawAmount = parseAmount(cell(cells, "amount"))
+    const rawType = cell(cells, "type").toLowerCase()
+    let type: CategoryKind = "expense"
+
+    if (rawType) {
+      if (rawType.startsWith("transfer")) {
+        errors.push("Transfers can't be imported")
+      }
+      type = /income|credit|deposit/.test(rawType) ? "income" : "expense"
+    } else if (rawAmount !== null && rawAmount > 0 && options.positiveIsIncome) {
+      type = "income"
+    }
+
+    if (rawAmount === null) {
+      errors.push(mapping.amount === null ? "No amount column" : `Invalid amount "${cell(cells, "amount")}"`)
+    } else if (rawAmount === 0) {
+      errors.push("Amount is zero")
+    }
+
+    // Date and time
+    const rawTime = cell(cells, "time")
+    const time = rawTime ? parseTime(rawTime) : null
+    if (rawTime && !time) {
+      warnings.push(`Invalid time "${rawTime}", using noon`)
+    }
+
+    const timestamp = parseDate(cell(cells, "date"), options.dateFormat, time)
+    // A row without a time is placed at noon, so only a later day is in the future
+    const hasTime = time !== null || parseTime(cell(cells, "date")) !== null
+    const latest = hasTime ? Date.now() : getEndOfDay(new Date())
+    if (timestamp === null) {
+      errors.push(mapping.date === null ? "No date column" : `Invalid date "${cell(cells, "date")}"`)
+    } else if (timestamp > latest) {
+      errors.push("Date is in the future")
+    }
+
+    // Category
+    const rawCategory = cell(cells, "category")
+    let category = matchCategory(rawCategory, categories)
+    if (category && getCategoryKind(category) !== type) {
+      category = undefined
+    }
+    const hasCategory = category !== undefined
+    if (!category) {
+      category = fallbackCategory(type)
+    }
+
+    if (errors.length > 0 || rawAmount === null || timestamp === null || !category) {
+      return { line, expense: null, errors, warnings, duplicate: false }
+    }
+
+    const tags = parseTags(cell(cells, "tags"))
+    const expense = applyRules(
+      {
+        id: crypto.randomUUID(),
+        type,
+        amount: Math.abs(rawAmount),
+        timestamp,
+        category: category.id,
+        note: cell(cells, "note") || undefined,
+        tags: tags.length > 0 ? tags : undefined,
+      },
+      rules,
+      hasCategory,
+    )
+
+    if (rawCategory && !hasCategory) {
+      const usedCategory = categories.find((c) => c.id === expense.category)
+      warnings.push(`Unknown category "${rawCategory}", using ${usedCategory?.name ?? "none"}`)
+    }
+
+    // Each existing transaction can only be matched once
+    const key = getDuplicateKey(expense)
+    const remaining = existingCounts.get(key) ?? 0
+    if (remaining > 0) {
+      existingCounts.set(key, remaining - 1)
+    }
+
+    return { line, expense, errors, warnings, duplicate: remaining > 0 }
+  })
+}
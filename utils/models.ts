@@ -0,0 +1,204 @@
+import { z } from "zod"
+
+// Shared data models for everything stored in spendersDB
+// Each schema validates rows as they are read back from IndexedDB
+
+// Transaction types stored in the expenses store
+// Transfers move money between two accounts and never count as spending or income
+export const TransactionTypeSchema = z.enum(["expense", "income", "transfer"])
+
+export type TransactionType = z.infer<typeof TransactionTypeSchema>
+
+// Category kinds (transfers have no categories)
+export const CategoryKindSchema = z.enum(["expense", "income"])
+
+export type CategoryKind = z.infer<typeof CategoryKindSchema>
+
+// Part of a transaction's amount assigned to one category
+export const ExpenseSplitSchema = z.object({
+  category: z.string(),
+  amount: z.number().positive(),
+})
+
+export type ExpenseSplit = z.infer<typeof ExpenseSplitSchema>
+
+// Expense model (income and transfers are stored alongside expenses with their own type)
+export const ExpenseSchema = z.object({
+  id: z.string(),
+  type: TransactionTypeSchema.default("expense"),
+  amount: z.number().positive(),
+  timestamp: z.number(),
+  category: z.string(),
+  note: z.string().optional(),
+  accountId: z.string().optional(), // Account the money came from (or went into, for income)
+  toAccountId: z.string().optional(), // Destination account of a transfer
+  recurringRuleId: z.string().optional(), // Rule this transaction was generated from
+  tags: z.array(z.string()).optional(), // Free-form tags, normalized by utils/tags
+  // Category breakdown summing to the amount; `category` then holds the largest split
+  splits: z.array(ExpenseSplitSchema).optional(),
+})
+
+export type Expense = z.infer<typeof ExpenseSchema>
+
+// Category model (custom categories, and edits to built-in ones, stored in the categories store)
+export const CategorySchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  color: z.string(),
+  icon: z.string().optional(),
+  kind: CategoryKindSchema.optional(), // Missing on categories created before income existed
+  parentId: z.string().optional(), // Top-level category this sub-category belongs to (one level deep)
+  archived: z.boolean().optional(), // Hidden from pickers, still shown on existing transactions
+  deleted: z.boolean().optional(), // Built-in category that was deleted or merged away
+})
+
+export type Category = z.infer<typeof CategorySchema>
+
+// Account kinds
+export const AccountKindSchema = z.enum(["cash", "debit", "credit", "mobile-money", "savings"])
+
+export type AccountKind = z.infer<typeof AccountKindSchema>
+
+// Account (wallet) model
+export const AccountSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  kind: AccountKindSchema,
+  openingBalance: z.number(),
+  createdAt: z.number(),
+})
+
+export type Account = z.infer<typeof AccountSchema>
+
+// Budget period types
+export const BudgetPeriodSchema = z.enum(["daily", "weekly", "monthly"])
+
+export type BudgetPeriod = z.infer<typeof BudgetPeriodSchema>
+
+// Budget goal model
+export const BudgetGoalSchema = z.object({
+  id: z.string(),
+  category: z.string(),
+  amount: z.number(),
+  period: BudgetPeriodSchema,
+  createdAt: z.number(),
+  updatedAt: z.number(),
+})
+
+export type BudgetGoal = z.infer<typeof BudgetGoalSchema>
+
+// How often a recurring rule repeats
+export const RecurrenceFrequencySchema = z.enum(["daily", "weekly", "monthly", "yearly"])
+
+export type RecurrenceFrequency = z.infer<typeof RecurrenceFrequencySchema>
+
+// Monthly rules can repeat on the nth weekday of the month instead of a fixed date
+// week is 1-4, or -1 for the last such weekday; weekday is 0 (Sunday) to 6 (Saturday)
+export const NthWeekdaySchema = z.object({
+  week: z.union([z.literal(1), z.literal(2), z.literal(3), z.literal(4), z.literal(-1)]),
+  weekday: z.number().int().min(0).max(6),
+})
+
+export type NthWeekday = z.infer<typeof NthWeekdaySchema>
+
+// Change to a single occurrence of a recurring rule, keyed by its scheduled timestamp
+export const OccurrenceOverrideSchema = z.object({
+  skip: z.boolean().optional(),
+  amount: z.number().positive().optional(),
+  category: z.string().optional(),
+  note: z.string().optional(),
+})
+
+export type OccurrenceOverride = z.infer<typeof OccurrenceOverrideSchema>
+
+// Recurring rule model (bills, subscriptions, salary)
+export const RecurringRuleSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  type: CategoryKindSchema,
+  amount: z.number().positive(),
+  category: z.string(),
+  note: z.string().optional(),
+  accountId: z.string().optional(),
+  frequency: RecurrenceFrequencySchema,
+  interval: z.number().int().positive().default(1), // Repeat every `interval` days/weeks/months/years
+  nthWeekday: NthWeekdaySchema.optional(),
+  startDate: z.number(), // First occurrence, including the time of day
+  endDate: z.number().optional(), // Last day an occurrence may fall on
+  materializedUntil: z.number().optional(), // Occurrences up to here have been turned into transactions
+  overrides: z.record(z.string(), OccurrenceOverrideSchema).default({}),
+  createdAt: z.number(),
+  updatedAt: z.number(),
+})
+
+export type RecurringRule = z.infer<typeof RecurringRuleSchema>
+
+// Condition a transaction's note or amount must meet for a categorization rule to apply
+// "contains" and "regex" are case insensitive; amount bounds are inclusive
+export const RuleConditionSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("contains"), text: z.string().min(1) }),
+  z.object({ type: z.literal("regex"), pattern: z.string().min(1) }),
+  z.object({ type: z.literal("amount"), min: z.number().optional(), max: z.number().optional() }),
+])
+
+export type RuleCondition = z.infer<typeof RuleConditionSchema>
+
+// Categorization rule ("Uber" → Transportation), applied to new and imported transactions
+export const CategoryRuleSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  type: CategoryKindSchema, // Only transactions of this type are matched
+  conditions: z.array(RuleConditionSchema).min(1), // Every condition must match
+  category: z.string().optional(),
+  tags: z.array(z.string()).optional(), // Added to matching transactions
+  enabled: z.boolean().default(true),
+  createdAt: z.number(),
+  updatedAt: z.number(),
+})
+
+export type CategoryRule = z.infer<typeof CategoryRuleSchema>
+
+// Records removed by one deletion, kept so they can be restored until the trash is purged
+const TrashEntryBaseSchema = z.object({
+  id: z.string(),
+  description: z.string().optional(), // Shown instead of a summary of the records, e.g. "Reset all data"
+  deletedAt: z.number(),
+})
+
+export const TrashEntrySchema = z.discriminatedUnion("store", [
+  TrashEntryBaseSchema.extend({ store: z.literal("expenses"), records: z.array(ExpenseSchema) }),
+  TrashEntryBaseSchema.extend({ store: z.literal("budgetGoals"), records: z.array(BudgetGoalSchema) }),
+])
+
+export type TrashEntry = z.infer<typeof TrashEntrySchema>
+
+// Stores whose changes are recorded in the change log
+export const LoggedStoreSchema = z.enum(["expenses", "categories", "budgetGoals"])
+
+export type LoggedStore = z.infer<typeof LoggedStoreSchema>
+
+export const ChangeActionSchema = z.enum(["create", "update", "delete", "restore"])
+
+export type ChangeAction = z.infer<typeof ChangeActionSchema>
+
+// One change to a record, appended to the change log and never edited afterwards
+// Snapshots are kept as they were stored, so entries written before a schema change still load
+export const ChangeLogEntrySchema = z.object({
+  id: z.string(),
+  store: LoggedStoreSchema,
+  recordId: z.string(),
+  action: ChangeActionSchema,
+  before: z.record(z.unknown()).optional(), // Missing when the record was created
+  after: z.record(z.unknown()).optional(), // Missing when the record was deleted
+  timestamp: z.number(),
+})
+
+export type ChangeLogEntry = z.infer<typeof ChangeLogEntrySchema>
+
+// Setting model (key/value pairs stored in the settings store)
+export const SettingSchema = z.object({
+  name: z.string(),
+  value: z.unknown(),
+})
+
+export type Setting = z.infer<typeof SettingSchema>
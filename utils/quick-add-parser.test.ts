@@ -0,0 +1,206 @@
+import { describe, expect, it } from "vitest"
+import { hasQuickAddDetails, learnCategoryKeywords, parseQuickAdd } from "./quick-add-parser"
+import { DEFAULT_CATEGORIES } from "./categories"
+import { formatDate, toTimeInputValue } from "./date-utils"
+import type { Expense } from "./models"
+
+// Monday 19 October 2026, 12:30
+const NOW = new Date(2026, 9, 19, 12, 30).getTime()
+
+const parse = (input: string, keywords?: Map<string, string>) =>
+  parseQuickAdd(input, { categories: DEFAULT_CATEGORIES, keywords, now: NOW })
+
+const dayOf = (timestamp: number | null) => (timestamp === null ? null : formatDate(timestamp))
+
+describe("parseQuickAdd", () => {
+  describe("amounts", () => {
+    it("reads a plain number as just the amount", () => {
+      const result = parse("12.50")
+
+      expect(result).toEqual({
+        amount: 12.5,
+        note: "",
+        tags: [],
+        timestamp: null,
+        category: null,
+        categorySource: null,
+      })
+      expect(hasQuickAddDetails(result)).toBe(false)
+    })
+
+    it("takes the amount from anywhere in the line", () => {
+      expect(parse("coffee 3.20")).toMatchObject({ amount: 3.2, note: "coffee" })
+      expect(parse("taxi home 18 tonight")).toMatchObject({ amount: 18, note: "taxi home tonight" })
+    })
+
+    it("accepts currency symbols and a decimal comma", () => {
+      expect(parse("$4 coffee").amount).toBe(4)
+      expect(parse("4,50€ coffee").amount).toBe(4.5)
+      expect(parse("1,000 rent").amount).toBe(1000)
+    })
+
+    it("uses the first number as the amount and keeps later ones in the note", () => {
+      expect(parse("12 tickets for 2")).toMatchObject({ amount: 12, note: "tickets for 2" })
+    })
+
+    it("works out arithmetic", () => {
+      expect(parse("84/3 pizza")).toMatchObject({ amount: 28, note: "pizza" })
+      expect(parse("12.99 + 4.50").amount).toBe(17.49)
+      expect(parse("(10 + 2) * 3").amount).toBe(36)
+    })
+
+    it("leaves the amount empty when there is no number", () => {
+      expect(parse("lunch").amount).toBeNull()
+      expect(parse("").amount).toBeNull()
+    })
+
+    it("doesn't take invalid arithmetic as the amount", () => {
+      expect(parse("12+").amount).toBeNull()
+    })
+  })
+
+  describe("dates", () => {
+    it("understands today and yesterday, keeping the time of day", () => {
+      expect(dayOf(parse("5 today").timestamp)).toBe("2026-10-19")
+
+      const { timestamp } = parse("5 yesterday")
+      expect(dayOf(timestamp)).toBe("2026-10-18")
+      expect(toTimeInputValue(timestamp!)).toBe("12:30")
+    })
+
+    it("counts days back without taking the number as the amount", () => {
+      expect(parse("3 days ago 20 taxi")).toMatchObject({ amount: 20, note: "taxi" })
+      expect(dayOf(parse("20 taxi 1 day ago").timestamp)).toBe("2026-10-18")
+    })
+
+    it("picks the most recent weekday", () => {
+      expect(dayOf(parse("15 cinema friday").timestamp)).toBe("2026-10-16")
+      expect(dayOf(parse("on friday 8 drinks").timestamp)).toBe("2026-10-16")
+      expect(parse("on friday 8 drinks").note).toBe("drinks")
+    })
+
+    it("goes a week back for last on the same weekday", () => {
+      expect(dayOf(parse("10 monday").timestamp)).toBe("2026-10-19")
+      expect(dayOf(parse("10 last monday").timestamp)).toBe("2026-10-12")
+    })
+
+    it("reads ISO dates next to an amount", () => {
+      expect(parse("12.50 2026-10-15")).toMatchObject({ amount: 12.5, note: "" })
+      expect(dayOf(parse("12.50 2026-10-15").timestamp)).toBe("2026-10-15")
+      expect(dayOf(parse("2026-10-15 12.50 groceries").timestamp)).toBe("2026-10-15")
+    })
+
+    it("doesn't take a date on its own for arithmetic", () => {
+      const result = parse("2026-10-15")
+
+      expect(result.amount).toBeNull()
+      expect(dayOf(result.timestamp)).toBe("2026-10-15")
+    })
+
+    it("only uses the first date mentioned", () => {
+      expect(parse("5 yesterday today")).toMatchObject({ note: "today" })
+    })
+  })
+
+  describe("tags", () => {
+    it("collects #words as normalized tags", () => {
+      expect(parse("40 dinner #Vacation-2026 #work")).toMatchObject({
+        note: "dinner",
+        tags: ["vacation-2026", "work"],
+      })
+    })
+
+    it("drops repeated tags and a lone #", () => {
+      expect(parse("40 #work #WORK #").tags).toEqual(["work"])
+    })
+  })
+
+  describe("categories", () => {
+    it("matches a category by id or by a word of its name", () => {
+      expect(parse("12 food")).toMatchObject({ category: "food", categorySource: "name", note: "" })
+      expect(parse("30 dining out")).toMatchObject({ category: "food", note: "out" })
+      expect(parse("9 Shopping socks")).toMatchObject({ category: "shopping", note: "socks" })
+    })
+
+    it("takes the last category mentioned", () => {
+      expect(parse("12 food shopping")).toMatchObject({ category: "shopping", note: "food" })
+    })
+
+    it("only matches categories that may be picked", () => {
+      const result = parseQuickAdd("12 food", { categories: DEFAULT_CATEGORIES.slice(1), now: NOW })
+
+      expect(result).toMatchObject({ category: null, note: "food" })
+    })
+
+    it("guesses from a learned keyword when no category is named", () => {
+      const keywords = new Map([["lunch", "food"]])
+
+      expect(parse("12.50 lunch with Sam", keywords)).toMatchObject({
+        category: "food",
+        categorySource: "keyword",
+        note: "lunch with Sam",
+      })
+    })
+
+    it("prefers a named category over a keyword", () => {
+      const keywords = new Map([["lunch", "food"]])
+
+      expect(parse("12.50 lunch health", keywords)).toMatchObject({ category: "health", categorySource: "name" })
+    })
+
+    it("ignores keywords for categories that may not be picked", () => {
+      expect(parse("12 salary", new Map([["salary", "salary"]])).category).toBeNull()
+    })
+  })
+
+  it("reads a whole line", () => {
+    const result = parse("12.50 lunch with Sam yesterday #work food")
+
+    expect(result).toMatchObject({
+      amount: 12.5,
+      note: "lunch with Sam",
+      tags: ["work"],
+      category: "food",
+      categorySource: "name",
+    })
+    expect(dayOf(result.timestamp)).toBe("2026-10-18")
+    expect(hasQuickAddDetails(result)).toBe(true)
+  })
+})
+
+describe("learnCategoryKeywords", () => {
+  const expense = (note: string, category: string, extra: Partial<Expense> = {}): Expense => ({
+    id: crypto.randomUUID(),
+    type: "expense",
+    amount: 10,
+    timestamp: NOW,
+    category,
+    note,
+    ...extra,
+  })
+
+  it("keeps words mostly filed under one category", () => {
+    const keywords = learnCategoryKeywords([
+      expense("Lunch at work", "food"),
+      expense("lunch", "food"),
+      expense("lunch gift", "shopping"),
+    ])
+
+    expect(keywords.get("lunch")).toBe("food")
+  })
+
+  it("drops words split evenly between categories", () => {
+    const keywords = learnCategoryKeywords([expense("market", "food"), expense("market", "shopping")])
+
+    expect(keywords.has("market")).toBe(false)
+  })
+
+  it("skips transfers and transactions without a note", () => {
+    const keywords = learnCategoryKeywords([
+      expense("savings", "transfer", { type: "transfer" }),
+      { ...expense("", "food"), note: undefined },
+    ])
+
+    expect(keywords.size).toBe(0)
+  })
+})
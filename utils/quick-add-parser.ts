@@ -0,0 +1,213 @@
+import type { Category, Expense } from "./models"
+import { normalizeTag } from "./tags"
+import { parseDateInputValue } from "./date-utils"
+import { evaluateAmountExpression, isAmountExpression } from "./amount-expression"
+import { tokenizeNote } from "./category-classifier"
+
+// Quick add turns a single line like "12.50 lunch with Sam yesterday #work food" into a transaction:
+// the first number (or sum, like "84/3") is the amount, "#words" are tags, date words set the day, a category name picks
+// the category and whatever is left becomes the note.
+
+export interface QuickAddResult {
+  amount: number | null
+  note: string
+  tags: string[]
+  timestamp: number | null // null when no date was mentioned
+  category: string | null // null when nothing matched a category
+  categorySource: "name" | "keyword" | null // Named outright, or guessed from a word of the note
+}
+
+interface QuickAddOptions {
+  categories: Category[] // Categories that may be picked, e.g. the expense ones
+  keywords?: Map<string, string> // Note word → category ID, see learnCategoryKeywords
+  now?: number
+}
+
+const WEEKDAYS = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"]
+
+// "12.50", "$12.50", "12,50€", "84/3"
+const AMOUNT_PATTERN = /^[$€£¥₦]?[\d.,+\-*/xX×÷()]*\d[\d.,+\-*/xX×÷()]*[$€£¥₦]?$/
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+// Lowercase a word and strip surrounding punctuation
+const normalizeWord = (word: string): string => word.toLowerCase().replace(/^[.,!?;:'"()]+|[.,!?;:'"()]+$/g, "")
+
+// Same time of day as `now`, a number of days earlier
+const daysBefore = (now: number, days: number): number => {
+  const date = new Date(now)
+  date.setDate(date.getDate() - days)
+  return date.getTime()
+}
+
+// Find a date phrase in the words, returning its timestamp and how many words it spans
+const matchDate = (words: string[], index: number, now: number): { timestamp: number; length: number } | null => {
+  const word = words[index]
+  const next = words[index + 1]
+
+  if (word === "today") return { timestamp: now, length: 1 }
+  if (word === "yesterday") return { timestamp: daysBefore(now, 1), length: 1 }
+
+  // "3 days ago"
+  if (/^\d+$/.test(word) && (next === "day" || next === "days") && words[index + 2] === "ago") {
+    return { timestamp: daysBefore(now, Number(word)), length: 3 }
+  }
+
+  // "friday", "on friday", "last friday": the most recent one, a week back for "last" on the same day
+  const prefixed = (word === "on" || word === "last") && WEEKDAYS.includes(next)
+  const weekday = WEEKDAYS.indexOf(prefixed ? next : word)
+  if (weekday !== -1) {
+    let days = (new Date(now).getDay() - weekday + 7) % 7
+    if (days === 0 && word === "last") days = 7
+    return { timestamp: daysBefore(now, days), length: prefixed ? 2 : 1 }
+  }
+
+  // "2026-10-15", keeping the current time of day
+  if (ISO_DATE_PATTERN.test(word)) {
+    const date = parseDateInputValue(word)
+    if (isNaN(date.getTime())) return null
+
+    const time = new Date(now)
+    date.setHours(time.getHours(), time.getMinutes(), 0, 0)
+    return { timestamp: date.getTime(), length: 1 }
+  }
+
+  return null
+}
+
+// Words that name a category: its ID, and each word of its name unless another category shares it
+const getCategoryWords = (categories: Category[]): Map<string, string | null> => {
+  const words = new Map<string, string | null>()
+
+  categories.forEach((category) => {
+    const names = new Set([category.id, ...category.name.split(/\s+/).map(normalizeWord)])
+
+    names.forEach((name) => {
+      if (name.length < 3) return
+      // A word shared by two categories doesn't pick either
+      words.set(name, words.has(name) && words.get(name) !== category.id ? null : category.id)
+    })
+  })
+
+  return words
+}
+
+// Parse a quick add line into its parts
+export const parseQuickAdd = (input: string, { categories, keywords, now = Date.now() }: QuickAddOptions): QuickAddResult => {
+  // A line that is only arithmetic may contain spaces, e.g. "12.99 + 4.50"; anything else is read word by word
+  const arithmetic = isAmountExpression(input) ? evaluateAmountExpression(input).value : null
+  if (arithmetic !== null) {
+    return {
+      amount: arithmetic,
+      note: "",
+      tags: [],
+      timestamp: null,
+      category: null,
+      categorySource: null,
+    }
+  }
+
+  const tokens = input.trim().split(/\s+/).filter(Boolean)
+  const words = tokens.map(normalizeWord)
+  const used = new Array(tokens.length).fill(false)
+
+  const result: QuickAddResult = {
+    amount: null,
+    note: "",
+    tags: [],
+    timestamp: null,
+    category: null,
+    categorySource: null,
+  }
+
+  // Date phrases first, so the number in "3 days ago" isn't taken as the amount
+  for (let i = 0; i < tokens.length; i++) {
+    if (used[i] || result.timestamp !== null) continue
+
+    const date = matchDate(words, i, now)
+    if (date) {
+      result.timestamp = date.timestamp
+      used.fill(true, i, i + date.length)
+    }
+  }
+
+  tokens.forEach((token, i) => {
+    if (used[i]) return
+
+    if (token.startsWith("#")) {
+      const tag = normalizeTag(token)
+      if (tag && !result.tags.includes(tag)) result.tags.push(tag)
+      used[i] = true
+      return
+    }
+
+    const amount = result.amount === null && AMOUNT_PATTERN.test(token) ? evaluateAmountExpression(token).value : null
+    if (amount !== null) {
+      result.amount = amount
+      used[i] = true
+    }
+  })
+
+  // A category named outright, e.g. "food" for "Food & Dining"; the last one mentioned wins
+  const availableIds = new Set(categories.map((category) => category.id))
+  const categoryWords = getCategoryWords(categories)
+
+  for (let i = tokens.length - 1; i >= 0; i--) {
+    const categoryId = !used[i] && categoryWords.get(words[i])
+    if (categoryId) {
+      result.category = categoryId
+      result.categorySource = "name"
+      used[i] = true
+      break
+    }
+  }
+
+  const noteTokens = tokens.filter((_, i) => !used[i])
+  result.note = noteTokens.join(" ")
+
+  // Otherwise a word of the note that was used with a category before, e.g. "lunch" → food
+  if (!result.category && keywords) {
+    const keyword = noteTokens
+      .map(normalizeWord)
+      .find((word) => keywords.has(word) && availableIds.has(keywords.get(word)!))
+    if (keyword) {
+      result.category = keywords.get(keyword)!
+      result.categorySource = "keyword"
+    }
+  }
+
+  return result
+}
+
+// Check whether a quick add line says more than just the amount
+export const hasQuickAddDetails = (result: QuickAddResult): boolean => {
+  return Boolean(result.note || result.tags.length > 0 || result.timestamp !== null || result.category)
+}
+
+// Learn which category each note word is usually filed under from past transactions
+// A word is only kept when most of the transactions using it share a category
+export const learnCategoryKeywords = (expenses: Expense[]): Map<string, string> => {
+  const counts = new Map<string, Map<string, number>>()
+
+  expenses.forEach((expense) => {
+    if (!expense.note || expense.type === "transfer") return
+
+    tokenizeNote(expense.note).forEach((word) => {
+      const wordCounts = counts.get(word) ?? new Map<string, number>()
+      wordCounts.set(expense.category, (wordCounts.get(expense.category) ?? 0) + 1)
+      counts.set(word, wordCounts)
+    })
+  })
+
+  const keywords = new Map<string, string>()
+
+  counts.forEach((wordCounts, word) => {
+    const total = Array.from(wordCounts.values()).reduce((sum, count) => sum + count, 0)
+    const [category, count] = Array.from(wordCounts.entries()).reduce((best, entry) => (entry[1] > best[1] ? entry : best))
+
+    if (count / total > 0.5) {
+      keywords.set(word, category)
+    }
+  })
+
+  return keywords
+}
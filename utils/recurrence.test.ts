@@ -0,0 +1,184 @@
+import { beforeAll, describe, expect, it } from "vitest"
+import {
+  getDueTransactions,
+  getNextOccurrences,
+  getNthWeekdayOfMonth,
+  getOccurrencesBetween,
+  getUpcomingOccurrences,
+  setOccurrenceOverride,
+  toggleOccurrenceSkip,
+} from "./recurrence"
+import { formatDate, toTimeInputValue } from "./date-utils"
+import type { RecurringRule } from "./models"
+
+beforeAll(() => {
+  // Clocks went forward on 2026-03-08 and back on 2026-11-01 here
+  process.env.TZ = "America/New_York"
+})
+
+const rule = (extra: Partial<RecurringRule> = {}): RecurringRule => ({
+  id: "rent",
+  name: "Rent",
+  type: "expense",
+  amount: 900,
+  category: "housing",
+  frequency: "monthly",
+  interval: 1,
+  startDate: new Date(2026, 0, 31, 9, 0).getTime(),
+  overrides: {},
+  createdAt: 0,
+  updatedAt: 0,
+  ...extra,
+})
+
+const days = (timestamps: number[]) => timestamps.map(formatDate)
+
+describe("monthly rules", () => {
+  it("lands on the last day of shorter months and goes back to the 31st after", () => {
+    expect(days(getNextOccurrences(rule(), 0, 4))).toEqual(["2026-01-31", "2026-02-28", "2026-03-31", "2026-04-30"])
+  })
+
+  it("uses the 29th of February in a leap year", () => {
+    const leap = rule({ startDate: new Date(2028, 0, 31, 9, 0).getTime() })
+
+    expect(days(getNextOccurrences(leap, 0, 3))).toEqual(["2028-01-31", "2028-02-29", "2028-03-31"])
+  })
+
+  it("repeats on the nth weekday", () => {
+    // Second Tuesday
+    const secondTuesday = rule({
+      startDate: new Date(2026, 0, 13, 9, 0).getTime(),
+      nthWeekday: { week: 2, weekday: 2 },
+    })
+
+    expect(days(getNextOccurrences(secondTuesday, 0, 3))).toEqual(["2026-01-13", "2026-02-10", "2026-03-10"])
+  })
+
+  it("repeats on the last weekday", () => {
+    // Last Friday
+    const lastFriday = rule({ startDate: new Date(2026, 0, 30, 9, 0).getTime(), nthWeekday: { week: -1, weekday: 5 } })
+
+    expect(days(getNextOccurrences(lastFriday, 0, 3))).toEqual(["2026-01-30", "2026-02-27", "2026-03-27"])
+    expect(getNthWeekdayOfMonth(2026, 4, -1, 5)).toBe(29)
+  })
+
+  it("skips an nth weekday that falls before the start date", () => {
+    const firstMonday = rule({ startDate: new Date(2026, 0, 20, 9, 0).getTime(), nthWeekday: { week: 1, weekday: 1 } })
+
+    expect(days(getNextOccurrences(firstMonday, 0, 1))).toEqual(["2026-02-02"])
+  })
+})
+
+describe("end date", () => {
+  it("includes an occurrence on the end date itself and nothing after", () => {
+    const ending = rule({
+      frequency: "weekly",
+      startDate: new Date(2026, 0, 5, 18, 0).getTime(),
+      endDate: new Date(2026, 0, 19).getTime(),
+    })
+
+    expect(days(getNextOccurrences(ending, 0, 10))).toEqual(["2026-01-05", "2026-01-12", "2026-01-19"])
+  })
+})
+
+describe("daylight saving", () => {
+  it("keeps the time of day across a clock change", () => {
+    const daily = rule({ frequency: "daily", startDate: new Date(2026, 2, 6, 9, 0).getTime() })
+    const occurrences = getNextOccurrences(daily, 0, 4)
+
+    expect(days(occurrences)).toEqual(["2026-03-06", "2026-03-07", "2026-03-08", "2026-03-09"])
+    expect(occurrences.map(toTimeInputValue)).toEqual(["09:00", "09:00", "09:00", "09:00"])
+  })
+
+  it("keeps weekly rules on the same weekday when clocks go back", () => {
+    const weekly = rule({ frequency: "weekly", startDate: new Date(2026, 9, 25, 0, 30).getTime() })
+
+    expect(days(getNextOccurrences(weekly, 0, 2))).toEqual(["2026-10-25", "2026-11-01"])
+    expect(toTimeInputValue(getNextOccurrences(weekly, 0, 2)[1])).toBe("00:30")
+  })
+})
+
+describe("getDueTransactions", () => {
+  const now = new Date(2026, 4, 15, 12, 0).getTime()
+
+  it("catches up on every occurrence since the rule started", () => {
+    expect(days(getDueTransactions(rule(), now).map((expense) => expense.timestamp))).toEqual([
+      "2026-01-31",
+      "2026-02-28",
+      "2026-03-31",
+      "2026-04-30",
+    ])
+  })
+
+  it("starts after the last materialized occurrence", () => {
+    const caughtUp = rule({ materializedUntil: new Date(2026, 2, 31, 9, 0).getTime() })
+
+    expect(days(getDueTransactions(caughtUp, now).map((expense) => expense.timestamp))).toEqual(["2026-04-30"])
+  })
+
+  it("gives each occurrence the same id every time", () => {
+    const [first] = getDueTransactions(rule(), now)
+
+    expect(first).toMatchObject({ id: `rent:${rule().startDate}`, recurringRuleId: "rent", note: "Rent" })
+    expect(getDueTransactions(rule(), now)[0].id).toBe(first.id)
+  })
+
+  it("leaves out skipped occurrences and applies edited ones", () => {
+    const [january, february, march] = getOccurrencesBetween(rule(), 0, now)
+    let changed = toggleOccurrenceSkip(rule(), february)
+    changed = setOccurrenceOverride(changed, march, { amount: 950, note: "Rent + parking" })
+
+    const due = getDueTransactions(changed, now)
+
+    expect(due.map((expense) => expense.timestamp)).not.toContain(february)
+    expect(due.find((expense) => expense.timestamp === march)).toMatchObject({ amount: 950, note: "Rent + parking" })
+    expect(due.find((expense) => expense.timestamp === january)).toMatchObject({ amount: 900, note: "Rent" })
+  })
+
+  it("brings back a skipped occurrence with its edits", () => {
+    const [, february] = getOccurrencesBetween(rule(), 0, now)
+    const edited = setOccurrenceOverride(rule(), february, { amount: 950 })
+    const restored = toggleOccurrenceSkip(toggleOccurrenceSkip(edited, february), february)
+
+    expect(restored.overrides[String(february)]).toEqual({ amount: 950 })
+    expect(toggleOccurrenceSkip(toggleOccurrenceSkip(rule(), february), february).overrides).toEqual({})
+  })
+})
+
+describe("getUpcomingOccurrences", () => {
+  const now = new Date(2026, 4, 15, 12, 0).getTime()
+
+  it("lists occurrences in the coming days, marking skipped and edited ones", () => {
+    const weekly = rule({
+      frequency: "weekly",
+      startDate: new Date(2026, 4, 18, 9, 0).getTime(),
+      materializedUntil: now,
+    })
+    const [first, second] = getNextOccurrences(weekly, now, 2)
+    const changed = setOccurrenceOverride(toggleOccurrenceSkip(weekly, first), second, { amount: 50 })
+
+    const upcoming = getUpcomingOccurrences([changed], now, 14)
+
+    expect(upcoming.map(({ scheduledAt, skipped, edited }) => [formatDate(scheduledAt), skipped, edited])).toEqual([
+      ["2026-05-18", true, false],
+      ["2026-05-25", false, true],
+    ])
+  })
+
+  it("includes occurrences already due that haven't been materialized", () => {
+    const behind = rule({ materializedUntil: new Date(2026, 2, 31, 9, 0).getTime() })
+
+    expect(days(getUpcomingOccurrences([behind], now, 30).map((occurrence) => occurrence.scheduledAt))).toEqual([
+      "2026-04-30",
+      "2026-05-31",
+    ])
+  })
+
+  it("doesn't repeat materialized occurrences", () => {
+    const caughtUp = rule({ materializedUntil: now })
+
+    expect(days(getUpcomingOccurrences([caughtUp], now, 30).map((occurrence) => occurrence.scheduledAt))).toEqual([
+      "2026-05-31",
+    ])
+  })
+})
@@ -0,0 +1,239 @@
+// Recurring rules: working out when a rule repeats and which transactions it generates
+// Occurrences are always computed from the rule's start date, so monthly rules never drift
+// (a rule starting on the 31st lands on the last day of shorter months and back on the 31st after)
+
+import type { Expense, NthWeekday, OccurrenceOverride, RecurringRule } from "./models"
+import { getEndOfDay } from "./date-utils"
+
+// Upper bound on occurrences walked for one rule, in case of a malformed rule
+const MAX_OCCURRENCES = 20000
+
+export const WEEKDAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"]
+export const WEEK_NAMES: Record<string, string> = {
+  "1": "first",
+  "2": "second",
+  "3": "third",
+  "4": "fourth",
+  "-1": "last",
+}
+
+// A single scheduled occurrence of a rule, with any per-occurrence changes applied
+export interface Occurrence {
+  rule: RecurringRule
+  scheduledAt: number // Timestamp the rule produced, also used as the occurrence's key
+  amount: number
+  category: string
+  note?: string
+  skipped: boolean
+  edited: boolean
+}
+
+// Number of days in a month (month is 0-indexed)
+const getDaysInMonth = (year: number, month: number): number => new Date(year, month + 1, 0).getDate()
+
+// Day of the month of the nth weekday (week -1 is the last one)
+export const getNthWeekdayOfMonth = (year: number, month: number, week: number, weekday: number): number => {
+  if (week === -1) {
+    const lastDay = getDaysInMonth(year, month)
+    const lastWeekday = new Date(year, month, lastDay).getDay()
+    return lastDay - ((lastWeekday - weekday + 7) % 7)
+  }
+
+  const firstWeekday = new Date(year, month, 1).getDay()
+  return 1 + ((weekday - firstWeekday + 7) % 7) + (week - 1) * 7
+}
+
+// Which weekday of its month a date is ("second Tuesday"); the 5th one is always the last
+export const getNthWeekdayOfDate = (timestamp: number): NthWeekday => {
+  const date = new Date(timestamp)
+  const week = Math.ceil(date.getDate() / 7)
+  return { week: week > 4 ? -1 : (week as 1 | 2 | 3 | 4), weekday: date.getDay() }
+}
+
+// Timestamp of the nth occurrence of a rule (0 is the first), keeping the start's time of day
+export const getOccurrence = (rule: RecurringRule, n: number): number => {
+  const start = new Date(rule.startDate)
+  const date = new Date(rule.startDate)
+  const step = n * rule.interval
+
+  switch (rule.frequency) {
+    case "daily":
+      date.setDate(start.getDate() + step)
+      break
+    case "weekly":
+      date.setDate(start.getDate() + step * 7)
+      break
+    case "monthly": {
+      // Move to the 1st first so changing the month can't overflow into the next one
+      date.setDate(1)
+      date.setMonth(start.getMonth() + step)
+      const year = date.getFullYear()
+      const month = date.getMonth()
+      date.setDate(
+        rule.nthWeekday
+          ? getNthWeekdayOfMonth(year, month, rule.nthWeekday.week, rule.nthWeekday.weekday)
+          : Math.min(start.getDate(), getDaysInMonth(year, month)),
+      )
+      break
+    }
+    case "yearly":
+      date.setDate(1)
+      date.setFullYear(start.getFullYear() + step)
+      date.setDate(Math.min(start.getDate(), getDaysInMonth(date.getFullYear(), date.getMonth())))
+      break
+  }
+
+  return date.getTime()
+}
+
+// Walk a rule's occurrences in order, stopping at its end date or when `visit` returns false
+const forEachOccurrence = (rule: RecurringRule, visit: (timestamp: number) => boolean): void => {
+  const lastAllowed = rule.endDate !== undefined ? getEndOfDay(new Date(rule.endDate)) : Infinity
+
+  for (let n = 0; n < MAX_OCCURRENCES; n++) {
+    const timestamp = getOccurrence(rule, n)
+    if (timestamp > lastAllowed) return
+
+    // The nth weekday of the start month can fall before the start date itself
+    if (timestamp < rule.startDate) continue
+
+    if (!visit(timestamp)) return
+  }
+}
+
+// Scheduled timestamps after `after` and up to and including `until`
+export const getOccurrencesBetween = (rule: RecurringRule, after: number, until: number): number[] => {
+  const occurrences: number[] = []
+
+  forEachOccurrence(rule, (timestamp) => {
+    if (timestamp > until) return false
+    if (timestamp > after) occurrences.push(timestamp)
+    return true
+  })
+
+  return occurrences
+}
+
+// The next `count` scheduled timestamps after `after`
+export const getNextOccurrences = (rule: RecurringRule, after: number, count: number): number[] => {
+  const occurrences: number[] = []
+
+  forEachOccurrence(rule, (timestamp) => {
+    if (timestamp > after) occurrences.push(timestamp)
+    return occurrences.length < count
+  })
+
+  return occurrences
+}
+
+// Apply the rule's per-occurrence changes to a scheduled timestamp
+export const resolveOccurrence = (rule: RecurringRule, scheduledAt: number): Occurrence => {
+  const override = rule.overrides[String(scheduledAt)]
+
+  return {
+    rule,
+    scheduledAt,
+    amount: override?.amount ?? rule.amount,
+    category: override?.category ?? rule.category,
+    note: override?.note ?? rule.note,
+    skipped: override?.skip === true,
+    edited: override !== undefined && override.skip !== true,
+  }
+}
+
+// Transactions generated from a rule get a deterministic ID, so the same occurrence is never added twice
+export const getOccurrenceId = (ruleId: string, scheduledAt: number): string => `${ruleId}:${scheduledAt}`
+
+// Turn an occurrence into the transaction stored in the expenses store
+export const occurrenceToExpense = (occurrence: Occurrence): Expense => ({
+  id: getOccurrenceId(occurrence.rule.id, occurrence.scheduledAt),
+  type: occurrence.rule.type,
+  amount: occurrence.amount,
+  timestamp: occurrence.scheduledAt,
+  category: occurrence.category,
+  note: occurrence.note || occurrence.rule.name,
+  accountId: occurrence.rule.accountId,
+  recurringRuleId: occurrence.rule.id,
+})
+
+// Transactions a rule owes up to `now`: every occurrence since it was last materialized
+// (or since its start date for a new rule), leaving out skipped ones
+export const getDueTransactions = (rule: RecurringRule, now: number): Expense[] => {
+  const after = rule.materializedUntil ?? rule.startDate - 1
+
+  return getOccurrencesBetween(rule, after, now)
+    .map((scheduledAt) => resolveOccurrence(rule, scheduledAt))
+    .filter((occurrence) => !occurrence.skipped)
+    .map(occurrenceToExpense)
+}
+
+// Occurrences of every rule coming up in the next `days` days, soonest first
+export const getUpcomingOccurrences = (rules: RecurringRule[], now: number, days: number): Occurrence[] => {
+  const until = getEndOfDay(new Date(now + days * 24 * 60 * 60 * 1000))
+
+  return rules
+    .flatMap((rule) =>
+      // Anything not yet materialized is still upcoming, including occurrences already due that the app
+      // hasn't caught up on, so they can be edited or skipped before they become transactions
+      getOccurrencesBetween(rule, rule.materializedUntil ?? rule.startDate - 1, until).map((scheduledAt) =>
+        resolveOccurrence(rule, scheduledAt),
+      ),
+    )
+    .sort((a, b) => a.scheduledAt - b.scheduledAt)
+}
+
+// Set or clear (with null) the change for a single occurrence, returning the updated rule
+export const setOccurrenceOverride = (
+  rule: RecurringRule,
+  scheduledAt: number,
+  override: OccurrenceOverride | null,
+): RecurringRule => {
+  const overrides = { ...rule.overrides }
+
+  if (override) {
+    overrides[String(scheduledAt)] = override
+  } else {
+    delete overrides[String(scheduledAt)]
+  }
+
+  return { ...rule, overrides }
+}
+
+// Skip a single occurrence, or bring a skipped one back (keeping any edits made to it)
+export const toggleOccurrenceSkip = (rule: RecurringRule, scheduledAt: number): RecurringRule => {
+  const { skip, ...changes } = rule.overrides[String(scheduledAt)] ?? {}
+
+  if (!skip) {
+    return setOccurrenceOverride(rule, scheduledAt, { ...changes, skip: true })
+  }
+
+  return setOccurrenceOverride(rule, scheduledAt, Object.keys(changes).length > 0 ? changes : null)
+}
+
+// Ordinal suffix for a day of the month ("1st", "22nd")
+const ordinal = (day: number): string => {
+  const suffixes = ["th", "st", "nd", "rd"]
+  const value = day % 100
+  return `${day}${suffixes[(value - 20) % 10] || suffixes[value] || suffixes[0]}`
+}
+
+// Human readable description of a rule's schedule ("Every 2 weeks on Monday")
+export const describeRecurrence = (rule: RecurringRule): string => {
+  const start = new Date(rule.startDate)
+  const units = { daily: "day", weekly: "week", monthly: "month", yearly: "year" }
+  const unit = units[rule.frequency]
+  const every = rule.interval === 1 ? `Every ${unit}` : `Every ${rule.interval} ${unit}s`
+
+  switch (rule.frequency) {
+    case "daily":
+      return every
+    case "weekly":
+      return `${every} on ${WEEKDAY_NAMES[start.getDay()]}`
+    case "monthly":
+      return rule.nthWeekday
+        ? `${every} on the ${WEEK_NAMES[String(rule.nthWeekday.week)]} ${WEEKDAY_NAMES[rule.nthWeekday.weekday]}`
+        : `${every} on the ${ordinal(start.getDate())}`
+    case "yearly":
+      return `${every} on ${start.toLocaleString("default", { month: "long" })} ${start.getDate()}`
+  }
+}
@@ -0,0 +1,150 @@
+import { describe, expect, it } from "vitest"
+import { applyRules, describeCondition, matchesCondition, matchesRule, previewRuleChanges } from "./rules-engine"
+import type { CategoryRule, Expense, RuleCondition } from "./models"
+
+const expense = (extra: Partial<Expense> = {}): Expense => ({
+  id: "a",
+  type: "expense",
+  amount: 24,
+  timestamp: 1_700_000_000_000,
+  category: "shopping",
+  note: "Uber to the airport",
+  ...extra,
+})
+
+const rule = (conditions: RuleCondition[], extra: Partial<CategoryRule> = {}): CategoryRule => ({
+  id: crypto.randomUUID(),
+  name: "Rule",
+  type: "expense",
+  conditions,
+  enabled: true,
+  createdAt: 0,
+  updatedAt: 0,
+  ...extra,
+})
+
+describe("matchesCondition", () => {
+  it("finds text in the note, ignoring case", () => {
+    expect(matchesCondition({ type: "contains", text: "uber" }, expense())).toBe(true)
+    expect(matchesCondition({ type: "contains", text: "lyft" }, expense())).toBe(false)
+    expect(matchesCondition({ type: "contains", text: "uber" }, expense({ note: undefined }))).toBe(false)
+  })
+
+  it("matches a regex, ignoring case", () => {
+    expect(matchesCondition({ type: "regex", pattern: "^uber\\b" }, expense())).toBe(true)
+    expect(matchesCondition({ type: "regex", pattern: "airport$" }, expense({ note: "Airport taxi" }))).toBe(false)
+  })
+
+  it("never matches an invalid regex instead of throwing", () => {
+    expect(matchesCondition({ type: "regex", pattern: "(uber" }, expense())).toBe(false)
+  })
+
+  it("checks amounts against inclusive bounds", () => {
+    expect(matchesCondition({ type: "amount", min: 24, max: 50 }, expense())).toBe(true)
+    expect(matchesCondition({ type: "amount", max: 24 }, expense())).toBe(true)
+    expect(matchesCondition({ type: "amount", min: 25 }, expense())).toBe(false)
+  })
+})
+
+describe("matchesRule", () => {
+  it("needs every condition to match", () => {
+    const both = rule([
+      { type: "contains", text: "uber" },
+      { type: "amount", max: 20 },
+    ])
+
+    expect(matchesRule(both, expense())).toBe(false)
+    expect(matchesRule(both, expense({ amount: 18 }))).toBe(true)
+  })
+
+  it("skips disabled rules and transactions of another type", () => {
+    const contains = [{ type: "contains", text: "uber" } as const]
+
+    expect(matchesRule(rule(contains, { enabled: false }), expense())).toBe(false)
+    expect(matchesRule(rule(contains, { type: "income" }), expense())).toBe(false)
+  })
+
+  it("never matches transfers", () => {
+    expect(matchesRule(rule([{ type: "contains", text: "uber" }]), expense({ type: "transfer" }))).toBe(false)
+  })
+})
+
+describe("applyRules", () => {
+  const uber = rule([{ type: "contains", text: "uber" }], { category: "transport", tags: ["travel"] })
+
+  it("sets the category of the first matching rule with one and adds every matching rule's tags", () => {
+    const rules = [
+      rule([{ type: "contains", text: "airport" }], { tags: ["trip"] }),
+      uber,
+      rule([{ type: "amount", min: 10 }], { category: "entertainment", tags: ["big"] }),
+    ]
+
+    expect(applyRules(expense(), rules)).toMatchObject({ category: "transport", tags: ["trip", "travel", "big"] })
+  })
+
+  it("returns the transaction unchanged when nothing matches", () => {
+    const original = expense({ note: "Groceries" })
+
+    expect(applyRules(original, [uber])).toBe(original)
+  })
+
+  it("only adds tags when the category is to be kept", () => {
+    expect(applyRules(expense(), [uber], true)).toMatchObject({ category: "shopping", tags: ["travel"] })
+  })
+
+  it("keeps the categories of a split transaction", () => {
+    const split = expense({
+      splits: [
+        { category: "shopping", amount: 20 },
+        { category: "food", amount: 4 },
+      ],
+    })
+
+    expect(applyRules(split, [uber])).toMatchObject({ category: "shopping", tags: ["travel"] })
+  })
+
+  it("doesn't add a tag the transaction already has in another casing", () => {
+    expect(applyRules(expense({ tags: ["Travel"] }), [uber]).tags).toEqual(["Travel"])
+  })
+})
+
+describe("previewRuleChanges", () => {
+  const uber = rule([{ type: "contains", text: "uber" }], { category: "transport", tags: ["travel"] })
+
+  it("lists transactions that would be recategorized or tagged", () => {
+    const changes = previewRuleChanges(
+      [
+        expense({ id: "recategorized" }),
+        expense({ id: "tagged", category: "transport" }),
+        expense({ id: "unchanged", category: "transport", tags: ["travel"] }),
+        expense({ id: "unmatched", note: "Groceries" }),
+      ],
+      [uber],
+    )
+
+    expect(changes.map(({ before }) => before.id)).toEqual(["recategorized", "tagged"])
+    expect(changes[1].after.tags).toEqual(["travel"])
+  })
+
+  it("ignores a tag that is already there in another casing", () => {
+    const changes = previewRuleChanges([expense({ category: "transport", tags: ["TRAVEL", "work"] })], [uber])
+
+    expect(changes).toEqual([])
+  })
+
+  it("notices a tag added to the ones a transaction already has", () => {
+    const changes = previewRuleChanges([expense({ category: "transport", tags: ["work"] })], [uber])
+
+    expect(changes.map(({ after }) => after.tags)).toEqual([["work", "travel"]])
+  })
+})
+
+describe("describeCondition", () => {
+  it("describes each kind of condition", () => {
+    expect(describeCondition({ type: "contains", text: "uber" })).toBe('note contains "uber"')
+    expect(describeCondition({ type: "regex", pattern: "^uber" })).toBe("note matches /^uber/")
+    expect(describeCondition({ type: "amount", min: 10, max: 50 })).toBe("amount 10–50")
+    expect(describeCondition({ type: "amount", min: 10 })).toBe("amount ≥ 10")
+    expect(describeCondition({ type: "amount", max: 50 })).toBe("amount ≤ 50")
+  })
+})
@@ -0,0 +1,105 @@
+// Categorization rules: "if the note contains Uber, file it under Transportation"
+// Rules run in order; the first matching rule with a category sets it, and every matching
+// rule adds its tags. Split transactions keep their categories, transfers are never matched.
+
+import type { CategoryRule, Expense, RuleCondition } from "./models"
+import { isSplit } from "./splits"
+import { normalizeTag } from "./tags"
+
+// A past transaction that rules would change
+export interface RuleChange {
+  before: Expense
+  after: Expense
+}
+
+// Check that a regex condition's pattern compiles
+export const isValidPattern = (pattern: string): boolean => {
+  try {
+    new RegExp(pattern, "i")
+    return true
+  } catch {
+    return false
+  }
+}
+
+// Check a single condition against a transaction
+export const matchesCondition = (condition: RuleCondition, expense: Expense): boolean => {
+  const note = expense.note ?? ""
+
+  switch (condition.type) {
+    case "contains":
+      return note.toLowerCase().includes(condition.text.toLowerCase())
+    case "regex":
+      // An invalid pattern never matches instead of breaking every other rule
+      return isValidPattern(condition.pattern) && new RegExp(condition.pattern, "i").test(note)
+    case "amount":
+      return (
+        (condition.min === undefined || expense.amount >= condition.min) &&
+        (condition.max === undefined || expense.amount <= condition.max)
+      )
+  }
+}
+
+// Check whether a rule applies to a transaction
+export const matchesRule = (rule: CategoryRule, expense: Expense): boolean => {
+  return (
+    rule.enabled &&
+    rule.type === expense.type &&
+    rule.conditions.every((condition) => matchesCondition(condition, expense))
+  )
+}
+
+// Apply the rules to a transaction, returning it unchanged if none match
+// With `keepCategory` (e.g. a category the user picked explicitly) rules only add tags
+export const applyRules = (expense: Expense, rules: CategoryRule[], keepCategory = false): Expense => {
+  const matching = rules.filter((rule) => matchesRule(rule, expense))
+  if (matching.length === 0) return expense
+
+  const categoryRule = keepCategory || isSplit(expense) ? undefined : matching.find((rule) => rule.category)
+
+  // A rule's tag is only added if the transaction doesn't have it already, whatever its casing
+  const tags = [...(expense.tags ?? [])]
+  const present = new Set(tags.map(normalizeTag))
+  matching
+    .flatMap((rule) => rule.tags ?? [])
+    .forEach((tag) => {
+      if (present.has(normalizeTag(tag))) return
+      present.add(normalizeTag(tag))
+      tags.push(tag)
+    })
+
+  return {
+    ...expense,
+    category: categoryRule?.category ?? expense.category,
+    tags: tags.length > 0 ? tags : undefined,
+  }
+}
+
+// Check whether two lists hold the same tags, ignoring order and casing
+const hasSameTags = (a: string[] = [], b: string[] = []): boolean => {
+  const left = new Set(a.map(normalizeTag))
+  const right = new Set(b.map(normalizeTag))
+  return left.size === right.size && Array.from(left).every((tag) => right.has(tag))
+}
+
+// Work out which past transactions the rules would recategorize or tag
+export const previewRuleChanges = (expenses: Expense[], rules: CategoryRule[]): RuleChange[] => {
+  return expenses
+    .map((expense) => ({ before: expense, after: applyRules(expense, rules) }))
+    .filter(({ before, after }) => before.category !== after.category || !hasSameTags(before.tags, after.tags))
+}
+
+// Short description of a condition, e.g. 'note contains "uber"' or "amount 10–50"
+export const describeCondition = (condition: RuleCondition): string => {
+  switch (condition.type) {
+    case "contains":
+      return `note contains "${condition.text}"`
+    case "regex":
+      return `note matches /${condition.pattern}/`
+    case "amount":
+      if (condition.min !== undefined && condition.max !== undefined) {
+        return `amount ${condition.min}–${condition.max}`
+      }
+      return condition.min !== undefined ? `amount ≥ ${condition.min}` : `amount ≤ ${condition.max ?? "any"}`
+  }
+}
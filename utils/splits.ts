@@ -0,0 +1,83 @@
+import type { Expense, ExpenseSplit } from "./models"
+import type { CategoryAmount } from "./categories"
+
+// A split transaction spreads its amount over several categories, e.g. one supermarket receipt
+// covering groceries, household and health items. Totals per category must use these helpers
+// instead of reading `category` and `amount` directly.
+
+// Largest rounding difference allowed between the splits and the total
+const SPLIT_TOLERANCE = 0.005
+
+// Check whether a transaction is split across categories
+export const isSplit = (expense: Expense): boolean => (expense.splits?.length ?? 0) > 1
+
+// Amount recorded under each category of a transaction
+export const getCategoryAmounts = (expense: Expense): CategoryAmount[] => {
+  if (expense.splits && isSplit(expense)) {
+    return expense.splits.map((split) => ({ id: split.category, amount: split.amount }))
+  }
+
+  return [{ id: expense.category, amount: expense.amount }]
+}
+
+// Part of a transaction's amount recorded under any of the given categories
+export const getAmountInCategories = (expense: Expense, categoryIds: string[]): number => {
+  return getCategoryAmounts(expense)
+    .filter(({ id }) => categoryIds.includes(id))
+    .reduce((sum, { amount }) => sum + amount, 0)
+}
+
+// Total per category over a set of transactions
+export const sumByCategory = (expenses: Expense[]): Map<string, number> => {
+  const totals = new Map<string, number>()
+
+  expenses.forEach((expense) => {
+    getCategoryAmounts(expense).forEach(({ id, amount }) => {
+      totals.set(id, (totals.get(id) ?? 0) + amount)
+    })
+  })
+
+  return totals
+}
+
+// Check that splits add up to the transaction amount, returning an error message if not
+export const validateSplits = (amount: number, splits: ExpenseSplit[]): string | null => {
+  if (splits.some((split) => !split.category)) {
+    return "Choose a category for each split"
+  }
+
+  if (splits.some((split) => !(split.amount > 0))) {
+    return "Each split needs an amount greater than zero"
+  }
+
+  const total = splits.reduce((sum, split) => sum + split.amount, 0)
+  if (Math.abs(total - amount) > SPLIT_TOLERANCE) {
+    return `Splits add up to ${total.toFixed(2)}, but the total is ${amount.toFixed(2)}`
+  }
+
+  return null
+}
+
+// Category shown for a split transaction where only one fits: the one with the largest share
+export const getMainCategory = (splits: ExpenseSplit[]): string => {
+  return splits.reduce((largest, split) => (split.amount > largest.amount ? split : largest)).category
+}
+
+// Move the splits of one category to another, combining splits that end up in the same category
+// Returns undefined once fewer than two categories are left, as the transaction is no longer split
+export const reassignSplits = (
+  splits: ExpenseSplit[],
+  sourceId: string,
+  targetId: string,
+): ExpenseSplit[] | undefined => {
+  const combined = new Map<string, number>()
+
+  splits.forEach((split) => {
+    const category = split.category === sourceId ? targetId : split.category
+    combined.set(category, (combined.get(category) ?? 0) + split.amount)
+  })
+
+  if (combined.size < 2) return undefined
+
+  return Array.from(combined.entries()).map(([category, amount]) => ({ category, amount }))
+}
@@ -0,0 +1,51 @@
+import type { Expense } from "./models"
+import { isIncome, isSpending } from "./cash-flow"
+
+// Tags are free-form labels like "#vacation-2026" that cut across categories
+// They are stored lowercase without the leading "#"
+
+// Normalize a tag as typed by the user
+export const normalizeTag = (tag: string): string => {
+  return tag.trim().replace(/^#+/, "").toLowerCase().replace(/\s+/g, "-")
+}
+
+// Split text like "#vacation-2026, work" into unique tags
+export const parseTags = (input: string): string[] => {
+  return Array.from(new Set(input.split(/[\s,]+/).map(normalizeTag).filter(Boolean)))
+}
+
+// Display a tag with its "#"
+export const formatTag = (tag: string): string => `#${tag}`
+
+// Display a list of tags, e.g. "#vacation-2026 #work"
+export const formatTags = (tags: string[] = []): string => tags.map(formatTag).join(" ")
+
+// Spending and income recorded with one tag
+export interface TagTotal {
+  tag: string
+  spent: number
+  income: number
+  count: number
+}
+
+// Total spending and income per tag, largest spending first
+// A transaction with several tags counts towards each of them; transfers are left out
+export const getTagTotals = (transactions: Expense[]): TagTotal[] => {
+  const totals = new Map<string, TagTotal>()
+
+  transactions
+    .filter((transaction) => isSpending(transaction) || isIncome(transaction))
+    .forEach((transaction) => {
+      transaction.tags?.forEach((tag) => {
+        const total = totals.get(tag) ?? { tag, spent: 0, income: 0, count: 0 }
+
+        if (isSpending(transaction)) total.spent += transaction.amount
+        if (isIncome(transaction)) total.income += transaction.amount
+        total.count++
+
+        totals.set(tag, total)
+      })
+    })
+
+  return Array.from(totals.values()).sort((a, b) => b.spent - a.spent || b.income - a.income)
+}
@@ -0,0 +1,135 @@
+import { z } from "zod"
+import type { Category, Expense } from "./models"
+import type { ExpenseOrder, ExpenseQuery } from "./db"
+import { getCategoryWithChildren } from "./categories"
+import { getCategoryAmounts } from "./splits"
+import { getEndOfDay, parseDateInputValue } from "./date-utils"
+
+// Search, filters and sort order of the transaction list, persisted in the settings store
+
+// Setting the active filters are saved under
+export const FILTERS_SETTING = "transactionFilters"
+
+export const TransactionSortSchema = z.enum(["date-desc", "date-asc", "amount-desc", "amount-asc"])
+
+export type TransactionSort = z.infer<typeof TransactionSortSchema>
+
+export const TRANSACTION_SORTS: Record<TransactionSort, string> = {
+  "date-desc": "Newest first",
+  "date-asc": "Oldest first",
+  "amount-desc": "Largest first",
+  "amount-asc": "Smallest first",
+}
+
+// Every field has a default, so filters saved by an older version still load
+export const TransactionFiltersSchema = z.object({
+  search: z.string().default(""), // Words that must all appear in the note
+  categories: z.array(z.string()).default([]), // Any of these, including their sub-categories
+  tags: z.array(z.string()).default([]), // Any of these
+  minAmount: z.number().nullable().default(null),
+  maxAmount: z.number().nullable().default(null),
+  startDate: z.string().nullable().default(null), // Date input values ("YYYY-MM-DD"), inclusive
+  endDate: z.string().nullable().default(null),
+  sort: TransactionSortSchema.default("date-desc"),
+})
+
+export type TransactionFilters = z.infer<typeof TransactionFiltersSchema>
+
+export const DEFAULT_FILTERS: TransactionFilters = TransactionFiltersSchema.parse({})
+
+// Read filters from the settings store, falling back to the defaults if they are malformed
+export const parseFilters = (value: unknown): TransactionFilters => {
+  const result = TransactionFiltersSchema.safeParse(value ?? {})
+  return result.success ? result.data : DEFAULT_FILTERS
+}
+
+// First and last timestamps of the date filters, null when open-ended
+const getDateBounds = (filters: TransactionFilters): { start: number | null; end: number | null } => ({
+  start: filters.startDate ? parseDateInputValue(filters.startDate).getTime() : null,
+  end: filters.endDate ? getEndOfDay(parseDateInputValue(filters.endDate)) : null,
+})
+
+// Check whether any filter (other than the sort order) narrows the list
+export const isFiltered = (filters: TransactionFilters): boolean => {
+  return (
+    filters.search.trim() !== "" ||
+    filters.categories.length > 0 ||
+    filters.tags.length > 0 ||
+    filters.minAmount !== null ||
+    filters.maxAmount !== null ||
+    filters.startDate !== null ||
+    filters.endDate !== null
+  )
+}
+
+// Check for transactions matching every active filter (the sort order aside)
+export const matchesFilters = (
+  filters: TransactionFilters,
+  categories: Category[],
+): ((transaction: Expense) => boolean) => {
+  const words = filters.search.toLowerCase().split(/\s+/).filter(Boolean)
+  const categoryIds = new Set(filters.categories.flatMap((id) => getCategoryWithChildren(categories, id)))
+  const { start, end } = getDateBounds(filters)
+
+  return (transaction) => {
+    const note = (transaction.note ?? "").toLowerCase()
+
+    return (
+      words.every((word) => note.includes(word)) &&
+      // A split transaction matches if any of its splits is in one of the categories
+      (categoryIds.size === 0 || getCategoryAmounts(transaction).some(({ id }) => categoryIds.has(id))) &&
+      (filters.tags.length === 0 || filters.tags.some((tag) => transaction.tags?.includes(tag))) &&
+      (filters.minAmount === null || transaction.amount >= filters.minAmount) &&
+      (filters.maxAmount === null || transaction.amount <= filters.maxAmount) &&
+      (start === null || transaction.timestamp >= start) &&
+      (end === null || transaction.timestamp <= end)
+    )
+  }
+}
+
+// Transactions matching every active filter, in the chosen order
+export const filterTransactions = (
+  transactions: Expense[],
+  filters: TransactionFilters,
+  categories: Category[],
+): Expense[] => {
+  return sortTransactions(transactions.filter(matchesFilters(filters, categories)), filters.sort)
+}
+
+const SORT_ORDERS: Record<TransactionSort, ExpenseOrder> = {
+  "date-desc": "newest",
+  "date-asc": "oldest",
+  "amount-desc": "largest",
+  "amount-asc": "smallest",
+}
+
+// Database query for the transactions matching the filters: the index of the sort order,
+// narrowed by the filter on the same field, with the other filters checked row by row
+export const getFiltersQuery = (filters: TransactionFilters, categories: Category[]): ExpenseQuery => {
+  const byAmount = filters.sort === "amount-desc" || filters.sort === "amount-asc"
+  const { start, end } = getDateBounds(filters)
+
+  return {
+    order: SORT_ORDERS[filters.sort],
+    min: byAmount ? filters.minAmount : start,
+    max: byAmount ? filters.maxAmount : end,
+    filter: isFiltered(filters) ? matchesFilters(filters, categories) : undefined,
+  }
+}
+
+// Sort transactions as the database indexes page them: equal amounts newest first when largest first,
+// oldest first when smallest first
+export const sortTransactions = (transactions: Expense[], sort: TransactionSort): Expense[] => {
+  return [...transactions].sort((a, b) => {
+    switch (sort) {
+      case "date-asc":
+        return a.timestamp - b.timestamp
+      case "amount-desc":
+        return b.amount - a.amount || b.timestamp - a.timestamp
+      case "amount-asc":
+        return a.amount - b.amount || a.timestamp - b.timestamp
+      default:
+        return b.timestamp - a.timestamp
+    }
+  })
+}
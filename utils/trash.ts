@@ -0,0 +1,28 @@
+import type { TrashEntry } from "./models"
+
+// Deleted transactions and budget goals go to the trash first, and are purged once they
+// have been there longer than the retention period chosen in settings
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Setting holding the number of days deleted records are kept
+export const TRASH_RETENTION_SETTING = "trashRetentionDays"
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30
+
+export const TRASH_RETENTION_OPTIONS = [7, 30, 90, 365]
+
+// Read the retention setting, falling back to the default if it is missing or malformed
+export const parseRetentionDays = (value: unknown): number => {
+  return typeof value === "number" && Number.isFinite(value) && value > 0 ? value : DEFAULT_TRASH_RETENTION_DAYS
+}
+
+// Entries deleted before this time are due to be purged
+export const getPurgeCutoff = (retentionDays: number, now: number = Date.now()): number => {
+  return now - retentionDays * DAY_MS
+}
+
+// Whole days left before an entry is purged (0 on its last day)
+export const getDaysUntilPurge = (entry: TrashEntry, retentionDays: number, now: number = Date.now()): number => {
+  return Math.max(Math.floor((entry.deletedAt + retentionDays * DAY_MS - now) / DAY_MS), 0)
+}
@@ -0,0 +1,26 @@
+"use client"
+
+import { type ExternalToast, toast } from "sonner"
+
+// Confirm a delete or edit with a toast offering to reverse it
+export const toastWithUndo = (
+  message: string,
+  undo: () => Promise<void>,
+  options: Omit<ExternalToast, "action"> = {},
+): void => {
+  toast.success(message, {
+    ...options,
+    action: {
+      label: "Undo",
+      onClick: async () => {
+        try {
+          await undo()
+          toast.success("Undone")
+        } catch (error) {
+          console.error("Error undoing change:", error)
+          toast.error("Failed to undo")
+        }
+      },
+    },
+  })
+}
@@ -0,0 +1,20 @@
+import { bench, describe } from "vitest"
+import { getOffsets, getVisibleRange } from "./virtual-list"
+
+// The rows rendered for a scroll position should cost the same with 1,000 or 50,000 rows
+
+const ROW_HEIGHT = 64
+const VIEWPORT_HEIGHT = 500
+
+describe("visible range while scrolling", () => {
+  for (const count of [1_000, 50_000]) {
+    const offsets = getOffsets(count, () => ROW_HEIGHT)
+    const totalHeight = offsets[count]
+    let scrollTop = 0
+
+    bench(`${count.toLocaleString("en")} rows`, () => {
+      scrollTop = (scrollTop + 997) % totalHeight
+      getVisibleRange(offsets, scrollTop, VIEWPORT_HEIGHT)
+    })
+  }
+})
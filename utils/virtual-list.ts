@@ -0,0 +1,51 @@
+// Windowing math for long lists: only the rows near the viewport are rendered
+
+export interface VisibleRange {
+  start: number // First index to render
+  end: number // One past the last index to render
+}
+
+// Top offset of every item followed by the total height, from the item heights
+export const getOffsets = (count: number, getSize: (index: number) => number): number[] => {
+  const offsets = new Array<number>(count + 1)
+  offsets[0] = 0
+
+  for (let i = 0; i < count; i++) {
+    offsets[i + 1] = offsets[i] + getSize(i)
+  }
+
+  return offsets
+}
+
+// Index of the item covering a scroll position (binary search over the offsets)
+export const findIndexAt = (offsets: number[], position: number): number => {
+  let low = 0
+  let high = offsets.length - 2
+
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2)
+    if (offsets[middle] <= position) {
+      low = middle
+    } else {
+      high = middle - 1
+    }
+  }
+
+  return Math.max(low, 0)
+}
+
+// Items to render for a viewport, with a few extra on each side so fast scrolling doesn't show gaps
+export const getVisibleRange = (
+  offsets: number[],
+  scrollTop: number,
+  viewportHeight: number,
+  overscan = 5,
+): VisibleRange => {
+  const count = offsets.length - 1
+  if (count <= 0) return { start: 0, end: 0 }
+
+  const first = findIndexAt(offsets, scrollTop)
+  const last = findIndexAt(offsets, scrollTop + viewportHeight)
+
+  return { start: Math.max(first - overscan, 0), end: Math.min(last + overscan + 1, count) }
+}